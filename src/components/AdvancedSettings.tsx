@@ -1,24 +1,32 @@
 import React, { useState, useEffect } from 'react';
-import { Stack, Title, Group, Card, Text, Switch, TextInput, Select, Button, Divider, Alert } from '@mantine/core';
-import { IconSettings, IconBrain, IconDatabase, IconKey } from '@tabler/icons-react';
+import { Stack, Title, Group, Card, Text, Switch, TextInput, Select, Button, Divider, Alert, Slider, Textarea, NumberInput, PasswordInput, ActionIcon } from '@mantine/core';
+import { IconSettings, IconBrain, IconDatabase, IconKey, IconSearch, IconWorld, IconTrash } from '@tabler/icons-react';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { notifications } from '@mantine/notifications';
-import { initializeEmbeddings, getEmbeddingsManager } from '../utils/rag';
-import { createVectorStoreManager } from '../utils/vectorStore';
-import { db } from '../db';
-
-interface EmbeddingsConfig {
-  provider: 'openai' | 'cohere' | 'local' | 'simple';
-  apiKey?: string;
-  model?: string;
-}
-
-interface VectorStoreConfig {
-  provider: 'local' | 'pinecone';
-  apiKey?: string;
-  environment?: string;
-  indexName?: string;
-  namespace?: string;
-}
+import {
+  getEmbeddingsManager,
+  getVectorStoreManager,
+  getSavedRagConfig,
+  loadSavedRagConfig,
+  saveEmbeddingsConfig,
+  saveVectorStoreConfig,
+  DEFAULT_RETRIEVAL_SETTINGS,
+  SavedRagConfig,
+} from '../utils/rag';
+import { startCopyJob } from '../utils/embeddingJob';
+import { getRequestSettings } from '../utils/workflowRequest';
+import { db, RetrievalSettings, WorkflowRequestSettings } from '../db';
+import { KnowledgeBaseEmbeddings } from './KnowledgeBaseEmbeddings';
+
+type EmbeddingsConfig = SavedRagConfig['embeddings'];
+type VectorStoreConfig = SavedRagConfig['vectorStore'];
+
+// Defaults shown for the self-hosted stores
+const STORE_SERVERS: Record<string, { label: string; url: string; collection: string }> = {
+  qdrant: { label: 'Qdrant', url: 'http://localhost:6333', collection: 'chatpad_chunks' },
+  chroma: { label: 'Chroma', url: 'http://localhost:8000', collection: 'chatpad_chunks' },
+  weaviate: { label: 'Weaviate', url: 'http://localhost:8080', collection: 'ChatpadChunk' },
+};
 
 export function AdvancedSettings() {
   const [embeddingsConfig, setEmbeddingsConfig] = useState<EmbeddingsConfig>({
@@ -29,16 +37,47 @@ export function AdvancedSettings() {
   });
   const [isInitializing, setIsInitializing] = useState(false);
   const [currentEmbeddingsProvider, setCurrentEmbeddingsProvider] = useState<string>('simple');
+  const retrieval = useLiveQuery(async () => {
+    const settings = await db.settings.get('general');
+    return settings?.retrieval ?? DEFAULT_RETRIEVAL_SETTINGS;
+  });
+
+  const updateRetrieval = (changes: Partial<RetrievalSettings>) =>
+    db.settings.update('general', {
+      retrieval: { ...(retrieval ?? DEFAULT_RETRIEVAL_SETTINGS), ...changes },
+    });
+
+  const workflowRequests = useLiveQuery(getRequestSettings);
+  const [secretName, setSecretName] = useState('');
+  const [secretValue, setSecretValue] = useState('');
+
+  const updateWorkflowRequests = async (changes: Partial<WorkflowRequestSettings>) =>
+    db.settings.update('general', {
+      workflowRequests: { ...(await getRequestSettings()), ...changes },
+    });
+
+  const handleAddSecret = async () => {
+    const secrets = (await getRequestSettings()).secrets;
+    await updateWorkflowRequests({ secrets: { ...secrets, [secretName.trim()]: secretValue } });
+    setSecretName('');
+    setSecretValue('');
+  };
+
+  const handleDeleteSecret = async (name: string) => {
+    const secrets = { ...(await getRequestSettings()).secrets };
+    delete secrets[name];
+    await updateWorkflowRequests({ secrets });
+  };
 
   useEffect(() => {
-    // Load current settings
+    // Load the saved configuration
     const loadSettings = async () => {
       try {
-        const settings = await db.settings.where({ id: "general" }).first();
-        if (settings) {
-          // You could store embeddings config in settings
-          setCurrentEmbeddingsProvider(getEmbeddingsManager()?.getProviderName() || 'simple');
-        }
+        const { embeddings, vectorStore } = await getSavedRagConfig();
+        setEmbeddingsConfig(embeddings);
+        setVectorStoreConfig(vectorStore);
+        await loadSavedRagConfig();
+        setCurrentEmbeddingsProvider(getEmbeddingsManager()?.getProviderName() || 'simple');
       } catch (error) {
         console.error('Failed to load settings:', error);
       }
@@ -50,16 +89,10 @@ export function AdvancedSettings() {
   const handleInitializeEmbeddings = async () => {
     try {
       setIsInitializing(true);
-      
-      let apiKey = embeddingsConfig.apiKey;
-      if (embeddingsConfig.provider === 'openai' && !apiKey) {
-        const settings = await db.settings.where({ id: "general" }).first();
-        apiKey = settings?.openAiApiKey;
-      }
 
-      await initializeEmbeddings(
+      await saveEmbeddingsConfig(
         embeddingsConfig.provider,
-        apiKey,
+        embeddingsConfig.apiKey,
         embeddingsConfig.model
       );
 
@@ -67,13 +100,14 @@ export function AdvancedSettings() {
       
       notifications.show({
         title: 'Success',
-        message: `Embeddings initialized with ${embeddingsConfig.provider} provider`,
+        message: `Embeddings initialized with ${embeddingsConfig.provider} provider and saved`,
         color: 'green',
       });
     } catch (error) {
+      setCurrentEmbeddingsProvider(getEmbeddingsManager()?.getProviderName() || 'simple');
       notifications.show({
         title: 'Error',
-        message: 'Failed to initialize embeddings',
+        message: error instanceof Error ? error.message : 'Failed to initialize embeddings',
         color: 'red',
       });
     } finally {
@@ -81,29 +115,22 @@ export function AdvancedSettings() {
     }
   };
 
-  const handleTestVectorStore = async () => {
+  const handleInitializeVectorStore = async () => {
     try {
       setIsInitializing(true);
       
-      const vectorStoreManager = await createVectorStoreManager(
-        vectorStoreConfig.provider,
-        {
-          apiKey: vectorStoreConfig.apiKey,
-          environment: vectorStoreConfig.environment,
-          indexName: vectorStoreConfig.indexName,
-          namespace: vectorStoreConfig.namespace,
-        }
-      );
+      const { provider, ...config } = vectorStoreConfig;
+      await saveVectorStoreConfig(provider, config);
 
       notifications.show({
         title: 'Success',
-        message: `Vector store ${vectorStoreManager.getName()} initialized successfully`,
+        message: `Vector store ${(await getVectorStoreManager()).getName()} initialized and saved`,
         color: 'green',
       });
     } catch (error) {
       notifications.show({
         title: 'Error',
-        message: 'Failed to initialize vector store',
+        message: error instanceof Error ? error.message : 'Failed to initialize vector store',
         color: 'red',
       });
     } finally {
@@ -111,6 +138,25 @@ export function AdvancedSettings() {
     }
   };
 
+  const isVectorStoreIncomplete =
+    (vectorStoreConfig.provider === 'pinecone' &&
+      (!vectorStoreConfig.apiKey ||
+        (!vectorStoreConfig.host && (!vectorStoreConfig.environment || !vectorStoreConfig.indexName)))) ||
+    (!!STORE_SERVERS[vectorStoreConfig.provider] && !vectorStoreConfig.url);
+
+  const handleCopyKnowledgeBase = async () => {
+    try {
+      const { provider, ...config } = vectorStoreConfig;
+      await startCopyJob(provider, config);
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to copy the knowledge base',
+        color: 'red',
+      });
+    }
+  };
+
   return (
     <Stack gap="lg">
       <Group>
@@ -139,7 +185,7 @@ export function AdvancedSettings() {
           />
 
           {embeddingsConfig.provider === 'openai' && (
-            <TextInput
+            <PasswordInput
               label="OpenAI API Key"
               description="Leave empty to use your main OpenAI API key"
               placeholder="sk-..."
@@ -153,7 +199,7 @@ export function AdvancedSettings() {
 
           {embeddingsConfig.provider === 'cohere' && (
             <>
-              <TextInput
+              <PasswordInput
                 label="Cohere API Key"
                 placeholder="Enter your Cohere API key"
                 value={embeddingsConfig.apiKey || ''}
@@ -208,6 +254,8 @@ export function AdvancedSettings() {
         </Stack>
       </Card>
 
+      <KnowledgeBaseEmbeddings provider={currentEmbeddingsProvider} />
+
       <Card withBorder p="lg">
         <Stack gap="md">
           <Group>
@@ -221,6 +269,9 @@ export function AdvancedSettings() {
             data={[
               { value: 'local', label: 'Local (IndexedDB)' },
               { value: 'pinecone', label: 'Pinecone' },
+              { value: 'qdrant', label: 'Qdrant' },
+              { value: 'chroma', label: 'Chroma' },
+              { value: 'weaviate', label: 'Weaviate' },
             ]}
             value={vectorStoreConfig.provider}
             onChange={(value) => setVectorStoreConfig(prev => ({ ...prev, provider: value as any }))}
@@ -228,7 +279,7 @@ export function AdvancedSettings() {
 
           {vectorStoreConfig.provider === 'pinecone' && (
             <>
-              <TextInput
+              <PasswordInput
                 label="Pinecone API Key"
                 placeholder="Enter your Pinecone API key"
                 value={vectorStoreConfig.apiKey || ''}
@@ -239,25 +290,37 @@ export function AdvancedSettings() {
                 required
               />
               <TextInput
-                label="Environment"
-                placeholder="e.g., us-west1-gcp"
-                value={vectorStoreConfig.environment || ''}
-                onChange={(event) => setVectorStoreConfig(prev => ({ 
-                  ...prev, 
-                  environment: event.currentTarget.value 
-                }))}
-                required
-              />
-              <TextInput
-                label="Index Name"
-                placeholder="Enter your Pinecone index name"
-                value={vectorStoreConfig.indexName || ''}
-                onChange={(event) => setVectorStoreConfig(prev => ({ 
-                  ...prev, 
-                  indexName: event.currentTarget.value 
+                label="Index Host"
+                description="Shown on the index page of the Pinecone console"
+                placeholder="e.g., my-index-abc1234.svc.aped-4627-b74a.pinecone.io"
+                value={vectorStoreConfig.host || ''}
+                onChange={(event) => setVectorStoreConfig(prev => ({
+                  ...prev,
+                  host: event.currentTarget.value
                 }))}
-                required
               />
+              {!vectorStoreConfig.host && (
+                <Group grow>
+                  <TextInput
+                    label="Environment"
+                    placeholder="e.g., us-west1-gcp"
+                    value={vectorStoreConfig.environment || ''}
+                    onChange={(event) => setVectorStoreConfig(prev => ({ 
+                      ...prev, 
+                      environment: event.currentTarget.value 
+                    }))}
+                  />
+                  <TextInput
+                    label="Index Name"
+                    placeholder="Enter your Pinecone index name"
+                    value={vectorStoreConfig.indexName || ''}
+                    onChange={(event) => setVectorStoreConfig(prev => ({ 
+                      ...prev, 
+                      indexName: event.currentTarget.value 
+                    }))}
+                  />
+                </Group>
+              )}
               <TextInput
                 label="Namespace (Optional)"
                 placeholder="default"
@@ -270,19 +333,228 @@ export function AdvancedSettings() {
             </>
           )}
 
+          {STORE_SERVERS[vectorStoreConfig.provider] && (
+            <>
+              <TextInput
+                label={`${STORE_SERVERS[vectorStoreConfig.provider].label} URL`}
+                placeholder={STORE_SERVERS[vectorStoreConfig.provider].url}
+                description={
+                  vectorStoreConfig.provider === 'chroma'
+                    ? 'The server has to allow this origin, e.g. with CHROMA_SERVER_CORS_ALLOW_ORIGINS'
+                    : undefined
+                }
+                value={vectorStoreConfig.url || ''}
+                onChange={(event) => setVectorStoreConfig(prev => ({
+                  ...prev,
+                  url: event.currentTarget.value
+                }))}
+                required
+              />
+              <PasswordInput
+                label="API Key (Optional)"
+                placeholder="Only when the server requires one"
+                value={vectorStoreConfig.apiKey || ''}
+                onChange={(event) => setVectorStoreConfig(prev => ({
+                  ...prev,
+                  apiKey: event.currentTarget.value
+                }))}
+              />
+              <TextInput
+                label={vectorStoreConfig.provider === 'weaviate' ? 'Class' : 'Collection'}
+                description="Created with the dimensions of your embeddings when it does not exist"
+                placeholder={STORE_SERVERS[vectorStoreConfig.provider].collection}
+                value={vectorStoreConfig.collection || ''}
+                onChange={(event) => setVectorStoreConfig(prev => ({
+                  ...prev,
+                  collection: event.currentTarget.value
+                }))}
+              />
+              {vectorStoreConfig.provider === 'chroma' && (
+                <Group grow>
+                  <TextInput
+                    label="Tenant"
+                    placeholder="default_tenant"
+                    value={vectorStoreConfig.tenant || ''}
+                    onChange={(event) => setVectorStoreConfig(prev => ({
+                      ...prev,
+                      tenant: event.currentTarget.value
+                    }))}
+                  />
+                  <TextInput
+                    label="Database"
+                    placeholder="default_database"
+                    value={vectorStoreConfig.database || ''}
+                    onChange={(event) => setVectorStoreConfig(prev => ({
+                      ...prev,
+                      database: event.currentTarget.value
+                    }))}
+                  />
+                </Group>
+              )}
+            </>
+          )}
+
           <Group>
             <Button
-              onClick={handleTestVectorStore}
+              onClick={handleInitializeVectorStore}
               loading={isInitializing}
-              disabled={vectorStoreConfig.provider === 'pinecone' && 
-                (!vectorStoreConfig.apiKey || !vectorStoreConfig.environment || !vectorStoreConfig.indexName)}
+              disabled={isVectorStoreIncomplete}
+            >
+              Initialize Vector Store
+            </Button>
+            <Button
+              variant="default"
+              onClick={handleCopyKnowledgeBase}
+              disabled={isVectorStoreIncomplete}
             >
-              Test Vector Store
+              Copy Knowledge Base Here
             </Button>
           </Group>
+          <Text size="xs" color="dimmed">
+            Copying adds the chunks embedded with the current embeddings to this store, e.g. before switching to it.
+          </Text>
         </Stack>
       </Card>
 
+      {retrieval && (
+        <Card withBorder p="lg">
+          <Stack spacing="md">
+            <Group>
+              <IconSearch size={20} />
+              <Title order={3}>Hybrid Search</Title>
+            </Group>
+
+            <Text size="sm" color="dimmed">
+              Document search combines keyword matching (BM25), which finds exact terms such as case numbers
+              and statute references, with embedding similarity, which finds related wording.
+            </Text>
+
+            <Select
+              label="Fusion Method"
+              data={[
+                { value: 'rrf', label: 'Reciprocal rank fusion' },
+                { value: 'weighted', label: 'Weighted sum of normalized scores' },
+              ]}
+              value={retrieval.fusion}
+              onChange={(value) => updateRetrieval({ fusion: (value ?? 'rrf') as RetrievalSettings['fusion'] })}
+              withinPortal
+            />
+
+            <div>
+              <Text size="sm" weight={500}>
+                Keyword Weight
+              </Text>
+              <Slider
+                key={`keyword-${retrieval.keywordWeight}`}
+                min={0}
+                max={2}
+                step={0.1}
+                precision={1}
+                defaultValue={retrieval.keywordWeight}
+                onChangeEnd={(keywordWeight) => updateRetrieval({ keywordWeight })}
+              />
+            </div>
+
+            <div>
+              <Text size="sm" weight={500}>
+                Vector Weight
+              </Text>
+              <Slider
+                key={`vector-${retrieval.vectorWeight}`}
+                min={0}
+                max={2}
+                step={0.1}
+                precision={1}
+                defaultValue={retrieval.vectorWeight}
+                onChangeEnd={(vectorWeight) => updateRetrieval({ vectorWeight })}
+              />
+            </div>
+
+            <Text size="xs" color="dimmed">
+              Set a weight to 0 to search with keywords or vectors only.
+            </Text>
+          </Stack>
+        </Card>
+      )}
+
+      {workflowRequests && (
+        <Card withBorder p="lg">
+          <Stack spacing="md">
+            <Group>
+              <IconWorld size={20} />
+              <Title order={3}>Workflow Requests</Title>
+            </Group>
+
+            <Text size="sm" color="dimmed">
+              HTTP request steps in workflows can only call the hosts listed here. Secrets are filled in when a
+              request is sent and do not appear in the run history.
+            </Text>
+
+            <Textarea
+              key={workflowRequests.allowedHosts.join('\n')}
+              label="Allowed Hosts"
+              description="One per line, e.g. api.example.com, localhost:3000 or *.example.com"
+              defaultValue={workflowRequests.allowedHosts.join('\n')}
+              onBlur={(event) =>
+                updateWorkflowRequests({
+                  allowedHosts: event.currentTarget.value
+                    .split('\n')
+                    .map(host => host.trim())
+                    .filter(Boolean),
+                })
+              }
+              autosize
+              minRows={2}
+            />
+
+            <NumberInput
+              label="Maximum Response Size (KB)"
+              min={1}
+              value={Math.round(workflowRequests.maxResponseBytes / 1024)}
+              onChange={(value) => value !== '' && updateWorkflowRequests({ maxResponseBytes: value * 1024 })}
+            />
+
+            <div>
+              <Text size="sm" weight={500}>
+                Secrets
+              </Text>
+              <Text size="xs" color="dimmed" mb="xs">
+                Use a secret in a request's URL, headers or body as {'{secrets.<name>}'}.
+              </Text>
+              <Stack spacing="xs">
+                {Object.keys(workflowRequests.secrets).map(name => (
+                  <Group key={name} position="apart">
+                    <Text size="sm" sx={{ fontFamily: 'monospace' }}>
+                      {`{secrets.${name}}`}
+                    </Text>
+                    <ActionIcon color="red" onClick={() => handleDeleteSecret(name)}>
+                      <IconTrash size={16} />
+                    </ActionIcon>
+                  </Group>
+                ))}
+                <Group spacing="xs" noWrap align="flex-end">
+                  <TextInput
+                    placeholder="Name"
+                    value={secretName}
+                    onChange={(event) => setSecretName(event.currentTarget.value.replace(/[\s{}]/g, ''))}
+                    sx={{ flex: 1 }}
+                  />
+                  <PasswordInput
+                    placeholder="Value"
+                    value={secretValue}
+                    onChange={(event) => setSecretValue(event.currentTarget.value)}
+                    sx={{ flex: 2 }}
+                  />
+                  <Button onClick={handleAddSecret} disabled={!secretName.trim() || !secretValue}>
+                    Save
+                  </Button>
+                </Group>
+              </Stack>
+            </div>
+          </Stack>
+        </Card>
+      )}
+
       <Alert color="blue" title="Information">
         <Text size="sm">
           Advanced settings allow you to configure embeddings and vector stores for enhanced RAG functionality. 
@@ -27,6 +27,10 @@ export function AgentCard({ agent, onEdit, onDelete, onToggleActive }: AgentCard
         />
       </Group>
 
+      <Text size="xs" c="dimmed" ff="monospace">
+        {agent.slug}
+      </Text>
+
       <Text size="sm" c="dimmed" mb="md">
         {agent.description}
       </Text>
@@ -1,20 +1,28 @@
 import React, { useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { Stack, Title, Button, Group, Text, SimpleGrid, Modal, TextInput, Textarea, MultiSelect, Switch } from '@mantine/core';
+import { Stack, Title, Button, Group, Text, SimpleGrid, Modal, TextInput, Textarea, MultiSelect, Select, Switch } from '@mantine/core';
 import { IconPlus, IconBrain } from '@tabler/icons-react';
 import { db, Agent } from '../db';
 import { AgentCard } from './AgentCard';
+import { slugify } from '../utils/slug';
+import { getTools } from '../utils/tools';
 import { notifications } from '@mantine/notifications';
 
 export function Agents() {
   const agents = useLiveQuery(() => db.agents.toArray());
+  const collections = useLiveQuery(() => db.collections.toArray());
+  const providerProfiles = useLiveQuery(async () => (await db.settings.get('general'))?.providerProfiles ?? []);
   const [createModalOpen, setCreateModalOpen] = useState(false);
   const [editingAgent, setEditingAgent] = useState<Agent | null>(null);
   const [formData, setFormData] = useState({
     name: '',
+    slug: '',
     description: '',
     systemPrompt: '',
     capabilities: [] as string[],
+    tools: [] as string[],
+    collectionIds: [] as string[],
+    providerId: undefined as string | undefined,
     isActive: true,
   });
 
@@ -26,10 +34,31 @@ export function Agents() {
     'data-analysis', 'visualization', 'presentation', 'communication'
   ];
 
+  // The slug from the form, or from the name when left empty. Workflow
+  // templates refer to agents by slug, so two agents cannot share one.
+  const getSlug = async (agentId?: string) => {
+    const slug = slugify(formData.slug || formData.name);
+    const existing = await db.agents.where('slug').equals(slug).first();
+    if (!slug || (existing && existing.id !== agentId)) {
+      notifications.show({
+        title: 'Error',
+        message: slug ? `Another agent already uses the slug "${slug}"` : 'The agent needs a slug',
+        color: 'red',
+      });
+      return undefined;
+    }
+    return slug;
+  };
+
   const handleCreateAgent = async () => {
+    const slug = await getSlug();
+    if (!slug) return;
+
     try {
       const newAgent: Omit<Agent, 'id' | 'createdAt' | 'updatedAt'> = {
         ...formData,
+        collectionIds: formData.collectionIds.length ? formData.collectionIds : undefined,
+        slug,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -42,9 +71,13 @@ export function Agents() {
       setCreateModalOpen(false);
       setFormData({
         name: '',
+        slug: '',
         description: '',
         systemPrompt: '',
         capabilities: [],
+        tools: [],
+        collectionIds: [],
+        providerId: undefined,
         isActive: true,
       });
 
@@ -66,9 +99,13 @@ export function Agents() {
     setEditingAgent(agent);
     setFormData({
       name: agent.name,
+      slug: agent.slug,
       description: agent.description,
       systemPrompt: agent.systemPrompt,
       capabilities: agent.capabilities,
+      tools: agent.tools ?? [],
+      collectionIds: agent.collectionIds ?? [],
+      providerId: agent.providerId,
       isActive: agent.isActive,
     });
     setCreateModalOpen(true);
@@ -76,10 +113,14 @@ export function Agents() {
 
   const handleUpdateAgent = async () => {
     if (!editingAgent) return;
+    const slug = await getSlug(editingAgent.id);
+    if (!slug) return;
 
     try {
       await db.agents.update(editingAgent.id, {
         ...formData,
+        collectionIds: formData.collectionIds.length ? formData.collectionIds : undefined,
+        slug,
         updatedAt: new Date(),
       });
 
@@ -87,9 +128,13 @@ export function Agents() {
       setEditingAgent(null);
       setFormData({
         name: '',
+        slug: '',
         description: '',
         systemPrompt: '',
         capabilities: [],
+        tools: [],
+        collectionIds: [],
+        providerId: undefined,
         isActive: true,
       });
 
@@ -144,9 +189,13 @@ export function Agents() {
     setEditingAgent(null);
     setFormData({
       name: '',
+      slug: '',
       description: '',
       systemPrompt: '',
       capabilities: [],
+      tools: [],
+      collectionIds: [],
+      providerId: undefined,
       isActive: true,
     });
   };
@@ -199,6 +248,14 @@ export function Agents() {
             required
           />
 
+          <TextInput
+            label="Slug"
+            placeholder={slugify(formData.name) || 'research-assistant'}
+            description="Workflow templates refer to the agent by it; changing it breaks the templates that use the old one"
+            value={formData.slug}
+            onChange={(event) => setFormData({ ...formData, slug: event.currentTarget.value.toLowerCase().replace(/[^a-z0-9-]/g, '-') })}
+          />
+
           <TextInput
             label="Description"
             placeholder="Brief description of the agent's purpose"
@@ -232,6 +289,36 @@ export function Agents() {
             }}
           />
 
+          <MultiSelect
+            label="Tools"
+            placeholder="Tools the agent may call"
+            data={getTools().map(tool => ({ value: tool.name, label: tool.label }))}
+            value={formData.tools}
+            onChange={(value) => setFormData({ ...formData, tools: value })}
+          />
+
+          <MultiSelect
+            label="Default Collections"
+            placeholder="Every document"
+            description={
+              editingAgent?.collectionIds?.length === 0
+                ? 'Its collections were deleted, so its chats search no documents until some are chosen'
+                : 'Knowledge base collections searched by chats using this agent'
+            }
+            data={(collections ?? []).map(collection => ({ value: collection.id, label: collection.name }))}
+            value={formData.collectionIds}
+            onChange={(value) => setFormData({ ...formData, collectionIds: value })}
+          />
+
+          <Select
+            label="Provider"
+            placeholder="Default provider"
+            data={(providerProfiles ?? []).map(profile => ({ value: profile.id, label: profile.name }))}
+            value={formData.providerId ?? null}
+            onChange={(value) => setFormData({ ...formData, providerId: value ?? undefined })}
+            clearable
+          />
+
           <Switch
             label="Active"
             checked={formData.isActive}
@@ -0,0 +1,232 @@
+import {
+  Button,
+  Drawer,
+  Group,
+  MultiSelect,
+  NumberInput,
+  Select,
+  Slider,
+  Stack,
+  Switch,
+  Text,
+  Textarea,
+  TextInput,
+} from "@mantine/core";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Chat, db } from "../db";
+import { config } from "../utils/config";
+import { getProviderProfile } from "../utils/providers";
+
+export function ChatSettingsDrawer({
+  chat,
+  opened,
+  onClose,
+}: {
+  chat: Chat;
+  opened: boolean;
+  onClose: () => void;
+}) {
+  const settings = useLiveQuery(() => db.settings.get("general"));
+  const agents = useLiveQuery(() =>
+    db.agents.filter((agent) => agent.isActive).toArray()
+  );
+  const collections = useLiveQuery(() => db.collections.toArray());
+  const agent = agents?.find((a) => a.id === chat.agentId);
+  const profile = getProviderProfile(
+    settings,
+    chat.providerId ?? agent?.providerId
+  );
+  const model = chat.model ?? profile?.model ?? config.defaultModel;
+  // Anthropic accepts temperatures up to 1
+  const maxTemperature = profile?.type === "anthropic" ? 1 : 2;
+
+  const update = (changes: Partial<Chat>) => db.chats.update(chat.id, changes);
+
+  return (
+    <Drawer
+      opened={opened}
+      onClose={onClose}
+      title="Chat Settings"
+      position="right"
+      padding="md"
+    >
+      <Stack spacing="sm">
+        <Select
+          label="Provider"
+          value={profile?.id ?? null}
+          // The model of another provider would not be found, use the
+          // default of the new one
+          onChange={(value) =>
+            update({ providerId: value ?? undefined, model: undefined })
+          }
+          data={(settings?.providerProfiles ?? []).map((p) => ({
+            value: p.id,
+            label: p.name,
+          }))}
+          withinPortal
+        />
+        {profile?.type === "openai" ? (
+          <Select
+            label="Model"
+            value={model}
+            onChange={(value) => update({ model: value ?? undefined })}
+            data={config.availableModels}
+            searchable
+            withinPortal
+          />
+        ) : (
+          <TextInput
+            key={chat.model}
+            label="Model"
+            placeholder={profile?.model}
+            defaultValue={chat.model ?? ""}
+            onBlur={(event) =>
+              update({ model: event.currentTarget.value || undefined })
+            }
+          />
+        )}
+        <div>
+          <Text size="sm" weight={500}>
+            Temperature
+          </Text>
+          <Slider
+            key={`${chat.temperature}-${maxTemperature}`}
+            min={0}
+            max={maxTemperature}
+            step={0.1}
+            precision={1}
+            defaultValue={Math.min(chat.temperature ?? 1, maxTemperature)}
+            onChangeEnd={(temperature) => update({ temperature })}
+            marks={[{ value: 0 }, { value: 1 }, { value: 2 }].filter(
+              (mark) => mark.value <= maxTemperature
+            )}
+          />
+        </div>
+        <div>
+          <Text size="sm" weight={500}>
+            Top P
+          </Text>
+          <Slider
+            key={chat.topP}
+            min={0}
+            max={1}
+            step={0.05}
+            precision={2}
+            defaultValue={chat.topP ?? 1}
+            onChangeEnd={(topP) => update({ topP })}
+          />
+        </div>
+        <NumberInput
+          label="Max Tokens"
+          description="Leave empty to let the provider decide"
+          min={1}
+          value={chat.maxTokens ?? ""}
+          onChange={(value) => update({ maxTokens: value || undefined })}
+        />
+        <Select
+          label="Agent"
+          value={chat.agentId ?? null}
+          onChange={(value) => update({ agentId: value ?? undefined })}
+          data={(agents ?? []).map((a) => ({ value: a.id, label: a.name }))}
+          placeholder="None"
+          searchable
+          clearable
+          withinPortal
+        />
+        <Textarea
+          label="System Prompt"
+          description="Replaces the agent and writing options when set"
+          autosize
+          minRows={2}
+          maxRows={6}
+          defaultValue={chat.systemPrompt ?? ""}
+          onBlur={(event) =>
+            update({ systemPrompt: event.currentTarget.value || undefined })
+          }
+        />
+        <Switch
+          label="Use knowledge base (RAG)"
+          checked={chat.useRAG ?? true}
+          onChange={(event) =>
+            update({ useRAG: event.currentTarget.checked })
+          }
+        />
+        <MultiSelect
+          label="Knowledge Base Collections"
+          description={
+            chat.collectionIds?.length === 0
+              ? "Its collections were deleted, so RAG searches no documents until some are chosen"
+              : agent?.collectionIds?.length
+              ? "Leave empty to use the agent's collections"
+              : "Leave empty to search every document"
+          }
+          value={chat.collectionIds ?? []}
+          onChange={(value) =>
+            update({ collectionIds: value.length ? value : undefined })
+          }
+          data={(collections ?? []).map((c) => ({
+            value: c.id,
+            label: c.name,
+          }))}
+          disabled={!(chat.useRAG ?? true)}
+          searchable
+          clearable
+          withinPortal
+        />
+        <Select
+          label="Character"
+          value={chat.writingCharacter ?? null}
+          onChange={(value) =>
+            update({ writingCharacter: value ?? undefined })
+          }
+          data={config.writingCharacters}
+          searchable
+          clearable
+          withinPortal
+        />
+        <Select
+          label="Tone"
+          value={chat.writingTone ?? null}
+          onChange={(value) => update({ writingTone: value ?? undefined })}
+          data={config.writingTones}
+          searchable
+          clearable
+          withinPortal
+        />
+        <Select
+          label="Style"
+          value={chat.writingStyle ?? null}
+          onChange={(value) => update({ writingStyle: value ?? undefined })}
+          data={config.writingStyles}
+          searchable
+          clearable
+          withinPortal
+        />
+        <Select
+          label="Format"
+          value={chat.writingFormat ?? null}
+          onChange={(value) => update({ writingFormat: value ?? undefined })}
+          data={config.writingFormats}
+          searchable
+          clearable
+          withinPortal
+        />
+        <Group position="right">
+          <Button
+            variant="subtle"
+            onClick={() =>
+              update({
+                model: undefined,
+                temperature: undefined,
+                topP: undefined,
+                maxTokens: undefined,
+              })
+            }
+          >
+            Reset generation settings
+          </Button>
+        </Group>
+      </Stack>
+    </Drawer>
+  );
+}
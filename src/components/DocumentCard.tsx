@@ -5,6 +5,7 @@ import { UserDocument } from '../db';
 
 interface DocumentCardProps {
   document: UserDocument;
+  collectionName?: string;
   onEdit: (document: UserDocument) => void;
   onDelete: (documentId: string) => void;
   onView: (document: UserDocument) => void;
@@ -38,7 +39,7 @@ const getDocumentTypeColor = (type: UserDocument['type']) => {
   }
 };
 
-export function DocumentCard({ document, onEdit, onDelete, onView }: DocumentCardProps) {
+export function DocumentCard({ document, collectionName, onEdit, onDelete, onView }: DocumentCardProps) {
   const contentPreview = document.content.length > 150 
     ? document.content.substring(0, 150) + '...'
     : document.content;
@@ -59,6 +60,7 @@ export function DocumentCard({ document, onEdit, onDelete, onView }: DocumentCar
 
       <Text size="sm" c="dimmed" mb="md">
         Source: {document.source}
+        {collectionName && ` · ${collectionName}`}
       </Text>
 
       <Text size="sm" mb="md" lineClamp={3}>
@@ -0,0 +1,98 @@
+import { Badge, Box, Group, Modal, Stack, Text } from "@mantine/core";
+import { useLiveQuery } from "dexie-react-hooks";
+import { useEffect, useRef } from "react";
+import { db } from "../db";
+
+// Show a document, optionally scrolled to and highlighting one of its chunks
+export function DocumentViewerModal({
+  documentId,
+  chunkId,
+  opened,
+  onClose,
+}: {
+  documentId?: string;
+  chunkId?: string;
+  opened: boolean;
+  onClose: () => void;
+}) {
+  const document = useLiveQuery(
+    async () => (documentId ? db.userDocuments.get(documentId) : undefined),
+    [documentId]
+  );
+  const chunk = useLiveQuery(
+    async () => (chunkId ? db.documentChunks.get(chunkId) : undefined),
+    [chunkId]
+  );
+  const highlightRef = useRef<HTMLElement>(null);
+
+  const content = document?.content ?? "";
+  const start = chunk ? content.indexOf(chunk.content) : -1;
+
+  useEffect(() => {
+    if (opened && start >= 0) {
+      // Wait for the modal transition before scrolling
+      const timeout = setTimeout(
+        () => highlightRef.current?.scrollIntoView({ block: "center" }),
+        200
+      );
+      return () => clearTimeout(timeout);
+    }
+  }, [opened, start]);
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={document?.title ?? "Document"}
+      size="xl"
+    >
+      {document ? (
+        <Stack spacing="md">
+          <Group spacing="xs">
+            <Badge color={document.type === "pdf" ? "red" : "blue"}>
+              {document.type.toUpperCase()}
+            </Badge>
+            {chunk?.page !== undefined && (
+              <Badge variant="outline">Page {chunk.page}</Badge>
+            )}
+            {chunk?.heading && (
+              <Text size="sm" color="dimmed">
+                {chunk.heading}
+              </Text>
+            )}
+            <Text size="sm" color="dimmed">
+              Source: {document.source}
+            </Text>
+          </Group>
+          <Text size="sm" sx={{ whiteSpace: "pre-wrap" }}>
+            {start >= 0 && chunk ? (
+              <>
+                {content.slice(0, start)}
+                <Box
+                  component="mark"
+                  ref={highlightRef}
+                  sx={(theme) => ({
+                    backgroundColor:
+                      theme.colorScheme === "dark"
+                        ? theme.colors.yellow[9]
+                        : theme.colors.yellow[2],
+                    color: "inherit",
+                  })}
+                >
+                  {chunk.content}
+                </Box>
+                {content.slice(start + chunk.content.length)}
+              </>
+            ) : (
+              content
+            )}
+          </Text>
+        </Stack>
+      ) : (
+        <Text size="sm" color="dimmed">
+          This document is no longer in your knowledge base.
+        </Text>
+      )}
+    </Modal>
+  );
+}
@@ -1,14 +1,34 @@
 import React, { useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { Stack, Title, Button, Group, Text, SimpleGrid, Modal, TextInput, Textarea, Select, FileInput, Progress, Badge } from '@mantine/core';
-import { IconPlus, IconUpload, IconFileText } from '@tabler/icons-react';
-import { db, UserDocument } from '../db';
+import { Stack, Title, Button, Group, Text, SimpleGrid, Modal, TextInput, Textarea, Select, FileInput, Progress, ActionIcon, Tooltip } from '@mantine/core';
+import { IconPlus, IconUpload, IconFileText, IconFolderPlus, IconTrash } from '@tabler/icons-react';
+import { db, Collection, UserDocument } from '../db';
 import { DocumentCard } from './DocumentCard';
+import { DocumentViewerModal } from './DocumentViewerModal';
 import { notifications } from '@mantine/notifications';
-import { processDocument } from '../utils/rag';
+import {
+  deleteCollection,
+  deleteDocumentChunks,
+  getCollectionDependents,
+  processDocument,
+  setDocumentCollection,
+} from '../utils/rag';
 
 export function Documents() {
-  const documents = useLiveQuery(() => db.userDocuments.toArray());
+  const [activeCollection, setActiveCollection] = useState<string | null>(null);
+  const documents = useLiveQuery(
+    () =>
+      activeCollection
+        ? db.userDocuments.where('collectionId').equals(activeCollection).toArray()
+        : db.userDocuments.toArray(),
+    [activeCollection]
+  );
+  const collections = useLiveQuery(() => db.collections.toArray());
+  const [collectionModalOpen, setCollectionModalOpen] = useState(false);
+  // Set while deletion of the active collection awaits confirmation
+  const [collectionDependents, setCollectionDependents] =
+    useState<Awaited<ReturnType<typeof getCollectionDependents>> | null>(null);
+  const [collectionForm, setCollectionForm] = useState({ name: '', description: '' });
   const [createModalOpen, setCreateModalOpen] = useState(false);
   const [editingDocument, setEditingDocument] = useState<UserDocument | null>(null);
   const [viewingDocument, setViewingDocument] = useState<UserDocument | null>(null);
@@ -18,6 +38,7 @@ export function Documents() {
     content: '',
     type: 'text' as UserDocument['type'],
     source: '',
+    collectionId: undefined as string | undefined,
   });
 
   const handleCreateDocument = async () => {
@@ -57,6 +78,7 @@ export function Documents() {
           content: '',
           type: 'text',
           source: '',
+          collectionId: activeCollection ?? undefined,
         });
     } catch (error) {
       notifications.show({
@@ -74,6 +96,7 @@ export function Documents() {
       content: document.content,
       type: document.type,
       source: document.source,
+      collectionId: document.collectionId,
     });
     setCreateModalOpen(true);
   };
@@ -82,10 +105,14 @@ export function Documents() {
     if (!editingDocument) return;
 
     try {
+      const { collectionId, ...changes } = formData;
       await db.userDocuments.update(editingDocument.id, {
-        ...formData,
+        ...changes,
         updatedAt: new Date(),
       });
+      if (collectionId !== editingDocument.collectionId) {
+        await setDocumentCollection(editingDocument.id, collectionId);
+      }
 
       setCreateModalOpen(false);
       setEditingDocument(null);
@@ -94,6 +121,7 @@ export function Documents() {
         content: '',
         type: 'text',
         source: '',
+        collectionId: activeCollection ?? undefined,
       });
 
       notifications.show({
@@ -113,6 +141,7 @@ export function Documents() {
   const handleDeleteDocument = async (documentId: string) => {
     try {
       await db.userDocuments.delete(documentId);
+      await deleteDocumentChunks(documentId);
       notifications.show({
         title: 'Success',
         message: 'Document deleted successfully',
@@ -134,66 +163,114 @@ export function Documents() {
   const handleFileUpload = async (file: File | null) => {
     if (!file) return;
 
-    setUploadProgress(0);
+    setUploadProgress(10);
     
     try {
-      // Simulate file processing
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const content = e.target?.result as string;
-        
-        // Simulate processing progress
-        for (let i = 0; i <= 100; i += 10) {
-          setUploadProgress(i);
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+      // Parsers are only loaded once a file is uploaded
+      const { extractDocument } = await import('../utils/extraction');
+      const extracted = await extractDocument(file);
+      setUploadProgress(50);
 
-        const newDocument: Omit<UserDocument, 'id' | 'createdAt' | 'updatedAt'> = {
-          title: file.name,
-          content: content,
-          type: file.type.includes('pdf') ? 'pdf' : 'doc',
-          source: 'File Upload',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
+      if (!extracted.content.trim()) {
+        throw new Error('No text could be extracted from this file.');
+      }
 
-        const documentWithId = {
-          ...newDocument,
-          id: crypto.randomUUID(),
-        };
+      const documentWithId: UserDocument = {
+        ...extracted,
+        id: crypto.randomUUID(),
+        source: 'File Upload',
+        collectionId: activeCollection ?? undefined,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
 
-        await db.userDocuments.add(documentWithId);
+      await db.userDocuments.add(documentWithId);
+      setUploadProgress(70);
 
-        // Process document for RAG
-        try {
-          await processDocument(documentWithId);
-          notifications.show({
-            title: 'Success',
-            message: 'Document uploaded and processed for RAG successfully',
-            color: 'green',
-          });
-        } catch (error) {
-          notifications.show({
-            title: 'Warning',
-            message: 'Document uploaded but RAG processing failed',
-            color: 'yellow',
-          });
-        }
+      // Process document for RAG
+      try {
+        await processDocument(documentWithId);
+        notifications.show({
+          title: 'Success',
+          message: 'Document uploaded and processed for RAG successfully',
+          color: 'green',
+        });
+      } catch (error) {
+        notifications.show({
+          title: 'Warning',
+          message: 'Document uploaded but RAG processing failed',
+          color: 'yellow',
+        });
+      }
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to process uploaded file',
+        color: 'red',
+      });
+    } finally {
+      setUploadProgress(0);
+    }
+  };
+
+  const handleOpenCreateModal = () => {
+    setFormData({ ...formData, collectionId: activeCollection ?? undefined });
+    setCreateModalOpen(true);
+  };
 
-        setUploadProgress(0);
+  const handleCreateCollection = async () => {
+    try {
+      const collection: Collection = {
+        id: crypto.randomUUID(),
+        name: collectionForm.name.trim(),
+        description: collectionForm.description.trim() || undefined,
+        createdAt: new Date(),
       };
+      await db.collections.add(collection);
 
-      reader.readAsText(file);
+      setCollectionModalOpen(false);
+      setCollectionForm({ name: '', description: '' });
+      setActiveCollection(collection.id);
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to create collection',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleConfirmDeleteCollection = async () => {
+    if (!activeCollection) return;
+    setCollectionDependents(await getCollectionDependents(activeCollection));
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!activeCollection) return;
+
+    try {
+      await deleteCollection(activeCollection);
+      setCollectionDependents(null);
+      setActiveCollection(null);
+      notifications.show({
+        title: 'Success',
+        message: 'Collection deleted, its documents were kept',
+        color: 'green',
+      });
     } catch (error) {
-      setUploadProgress(0);
       notifications.show({
         title: 'Error',
-        message: 'Failed to process uploaded file',
+        message: 'Failed to delete collection',
         color: 'red',
       });
     }
   };
 
+  const collectionOptions = (collections ?? []).map(collection => ({
+    value: collection.id,
+    label: collection.name,
+  }));
+
   const handleModalClose = () => {
     setCreateModalOpen(false);
     setEditingDocument(null);
@@ -202,6 +279,7 @@ export function Documents() {
       content: '',
       type: 'text',
       source: '',
+      collectionId: activeCollection ?? undefined,
     });
   };
 
@@ -215,19 +293,42 @@ export function Documents() {
         <Group>
           <FileInput
             placeholder="Upload document"
-            accept=".txt,.pdf,.doc,.docx"
+            accept=".txt,.md,.markdown,.pdf,.docx,.html,.htm,.csv,.json"
             onChange={handleFileUpload}
             leftSection={<IconUpload size={16} />}
           />
           <Button
             leftSection={<IconPlus size={16} />}
-            onClick={() => setCreateModalOpen(true)}
+            onClick={handleOpenCreateModal}
           >
             Add Document
           </Button>
         </Group>
       </Group>
 
+      <Group spacing="xs">
+        <Select
+          placeholder="All documents"
+          data={collectionOptions}
+          value={activeCollection}
+          onChange={setActiveCollection}
+          clearable
+          withinPortal
+        />
+        <Tooltip label="New collection">
+          <ActionIcon variant="default" size="lg" onClick={() => setCollectionModalOpen(true)}>
+            <IconFolderPlus size={16} />
+          </ActionIcon>
+        </Tooltip>
+        {activeCollection && (
+          <Tooltip label="Delete collection">
+            <ActionIcon variant="default" size="lg" color="red" onClick={handleConfirmDeleteCollection}>
+              <IconTrash size={16} />
+            </ActionIcon>
+          </Tooltip>
+        )}
+      </Group>
+
       {uploadProgress > 0 && (
         <Progress value={uploadProgress} label={`Processing: ${uploadProgress}%`} size="sm" />
       )}
@@ -238,6 +339,7 @@ export function Documents() {
             <DocumentCard
               key={document.id}
               document={document}
+              collectionName={collections?.find(c => c.id === document.collectionId)?.name}
               onEdit={handleEditDocument}
               onDelete={handleDeleteDocument}
               onView={handleViewDocument}
@@ -246,7 +348,9 @@ export function Documents() {
         </SimpleGrid>
       ) : (
         <Text c="dimmed" ta="center" py="xl">
-          No documents added yet. Upload or create your first document to build your knowledge base.
+          {activeCollection
+            ? 'This collection is empty. Upload or create a document while it is selected to add one.'
+            : 'No documents added yet. Upload or create your first document to build your knowledge base.'}
         </Text>
       )}
 
@@ -279,6 +383,15 @@ export function Documents() {
             required
           />
 
+          <Select
+            label="Collection"
+            placeholder="No collection"
+            data={collectionOptions}
+            value={formData.collectionId ?? null}
+            onChange={(value) => setFormData({ ...formData, collectionId: value ?? undefined })}
+            clearable
+          />
+
           <TextInput
             label="Source"
             placeholder="Document source or URL"
@@ -311,27 +424,65 @@ export function Documents() {
       </Modal>
 
       <Modal
-        opened={!!viewingDocument}
-        onClose={() => setViewingDocument(null)}
-        title={viewingDocument?.title}
-        size="xl"
+        opened={collectionModalOpen}
+        onClose={() => setCollectionModalOpen(false)}
+        title="New Collection"
+      >
+        <Stack spacing="md">
+          <TextInput
+            label="Name"
+            placeholder="e.g. Contracts, Case law"
+            value={collectionForm.name}
+            onChange={(event) => setCollectionForm({ ...collectionForm, name: event.currentTarget.value })}
+            required
+          />
+          <Textarea
+            label="Description"
+            value={collectionForm.description}
+            onChange={(event) => setCollectionForm({ ...collectionForm, description: event.currentTarget.value })}
+          />
+          <Group position="right">
+            <Button variant="subtle" onClick={() => setCollectionModalOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateCollection} disabled={!collectionForm.name.trim()}>
+              Create Collection
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+
+      <Modal
+        opened={!!collectionDependents}
+        onClose={() => setCollectionDependents(null)}
+        title="Delete Collection"
       >
-        {viewingDocument && (
-          <Stack gap="md">
-            <Group>
-              <Badge color={viewingDocument.type === 'pdf' ? 'red' : 'blue'}>
-                {viewingDocument.type.toUpperCase()}
-              </Badge>
-              <Text size="sm" c="dimmed">
-                Source: {viewingDocument.source}
+        <Stack spacing="md">
+          <Text size="sm">Its documents are kept and become unfiled.</Text>
+          {collectionDependents &&
+            collectionDependents.chats + collectionDependents.agents + collectionDependents.workflows > 0 && (
+              <Text size="sm">
+                {collectionDependents.chats} chats, {collectionDependents.agents} agents and{' '}
+                {collectionDependents.workflows} workflows search only this collection. They will search no documents
+                until other collections are chosen.
               </Text>
-            </Group>
-            <Text size="sm" style={{ whiteSpace: 'pre-wrap' }}>
-              {viewingDocument.content}
-            </Text>
-          </Stack>
-        )}
+            )}
+          <Group position="right">
+            <Button variant="subtle" onClick={() => setCollectionDependents(null)}>
+              Cancel
+            </Button>
+            <Button color="red" onClick={handleDeleteCollection}>
+              Delete Collection
+            </Button>
+          </Group>
+        </Stack>
       </Modal>
+
+      <DocumentViewerModal
+        documentId={viewingDocument?.id}
+        opened={!!viewingDocument}
+        onClose={() => setViewingDocument(null)}
+      />
     </Stack>
   );
 }
\ No newline at end of file
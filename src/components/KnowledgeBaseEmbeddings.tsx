@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Alert, Button, Card, Group, Progress, Stack, Text, Title } from '@mantine/core';
+import { IconAlertTriangle, IconPlayerPause, IconPlayerPlay, IconRefresh, IconX } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import { EmbeddingSignature } from '../utils/embeddings';
+import {
+  cancelEmbeddingJob,
+  EmbeddingJobProgress,
+  getEmbeddingJobProgress,
+  pauseEmbeddingJob,
+  resumeEmbeddingJob,
+  startReembedJob,
+  subscribeToEmbeddingJob,
+} from '../utils/embeddingJob';
+import { getActiveEmbeddingSignature, getChunkIdsBySignature } from '../utils/rag';
+import { formatDuration } from './WorkflowRunModal';
+
+interface KnowledgeBaseEmbeddingsProps {
+  provider: string; // the initialized provider, the signature is checked again when it changes
+}
+
+const JOB_LABELS: Record<EmbeddingJobProgress['kind'], string> = {
+  reembed: 'Re-embedded',
+  copy: 'Copied',
+};
+
+const STATUS_COLORS: Record<EmbeddingJobProgress['status'], string> = {
+  running: 'blue',
+  paused: 'yellow',
+  completed: 'green',
+  failed: 'red',
+  cancelled: 'gray',
+};
+
+function getStatusText(progress: EmbeddingJobProgress) {
+  if (progress.status === 'running') {
+    const now = new Date();
+    return progress.etaMs !== undefined
+      ? `About ${formatDuration(now, new Date(now.getTime() + progress.etaMs))} left`
+      : 'Starting';
+  }
+  return progress.status.charAt(0).toUpperCase() + progress.status.slice(1);
+}
+
+// Which model the knowledge base is embedded with, and the re-embed and copy
+// jobs that bring it in line
+export function KnowledgeBaseEmbeddings({ provider }: KnowledgeBaseEmbeddingsProps) {
+  const [signature, setSignature] = useState<EmbeddingSignature>();
+  const [progress, setProgress] = useState(getEmbeddingJobProgress);
+  const [starting, setStarting] = useState(false);
+  const isActive = progress?.status === 'running' || progress?.status === 'paused';
+
+  useEffect(() => subscribeToEmbeddingJob(setProgress), []);
+
+  useEffect(() => {
+    getActiveEmbeddingSignature().then(setSignature);
+  }, [provider, progress?.status]);
+
+  const counts = useLiveQuery(async () => {
+    if (!signature) return undefined;
+    const { matching, other } = await getChunkIdsBySignature(signature);
+    return { total: matching.length + other.length, other: other.length };
+  }, [signature]);
+
+  const handleReembed = async () => {
+    try {
+      setStarting(true);
+      await startReembedJob();
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to start re-embedding',
+        color: 'red',
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <Card withBorder p="lg">
+      <Stack spacing="md">
+        <Group>
+          <IconRefresh size={20} />
+          <Title order={3}>Knowledge Base Embeddings</Title>
+        </Group>
+
+        {signature && (
+          <Text size="sm" color="dimmed">
+            Chunks are embedded with {signature.provider} ({signature.model}, {signature.dimensions} dimensions).
+            {signature.provider !== provider && ` ${provider} is failing, so the simple fallback is used.`}
+          </Text>
+        )}
+
+        {counts && counts.other > 0 && (
+          <Alert color="yellow" icon={<IconAlertTriangle size={16} />}>
+            {counts.other} of {counts.total} chunks were embedded with another model. Searches skip them until the
+            knowledge base is re-embedded.
+          </Alert>
+        )}
+
+        {progress && (
+          <div>
+            <Group position="apart" mb={4}>
+              <Text size="sm">
+                {JOB_LABELS[progress.kind]} {progress.done} of {progress.total} chunks
+                {progress.target ? ` to ${progress.target}` : ''}
+              </Text>
+              <Text size="xs" color="dimmed">
+                {getStatusText(progress)}
+              </Text>
+            </Group>
+            <Progress
+              value={progress.total ? (progress.done / progress.total) * 100 : 100}
+              color={STATUS_COLORS[progress.status]}
+              striped={progress.status === 'running'}
+              animate={progress.status === 'running'}
+            />
+            {progress.error && (
+              <Text size="xs" color="red" mt={4}>
+                {progress.error}
+              </Text>
+            )}
+          </div>
+        )}
+
+        <Group>
+          {isActive ? (
+            <>
+              {progress?.status === 'paused' ? (
+                <Button variant="light" leftIcon={<IconPlayerPlay size={16} />} onClick={resumeEmbeddingJob}>
+                  Resume
+                </Button>
+              ) : (
+                <Button variant="light" leftIcon={<IconPlayerPause size={16} />} onClick={pauseEmbeddingJob}>
+                  Pause
+                </Button>
+              )}
+              <Button variant="subtle" color="red" leftIcon={<IconX size={16} />} onClick={cancelEmbeddingJob}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handleReembed} loading={starting} disabled={!counts?.other}>
+              Re-embed Knowledge Base
+            </Button>
+          )}
+        </Group>
+      </Stack>
+    </Card>
+  );
+}
@@ -49,6 +49,8 @@ import { LearningAnalytics } from "./LearningAnalytics";
 import { Workflows } from "./Workflows";
 import { AdvancedAnalytics } from "./AdvancedAnalytics";
 import { config } from "../utils/config";
+import { loadSavedRagConfig } from "../utils/rag";
+import { WorkflowScheduler } from "../utils/workflowScheduler";
 
 declare global {
   interface Window {
@@ -79,6 +81,18 @@ export function Layout() {
     setOpened(false);
   }, [router.state.location]);
 
+  // Scheduled workflows run while the app is open
+  useEffect(() => {
+    const scheduler = new WorkflowScheduler();
+    scheduler.start();
+    return () => scheduler.stop();
+  }, []);
+
+  // Searches wait for the saved embeddings and vector store, so start early
+  useEffect(() => {
+    loadSavedRagConfig();
+  }, []);
+
   return (
     <AppShell
       className={`${colorScheme}-theme`}
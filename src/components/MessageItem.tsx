@@ -1,28 +1,70 @@
 import {
+  Accordion,
   ActionIcon,
+  Anchor,
+  Badge,
   Box,
+  Button,
   Card,
   Code,
   CopyButton,
   Flex,
+  Group,
   Table,
   Text,
+  Textarea,
   ThemeIcon,
   Tooltip,
 } from "@mantine/core";
 import { Prism } from "@mantine/prism";
-import { IconCopy, IconUser } from "@tabler/icons-react";
-import { useMemo } from "react";
+import {
+  IconChevronLeft,
+  IconChevronRight,
+  IconCopy,
+  IconPencil,
+  IconPlayerTrackNext,
+  IconRefresh,
+  IconTool,
+  IconUser,
+} from "@tabler/icons-react";
+import { useMemo, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { Message } from "../db";
+import { Message, MessageSource } from "../db";
 import "../styles/markdown.scss";
 import { CreatePromptModal } from "./CreatePromptModal";
+import { DocumentViewerModal } from "./DocumentViewerModal";
 import { LogoIcon } from "./Logo";
 import { ScrollIntoView } from "./ScrollIntoView";
 import "../utils/prisma-setup";
 
-export function MessageItem({ message }: { message: Message }) {
+export interface MessageBranch {
+  index: number;
+  count: number;
+  onPrevious: () => void;
+  onNext: () => void;
+}
+
+export function MessageItem({
+  message,
+  branch,
+  disabled,
+  onEdit,
+  onRegenerate,
+  onContinue,
+}: {
+  message: Message;
+  branch?: MessageBranch;
+  disabled?: boolean;
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
+  onContinue?: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [openSource, setOpenSource] = useState<MessageSource | null>(null);
+  const sources = message.sources ?? [];
+
   const wordCount = useMemo(() => {
     var matches = message.content.match(/[\w\d\’\'-\(\)]+/gi);
     return matches ? matches.length : 0;
@@ -39,30 +81,91 @@ export function MessageItem({ message }: { message: Message }) {
           )}
           {message.role === "assistant" && <LogoIcon style={{ height: 32 }} />}
           <Box sx={{ flex: 1, width: 0 }} className="markdown">
-            <ReactMarkdown
-              children={message.content}
-              remarkPlugins={[remarkGfm]}
-              components={{
-                table: ({ node, ...props }) => (
-                  <Table verticalSpacing="sm" highlightOnHover {...props} />
-                ),
-                code: ({ node, inline, className, lang, ...props }) => {
-                  const languageMatch = /language-(\w+)/.exec(className || "");
-                  const language = languageMatch ? languageMatch[1] : undefined;
+            {editing ? (
+              <>
+                <Textarea
+                  autosize
+                  autoFocus
+                  minRows={2}
+                  maxRows={10}
+                  value={draft}
+                  onChange={(event) => setDraft(event.currentTarget.value)}
+                />
+                <Group position="right" spacing="xs" mt="xs">
+                  <Button variant="subtle" onClick={() => setEditing(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    disabled={!draft.trim() || disabled}
+                    onClick={() => {
+                      setEditing(false);
+                      onEdit?.(draft);
+                    }}
+                  >
+                    Save & Submit
+                  </Button>
+                </Group>
+              </>
+            ) : (
+              <>
+                {message.toolCalls && message.toolCalls.length > 0 && (
+                  <ToolCalls toolCalls={message.toolCalls} />
+                )}
+                <ReactMarkdown
+                  children={message.content}
+                  remarkPlugins={[remarkGfm, remarkCitations(sources)]}
+                  components={{
+                    a: ({ node, href, ...props }) => {
+                      const source = getCitedSource(sources, href);
+                      return source ? (
+                        <Anchor
+                          component="button"
+                          type="button"
+                          title={formatSource(source)}
+                          onClick={() => setOpenSource(source)}
+                        >
+                          {props.children}
+                        </Anchor>
+                      ) : (
+                        <a href={href} {...props} />
+                      );
+                    },
+                    table: ({ node, ...props }) => (
+                      <Table verticalSpacing="sm" highlightOnHover {...props} />
+                    ),
+                    code: ({ node, inline, className, lang, ...props }) => {
+                      const languageMatch = /language-(\w+)/.exec(className || "");
+                      const language = languageMatch ? languageMatch[1] : undefined;
 
-                  return inline ? (
-                    <Code {...props} />
-                  ) : (
-                    <Box sx={{ position: "relative" }}>
-                      <Prism
-                        language={language as any}
-                        children={`${props.children as string}`}
-                      />
-                    </Box>
-                  );
-                },
-              }}
-            />
+                      return inline ? (
+                        <Code {...props} />
+                      ) : (
+                        <Box sx={{ position: "relative" }}>
+                          <Prism
+                            language={language as any}
+                            children={`${props.children as string}`}
+                          />
+                        </Box>
+                      );
+                    },
+                  }}
+                />
+              </>
+            )}
+            {sources.length > 0 && (
+              <Group spacing={4} mt="xs">
+                {sources.map((source) => (
+                  <Badge
+                    key={source.number}
+                    variant="outline"
+                    sx={{ cursor: "pointer", textTransform: "none" }}
+                    onClick={() => setOpenSource(source)}
+                  >
+                    [{source.number}] {formatSource(source)}
+                  </Badge>
+                ))}
+              </Group>
+            )}
             {message.role === "assistant" && (
               <Box>
                 <Text size="sm" color="dimmed">
@@ -70,6 +173,27 @@ export function MessageItem({ message }: { message: Message }) {
                 </Text>
               </Box>
             )}
+            {branch && (
+              <Group spacing={4} mt={4}>
+                <ActionIcon
+                  size="sm"
+                  disabled={disabled || branch.index === 0}
+                  onClick={branch.onPrevious}
+                >
+                  <IconChevronLeft size={16} />
+                </ActionIcon>
+                <Text size="sm" color="dimmed">
+                  {branch.index + 1}/{branch.count}
+                </Text>
+                <ActionIcon
+                  size="sm"
+                  disabled={disabled || branch.index === branch.count - 1}
+                  onClick={branch.onNext}
+                >
+                  <IconChevronRight size={16} />
+                </ActionIcon>
+              </Group>
+            )}
           </Box>
           <Box>
             <CreatePromptModal content={message.content} />
@@ -82,6 +206,33 @@ export function MessageItem({ message }: { message: Message }) {
                 </Tooltip>
               )}
             </CopyButton>
+            {onEdit && !editing && (
+              <Tooltip label="Edit" position="left">
+                <ActionIcon
+                  disabled={disabled}
+                  onClick={() => {
+                    setDraft(message.content);
+                    setEditing(true);
+                  }}
+                >
+                  <IconPencil opacity={0.5} size={20} />
+                </ActionIcon>
+              </Tooltip>
+            )}
+            {onRegenerate && (
+              <Tooltip label="Regenerate" position="left">
+                <ActionIcon onClick={onRegenerate}>
+                  <IconRefresh opacity={0.5} size={20} />
+                </ActionIcon>
+              </Tooltip>
+            )}
+            {onContinue && (
+              <Tooltip label="Continue" position="left">
+                <ActionIcon onClick={onContinue}>
+                  <IconPlayerTrackNext opacity={0.5} size={20} />
+                </ActionIcon>
+              </Tooltip>
+            )}
             {/* <Tooltip label={`${wordCount} words`} position="left">
               <ActionIcon>
                 <IconInfoCircle opacity={0.5} size={20} />
@@ -90,6 +241,128 @@ export function MessageItem({ message }: { message: Message }) {
           </Box>
         </Flex>
       </Card>
+      <DocumentViewerModal
+        documentId={openSource?.documentId}
+        chunkId={openSource?.chunkId}
+        opened={!!openSource}
+        onClose={() => setOpenSource(null)}
+      />
     </ScrollIntoView>
   );
 }
+
+function ToolCalls({
+  toolCalls,
+}: {
+  toolCalls: NonNullable<Message["toolCalls"]>;
+}) {
+  return (
+    <Accordion multiple variant="contained" mb="xs">
+      {toolCalls.map((call) => (
+        <Accordion.Item key={call.id} value={call.id}>
+          <Accordion.Control icon={<IconTool size={16} />}>
+            <Group spacing="xs">
+              <Text size="sm" weight={500}>
+                {call.name}
+              </Text>
+              {call.result === undefined && (
+                <Badge size="xs" variant="light">
+                  Running
+                </Badge>
+              )}
+            </Group>
+          </Accordion.Control>
+          <Accordion.Panel>
+            <Text size="xs" color="dimmed">
+              Arguments
+            </Text>
+            <Prism language="json" children={formatArguments(call.arguments)} />
+            {call.result !== undefined && (
+              <>
+                <Text size="xs" color="dimmed" mt="xs">
+                  Result
+                </Text>
+                <Code block>{call.result}</Code>
+              </>
+            )}
+          </Accordion.Panel>
+        </Accordion.Item>
+      ))}
+    </Accordion>
+  );
+}
+
+function formatArguments(args: string) {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2);
+  } catch (error) {
+    return args;
+  }
+}
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Turn [1] or [1, 2] in the answer text into links to the cited sources.
+// Only plain text nodes are rewritten, so code is left alone.
+function remarkCitations(sources: MessageSource[]) {
+  const numbers = sources.map((source) => source.number);
+
+  const rewrite = (node: any) => {
+    if (!node.children) return;
+    const children: any[] = [];
+    node.children.forEach((child: any) => {
+      if (child.type !== "text") {
+        if (child.type !== "link") rewrite(child);
+        children.push(child);
+        return;
+      }
+
+      const parts: any[] = [];
+      let last = 0;
+      child.value.replace(
+        CITATION_PATTERN,
+        (match: string, list: string, index: number) => {
+          const cited = list.split(",").map((n) => Number(n.trim()));
+          if (!cited.every((n) => numbers.includes(n))) return match;
+          parts.push({ type: "text", value: child.value.slice(last, index) });
+          cited.forEach((n) =>
+            parts.push({
+              type: "link",
+              url: `#source-${n}`,
+              children: [{ type: "text", value: `[${n}]` }],
+            })
+          );
+          last = index + match.length;
+          return match;
+        }
+      );
+      if (parts.length === 0) {
+        children.push(child);
+        return;
+      }
+      parts.push({ type: "text", value: child.value.slice(last) });
+      children.push(...parts);
+    });
+    node.children = children;
+  };
+
+  return () => (tree: any) => {
+    if (numbers.length > 0) rewrite(tree);
+  };
+}
+
+function getCitedSource(sources: MessageSource[], href?: string) {
+  const match = /^#source-(\d+)$/.exec(href ?? "");
+  return match
+    ? sources.find((source) => source.number === Number(match[1]))
+    : undefined;
+}
+
+function formatSource(source: MessageSource) {
+  return [
+    source.title,
+    source.page !== undefined ? `p. ${source.page}` : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
@@ -31,8 +31,9 @@ export function Prompts({
       }),
     [prompts, search]
   );
-  const apiKey = useLiveQuery(async () => {
-    return (await db.settings.where({ id: "general" }).first())?.openAiApiKey;
+  const hasProvider = useLiveQuery(async () => {
+    const settings = await db.settings.where({ id: "general" }).first();
+    return !!settings?.providerProfiles?.length;
   });
 
   return (
@@ -84,7 +85,7 @@ export function Prompts({
               <ActionIcon
                 size="lg"
                 onClick={async () => {
-                  if (!apiKey) return;
+                  if (!hasProvider) return;
                   const id = nanoid();
                   await db.chats.add({
                     id,
@@ -93,9 +94,11 @@ export function Prompts({
                     createdAt: new Date(),
                     pinned: false,
                   });
+                  const promptMessageId = nanoid();
                   await db.messages.add({
-                    id: nanoid(),
+                    id: promptMessageId,
                     chatId: id,
+                    parentId: null,
                     content: prompt.content,
                     role: "user",
                     createdAt: new Date(),
@@ -103,7 +106,7 @@ export function Prompts({
                   navigate({ to: `/chats/${id}` });
                   onPlay();
 
-                  const result = await createChatCompletion(apiKey, [
+                  const result = await createChatCompletion([
                     {
                       role: "system",
                       content:
@@ -112,22 +115,22 @@ export function Prompts({
                     { role: "user", content: prompt.content },
                   ]);
 
-                  const resultDescription =
-                    result.data.choices[0].message?.content;
+                  const resultDescription = result.content;
                   await db.messages.add({
                     id: nanoid(),
                     chatId: id,
+                    parentId: promptMessageId,
                     content: resultDescription ?? "unknown reponse",
                     role: "assistant",
                     createdAt: new Date(),
                   });
 
-                  if (result.data.usage) {
+                  if (result.usage) {
                     await db.chats.where({ id: id }).modify((chat) => {
                       if (chat.totalTokens) {
-                        chat.totalTokens += result.data.usage!.total_tokens;
+                        chat.totalTokens += result.usage!.totalTokens;
                       } else {
-                        chat.totalTokens = result.data.usage!.total_tokens;
+                        chat.totalTokens = result.usage!.totalTokens;
                       }
                     });
                   }
@@ -0,0 +1,322 @@
+import {
+  ActionIcon,
+  Anchor,
+  Badge,
+  Button,
+  Card,
+  Group,
+  List,
+  PasswordInput,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+  Tooltip,
+} from "@mantine/core";
+import { notifications } from "@mantine/notifications";
+import {
+  IconPencil,
+  IconPlugConnected,
+  IconPlus,
+  IconStar,
+  IconTrash,
+} from "@tabler/icons-react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { useState } from "react";
+import { db, ProviderProfile } from "../db";
+import { config } from "../utils/config";
+import { checkProvider } from "../utils/openai";
+import { PROVIDER_TYPES } from "../utils/providers";
+
+const BASE_URL_PLACEHOLDERS: Record<ProviderProfile["type"], string> = {
+  openai: "https://api.openai.com/v1",
+  azure: "https://<resource-name>.openai.azure.com",
+  anthropic: "https://api.anthropic.com",
+  ollama: "http://localhost:11434/v1",
+};
+
+const MODEL_PLACEHOLDERS: Record<ProviderProfile["type"], string> = {
+  openai: config.defaultModel,
+  azure: "gpt-4o",
+  anthropic: "claude-3-5-sonnet-latest",
+  ollama: "llama3.1",
+};
+
+export function ProviderSettings() {
+  const settings = useLiveQuery(() => db.settings.get("general"));
+  const profiles = settings?.providerProfiles ?? [];
+  const [editing, setEditing] = useState<ProviderProfile | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  const saveProfile = async (profile: ProviderProfile) => {
+    await db.settings.where({ id: "general" }).modify((row) => {
+      const existing = row.providerProfiles ?? [];
+      row.providerProfiles = existing.some((p) => p.id === profile.id)
+        ? existing.map((p) => (p.id === profile.id ? profile : p))
+        : [...existing, profile];
+      if (!row.defaultProviderId) {
+        row.defaultProviderId = profile.id;
+      }
+    });
+    setEditing(null);
+    notifications.show({
+      title: "Saved",
+      message: `${profile.name} has been saved.`,
+    });
+  };
+
+  const deleteProfile = async (profile: ProviderProfile) => {
+    await db.settings.where({ id: "general" }).modify((row) => {
+      row.providerProfiles = (row.providerProfiles ?? []).filter(
+        (p) => p.id !== profile.id
+      );
+      if (row.defaultProviderId === profile.id) {
+        row.defaultProviderId = row.providerProfiles[0]?.id;
+      }
+    });
+  };
+
+  const testProfile = async (profile: ProviderProfile) => {
+    try {
+      setTesting(profile.id);
+      await checkProvider(profile);
+      notifications.show({
+        title: "Connected",
+        message: `${profile.name} answered successfully.`,
+      });
+    } catch (error: any) {
+      notifications.show({
+        title: "Error",
+        color: "red",
+        message: error.message ?? "Could not reach the provider.",
+      });
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  return (
+    <Stack spacing="xs">
+      <Text size="sm" weight={500}>
+        Model Providers
+      </Text>
+      {profiles.map((profile) => (
+        <Card key={profile.id} withBorder p="xs">
+          <Group position="apart">
+            <Group spacing="xs">
+              <Text size="sm" weight={500}>
+                {profile.name}
+              </Text>
+              <Badge size="sm" variant="light">
+                {PROVIDER_TYPES.find((t) => t.value === profile.type)?.label}
+              </Badge>
+              {settings?.defaultProviderId === profile.id && (
+                <Badge size="sm" color="teal">
+                  Default
+                </Badge>
+              )}
+            </Group>
+            <Group spacing={4}>
+              <Tooltip label="Make default">
+                <ActionIcon
+                  onClick={() =>
+                    db.settings.update("general", {
+                      defaultProviderId: profile.id,
+                    })
+                  }
+                >
+                  <IconStar size={18} />
+                </ActionIcon>
+              </Tooltip>
+              <Tooltip label="Test connection">
+                <ActionIcon
+                  loading={testing === profile.id}
+                  onClick={() => testProfile(profile)}
+                >
+                  <IconPlugConnected size={18} />
+                </ActionIcon>
+              </Tooltip>
+              <Tooltip label="Edit">
+                <ActionIcon onClick={() => setEditing(profile)}>
+                  <IconPencil size={18} />
+                </ActionIcon>
+              </Tooltip>
+              <Tooltip label="Delete">
+                <ActionIcon color="red" onClick={() => deleteProfile(profile)}>
+                  <IconTrash size={18} />
+                </ActionIcon>
+              </Tooltip>
+            </Group>
+          </Group>
+          <Text size="xs" color="dimmed">
+            {profile.type === "azure" ? profile.deployment : profile.model}
+          </Text>
+        </Card>
+      ))}
+
+      {editing ? (
+        <ProviderForm
+          profile={editing}
+          onSave={saveProfile}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <Button
+          variant="light"
+          leftIcon={<IconPlus size={16} />}
+          onClick={() =>
+            setEditing({
+              id: crypto.randomUUID(),
+              name: "",
+              type: "openai",
+            })
+          }
+        >
+          Add Provider
+        </Button>
+      )}
+
+      <List withPadding>
+        <List.Item>
+          <Text size="sm">
+            <Anchor
+              href="https://platform.openai.com/account/api-keys"
+              target="_blank"
+            >
+              Get your OpenAI API key
+            </Anchor>
+          </Text>
+        </List.Item>
+        <List.Item>
+          <Text size="sm" color="dimmed">
+            API keys are stored locally on your browser and only sent to the
+            provider they belong to.
+          </Text>
+        </List.Item>
+      </List>
+    </Stack>
+  );
+}
+
+function ProviderForm({
+  profile,
+  onSave,
+  onCancel,
+}: {
+  profile: ProviderProfile;
+  onSave: (profile: ProviderProfile) => void;
+  onCancel: () => void;
+}) {
+  const [value, setValue] = useState(profile);
+  const set = (changes: Partial<ProviderProfile>) =>
+    setValue((prev) => ({ ...prev, ...changes }));
+
+  return (
+    <Card withBorder>
+      <Stack spacing="xs">
+        <TextInput
+          label="Name"
+          placeholder="e.g. Work Azure"
+          value={value.name}
+          onChange={(event) => set({ name: event.currentTarget.value })}
+          required
+        />
+        <Select
+          label="Type"
+          value={value.type}
+          onChange={(type) =>
+            set({ type: (type ?? "openai") as ProviderProfile["type"] })
+          }
+          data={PROVIDER_TYPES}
+          withinPortal
+        />
+        <PasswordInput
+          label={value.type === "ollama" ? "API Key (Optional)" : "API Key"}
+          value={value.apiKey ?? ""}
+          onChange={(event) => set({ apiKey: event.currentTarget.value })}
+        />
+        <TextInput
+          label={value.type === "azure" ? "Endpoint" : "Base URL (Optional)"}
+          placeholder={BASE_URL_PLACEHOLDERS[value.type]}
+          value={value.baseUrl ?? ""}
+          onChange={(event) =>
+            set({ baseUrl: event.currentTarget.value || undefined })
+          }
+        />
+        {value.type === "openai" && value.baseUrl && (
+          <Select
+            label="Authentication"
+            value={value.authHeader ?? "bearer"}
+            onChange={(authHeader) =>
+              set({
+                authHeader:
+                  authHeader === "api-key" ? "api-key" : undefined,
+              })
+            }
+            data={[
+              { value: "bearer", label: "Bearer token" },
+              { value: "api-key", label: "api-key header" },
+            ]}
+            withinPortal
+          />
+        )}
+        {value.type === "azure" && (
+          <TextInput
+            label="Deployment Name"
+            value={value.deployment ?? ""}
+            onChange={(event) => set({ deployment: event.currentTarget.value })}
+            required
+          />
+        )}
+        {(value.type === "azure" || value.type === "anthropic") && (
+          <TextInput
+            label="API Version (Optional)"
+            placeholder={value.type === "azure" ? "2024-02-01" : "2023-06-01"}
+            value={value.apiVersion ?? ""}
+            onChange={(event) =>
+              set({ apiVersion: event.currentTarget.value || undefined })
+            }
+          />
+        )}
+        {value.type === "openai" ? (
+          <Select
+            label="Model"
+            value={value.model ?? config.defaultModel}
+            onChange={(model) => set({ model: model ?? undefined })}
+            data={config.availableModels}
+            searchable
+            withinPortal
+          />
+        ) : (
+          <TextInput
+            label="Model"
+            description={
+              value.type === "azure"
+                ? "The model behind the deployment, used to size its context window"
+                : undefined
+            }
+            placeholder={MODEL_PLACEHOLDERS[value.type]}
+            value={value.model ?? ""}
+            onChange={(event) =>
+              set({ model: event.currentTarget.value || undefined })
+            }
+          />
+        )}
+        <Group position="right" spacing="xs">
+          <Button variant="subtle" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            disabled={
+              !value.name ||
+              (value.type === "azure" && (!value.baseUrl || !value.deployment))
+            }
+            onClick={() => onSave(value)}
+          >
+            Save
+          </Button>
+        </Group>
+      </Stack>
+    </Card>
+  );
+}
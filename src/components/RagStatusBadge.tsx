@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Badge, Tooltip } from '@mantine/core';
+import { db } from '../db';
+import { getChunkIdsBySignature, getRagStatus, RagStatus, subscribeToRagConfig } from '../utils/rag';
+
+// The embeddings and vector store RAG actually uses. Yellow when the chosen
+// embeddings provider fails and the simple fallback is used instead, or when
+// searches skip chunks embedded with another model.
+export function RagStatusBadge() {
+  const [status, setStatus] = useState<RagStatus>();
+  const [changes, setChanges] = useState(0);
+  const configuredProvider = useLiveQuery(async () => (await db.settings.get('general'))?.embeddingsConfig?.provider);
+
+  useEffect(() => subscribeToRagConfig(() => setChanges(count => count + 1)), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    getRagStatus()
+      .then(result => {
+        if (!cancelled) setStatus(result);
+      })
+      .catch(error => console.error('Failed to check the RAG status:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [changes, configuredProvider]);
+
+  const skippedChunks = useLiveQuery(
+    async () => (status ? (await getChunkIdsBySignature(status.signature)).other.length : 0),
+    [status]
+  );
+
+  if (!status) return null;
+
+  const { signature, vectorStore } = status;
+  const isFallback = signature.provider !== status.configuredProvider;
+  const label = [
+    isFallback
+      ? `${status.configuredProvider} embeddings are failing, using the simple fallback`
+      : `Embeddings: ${signature.provider} (${signature.model}, ${signature.dimensions} dimensions)`,
+    `Vector store: ${vectorStore}`,
+    ...(skippedChunks
+      ? [`${skippedChunks} chunks embedded with another model are skipped, re-embed them in Advanced Settings`]
+      : []),
+  ].join(' · ');
+
+  return (
+    <Tooltip label={label} multiline width={300} withinPortal>
+      <Badge
+        size="xs"
+        variant="light"
+        color={isFallback || skippedChunks ? 'yellow' : 'gray'}
+        sx={{ flexShrink: 0 }}
+      >
+        {signature.provider} · {vectorStore}
+      </Badge>
+    </Tooltip>
+  );
+}
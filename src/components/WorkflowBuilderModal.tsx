@@ -0,0 +1,453 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import {
+  Alert,
+  Box,
+  Button,
+  Divider,
+  FileButton,
+  Group,
+  Menu,
+  Modal,
+  ScrollArea,
+  Select,
+  Stack,
+  Text,
+  Textarea,
+  TextInput,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconDeviceFloppy, IconDownload, IconFile, IconPlus, IconTrash, IconUpload } from '@tabler/icons-react';
+import download from 'downloadjs';
+import { db } from '../db';
+import {
+  getStepDependencies,
+  getStepTexts,
+  getTemplateSteps,
+  getTemplateVariableDefinitions,
+  getTemplateVariables,
+  getWorkflowTemplates,
+  usesAgent,
+  validateTemplate,
+  WORKFLOW_TEMPLATES,
+  WorkflowBuilder,
+  WorkflowManager,
+  WorkflowTemplate,
+  WorkflowTemplateStep,
+  WorkflowValidationError,
+  WorkflowVariable,
+} from '../utils/agentWorkflow';
+import { getRequestSettings } from '../utils/workflowRequest';
+import { getTemplateFileName, parseTemplate, serializeTemplate, TemplateFileFormat } from '../utils/workflowTemplateFile';
+import { CanvasStep, NODE_HEIGHT, NODE_WIDTH, WorkflowCanvas } from './WorkflowCanvas';
+import { WorkflowStepForm } from './WorkflowStepForm';
+import { WorkflowVariablesForm } from './WorkflowVariablesForm';
+
+const GAP_X = 80;
+const GAP_Y = 40;
+
+const STEP_DESCRIPTIONS: Record<NonNullable<WorkflowTemplateStep['type']>, string> = {
+  agent: 'New step',
+  condition: 'Condition',
+  approval: 'Review',
+  retrieval: 'Search documents',
+  document: 'Save document',
+  http: 'Call a web service',
+};
+
+interface WorkflowBuilderModalProps {
+  opened: boolean;
+  onClose: () => void;
+}
+
+// Give every step an ID and lay out the ones without a position in columns,
+// each step right of the steps it depends on
+function toCanvasSteps(template: WorkflowTemplate): CanvasStep[] {
+  const withIds = template.steps.map((step, index) => ({ ...step, id: step.id ?? `step${index + 1}` }));
+  const graph = getTemplateSteps({ ...template, steps: withIds });
+  const columns: Record<string, number> = {};
+  const rows: number[] = [];
+
+  return withIds.map((step, index) => {
+    const column = getStepDependencies(graph[index], graph).reduce(
+      (max, id) => Math.max(max, (columns[id] ?? 0) + 1),
+      0
+    );
+    columns[step.id] = column;
+    const row = rows[column] ?? 0;
+    rows[column] = row + 1;
+    return {
+      ...step,
+      position: step.position ?? { x: GAP_Y + column * (NODE_WIDTH + GAP_X), y: GAP_Y + row * (NODE_HEIGHT + GAP_Y) },
+    };
+  });
+}
+
+// Change every text of a step that may contain placeholders
+function mapStepTexts(step: CanvasStep, change: (text: string) => string): CanvasStep {
+  const headers = step.http?.headers;
+  return {
+    ...step,
+    inputTemplate: change(step.inputTemplate),
+    document: step.document && { ...step.document, title: change(step.document.title) },
+    http: step.http && {
+      ...step.http,
+      url: change(step.http.url),
+      headers:
+        headers &&
+        Object.keys(headers).reduce<Record<string, string>>((all, name) => ({ ...all, [name]: change(headers[name]) }), {}),
+    },
+  };
+}
+
+// Remove every way `step` uses the output of the step `sourceId`
+function disconnectStep(step: CanvasStep, sourceId: string, previousId?: string): CanvasStep {
+  const disconnected = mapStepTexts(step, text => {
+    let result = text.split(`{steps.${sourceId}.output}`).join('');
+    if (previousId === sourceId) {
+      result = result.split('{previous_output}').join('');
+    }
+    return result === text ? result : result.replace(/\n{3,}/g, '\n\n').trim();
+  });
+  return {
+    ...disconnected,
+    dependsOn: step.dependsOn?.filter(id => id !== sourceId),
+    when: step.when?.stepId === sourceId ? undefined : step.when,
+  };
+}
+
+// Leave out the options that were cleared, so they are not exported as empty keys
+function withoutEmpty<T extends object>(value: T): T {
+  const result = { ...value };
+  (Object.keys(result) as (keyof T)[]).forEach(key => {
+    const option = result[key];
+    if (option === undefined || (Array.isArray(option) && option.length === 0)) {
+      delete result[key];
+    }
+  });
+  return result;
+}
+
+// Full-screen editor for workflow templates: steps on a canvas, the selected
+// step or the template's name and variables on the side
+export function WorkflowBuilderModal({ opened, onClose }: WorkflowBuilderModalProps) {
+  const agents = useLiveQuery(() => db.agents.toArray()) ?? [];
+  const collections = useLiveQuery(() => db.collections.toArray()) ?? [];
+  const requestSettings = useLiveQuery(getRequestSettings);
+  const templates = useLiveQuery(getWorkflowTemplates);
+  const [workflowManager] = useState(() => new WorkflowManager());
+  const [templateId, setTemplateId] = useState<string>(); // set once saved, saving again replaces it
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [variables, setVariables] = useState<WorkflowVariable[]>([]);
+  const [steps, setSteps] = useState<CanvasStep[]>([]);
+  const [selectedStepId, setSelectedStepId] = useState<string>();
+
+  const buildTemplate = (): WorkflowTemplate => {
+    const builder = new WorkflowBuilder();
+    variables.forEach(variable => builder.addVariable(withoutEmpty(variable)));
+    steps.forEach(({ agentId, inputTemplate, description, ...options }) =>
+      builder.addStep(agentId, inputTemplate, description, withoutEmpty(options))
+    );
+    return builder.build(name, description, templateId);
+  };
+
+  const template = buildTemplate();
+  const issues = [
+    ...validateTemplate(template),
+    ...steps
+      .filter(step => usesAgent(step) && step.agentId && !agents.some(agent => agent.slug === step.agentId))
+      .map(step => `${step.description || step.id} uses the agent "${step.agentId}", which does not exist.`),
+  ];
+  const declared = variables.map(variable => variable.name);
+  const texts = steps.reduce<string[]>((all, step) => all.concat(getStepTexts(step.inputTemplate, step)), []);
+  const undeclared = getTemplateVariables(texts).filter(
+    variable => declared.indexOf(variable) === -1
+  );
+  const selectedStep = steps.find(step => step.id === selectedStepId);
+  const isSaved = !!templateId && templates?.some(t => t.id === templateId);
+
+  const load = (source?: WorkflowTemplate) => {
+    const isBuiltIn = WORKFLOW_TEMPLATES.some(t => t.id === source?.id);
+    // Built-in templates cannot be changed, they are edited as a copy
+    setTemplateId(source && !isBuiltIn ? source.id : undefined);
+    setName(source ? (isBuiltIn ? `${source.name} (copy)` : source.name) : '');
+    setDescription(source?.description ?? '');
+    setVariables(source?.variables ?? []);
+    setSteps(source ? toCanvasSteps(source) : []);
+    setSelectedStepId(undefined);
+  };
+
+  const updateStep = (stepId: string, changes: Partial<WorkflowTemplateStep>) => {
+    setSteps(current => current.map(step => (step.id === stepId ? { ...step, ...changes } : step)));
+  };
+
+  const addStep = (type: WorkflowTemplateStep['type']) => {
+    let number = steps.length + 1;
+    while (steps.some(step => step.id === `step${number}`)) number++;
+    const id = `step${number}`;
+    // A new step follows the selected one and starts out with its output
+    const position = selectedStep
+      ? { x: selectedStep.position.x + NODE_WIDTH + GAP_X, y: selectedStep.position.y }
+      : { x: GAP_Y, y: GAP_Y + steps.reduce((max, step) => Math.max(max, step.position.y + NODE_HEIGHT), 0) };
+    const step: CanvasStep = {
+      id,
+      type,
+      agentId: usesAgent({ type }) ? agents[0]?.slug ?? '' : '',
+      inputTemplate: selectedStep ? `{steps.${selectedStep.id}.output}` : '',
+      description: type ? STEP_DESCRIPTIONS[type] : 'New step',
+      condition: type === 'condition' ? { type: 'llm' } : undefined,
+      retrieval: type === 'retrieval' ? {} : undefined,
+      document: type === 'document' ? { title: '' } : undefined,
+      http: type === 'http' ? { method: 'GET', url: '' } : undefined,
+      position,
+    };
+    setSteps([...steps, step]);
+    setSelectedStepId(id);
+  };
+
+  const handleConnect = (sourceId: string, targetId: string) => {
+    const target = steps.find(step => step.id === targetId)!;
+    const reference = `{steps.${sourceId}.output}`;
+    if (!target.inputTemplate.includes(reference)) {
+      updateStep(targetId, {
+        inputTemplate: target.inputTemplate.trim() ? `${target.inputTemplate.trim()}\n\n${reference}` : reference,
+      });
+    }
+    setSelectedStepId(targetId);
+  };
+
+  const handleDisconnect = (sourceId: string, targetId: string) => {
+    setSteps(current =>
+      current.map((step, index) =>
+        step.id === targetId ? disconnectStep(step, sourceId, current[index - 1]?.id) : step
+      )
+    );
+  };
+
+  const handleRename = (oldId: string, newId: string) => {
+    setSteps(current =>
+      current.map(step => ({
+        ...mapStepTexts(step, text => text.split(`{steps.${oldId}.output}`).join(`{steps.${newId}.output}`)),
+        id: step.id === oldId ? newId : step.id,
+        dependsOn: step.dependsOn?.map(id => (id === oldId ? newId : id)),
+        when: step.when?.stepId === oldId ? { ...step.when, stepId: newId } : step.when,
+      }))
+    );
+    setSelectedStepId(newId);
+  };
+
+  const handleDeleteStep = (stepId: string) => {
+    setSteps(current =>
+      current
+        .map((step, index) => disconnectStep(step, stepId, current[index - 1]?.id))
+        .filter(step => step.id !== stepId)
+    );
+    setSelectedStepId(undefined);
+  };
+
+  const handleSave = async () => {
+    try {
+      const saved = await workflowManager.saveTemplate(template);
+      setTemplateId(saved.id);
+      notifications.show({
+        title: 'Success',
+        message: `${saved.name} saved as a template`,
+        color: 'green',
+      });
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: error instanceof WorkflowValidationError ? error.issues.join(' ') : 'Failed to save template',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!templateId) return;
+    await workflowManager.deleteTemplate(templateId);
+    load(undefined);
+    notifications.show({
+      title: 'Success',
+      message: 'Template deleted successfully',
+      color: 'green',
+    });
+  };
+
+  const handleExport = (format: TemplateFileFormat) => {
+    download(
+      serializeTemplate(template, format),
+      getTemplateFileName(template, format),
+      format === 'json' ? 'application/json' : 'application/yaml'
+    );
+  };
+
+  const handleImport = async (file: File | null) => {
+    if (!file) return;
+    try {
+      load(parseTemplate(await file.text()));
+      notifications.show({
+        title: 'Success',
+        message: `Imported ${file.name}, save it to use it as a template`,
+        color: 'green',
+      });
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message:
+          error instanceof WorkflowValidationError
+            ? error.issues.join(' ')
+            : error instanceof Error
+            ? error.message
+            : 'The file you selected is invalid',
+        color: 'red',
+      });
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Workflow Builder" fullScreen>
+      <Stack spacing="sm" sx={{ height: 'calc(100vh - 90px)' }}>
+        <Group position="apart">
+          <Group spacing="xs">
+            <Button size="xs" leftIcon={<IconPlus size={14} />} onClick={() => addStep(undefined)}>
+              Agent Step
+            </Button>
+            <Button size="xs" variant="light" leftIcon={<IconPlus size={14} />} onClick={() => addStep('condition')}>
+              Condition
+            </Button>
+            <Button size="xs" variant="light" leftIcon={<IconPlus size={14} />} onClick={() => addStep('approval')}>
+              Approval
+            </Button>
+            <Button size="xs" variant="light" leftIcon={<IconPlus size={14} />} onClick={() => addStep('retrieval')}>
+              Retrieval
+            </Button>
+            <Button size="xs" variant="light" leftIcon={<IconPlus size={14} />} onClick={() => addStep('document')}>
+              Save Document
+            </Button>
+            <Button size="xs" variant="light" leftIcon={<IconPlus size={14} />} onClick={() => addStep('http')}>
+              HTTP Request
+            </Button>
+          </Group>
+          <Group spacing="xs">
+            <Select
+              size="xs"
+              placeholder="Open a template"
+              data={(templates ?? []).map(t => ({ value: t.id, label: t.name }))}
+              value={null}
+              onChange={id => load(templates?.find(t => t.id === id))}
+              withinPortal
+            />
+            <Button size="xs" variant="default" leftIcon={<IconFile size={14} />} onClick={() => load(undefined)}>
+              New
+            </Button>
+            <FileButton onChange={handleImport} accept=".json,.yaml,.yml,application/json">
+              {props => (
+                <Button {...props} size="xs" variant="default" leftIcon={<IconUpload size={14} />}>
+                  Import
+                </Button>
+              )}
+            </FileButton>
+            <Menu withinPortal>
+              <Menu.Target>
+                <Button size="xs" variant="default" leftIcon={<IconDownload size={14} />} disabled={steps.length === 0}>
+                  Export
+                </Button>
+              </Menu.Target>
+              <Menu.Dropdown>
+                <Menu.Item onClick={() => handleExport('json')}>JSON</Menu.Item>
+                <Menu.Item onClick={() => handleExport('yaml')}>YAML</Menu.Item>
+              </Menu.Dropdown>
+            </Menu>
+            {isSaved && (
+              <Button
+                size="xs"
+                color="red"
+                variant="subtle"
+                leftIcon={<IconTrash size={14} />}
+                onClick={handleDeleteTemplate}
+              >
+                Delete
+              </Button>
+            )}
+            <Button
+              size="xs"
+              leftIcon={<IconDeviceFloppy size={14} />}
+              onClick={handleSave}
+              disabled={issues.length > 0}
+            >
+              Save Template
+            </Button>
+          </Group>
+        </Group>
+
+        <Box sx={{ display: 'flex', flex: 1, minHeight: 0, gap: 16 }}>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <WorkflowCanvas
+              steps={steps}
+              agents={agents}
+              selectedStepId={selectedStepId}
+              onSelect={setSelectedStepId}
+              onMove={(stepId, position) => updateStep(stepId, { position })}
+              onConnect={handleConnect}
+              onDisconnect={handleDisconnect}
+            />
+          </Box>
+
+          <ScrollArea sx={{ width: 360 }}>
+            <Stack spacing="sm" pr="sm">
+              {issues.length > 0 && (
+                <Alert color="yellow" title="Not ready to save">
+                  <Stack spacing={2}>
+                    {issues.map(issue => (
+                      <Text key={issue} size="xs">
+                        {issue}
+                      </Text>
+                    ))}
+                  </Stack>
+                </Alert>
+              )}
+
+              {selectedStep ? (
+                <WorkflowStepForm
+                  step={selectedStep}
+                  steps={steps}
+                  agents={agents}
+                  collections={collections}
+                  secrets={Object.keys(requestSettings?.secrets ?? {})}
+                  variables={getTemplateVariableDefinitions(template).map(variable => variable.name)}
+                  onChange={changes => updateStep(selectedStep.id, changes)}
+                  onRename={id => handleRename(selectedStep.id, id)}
+                  onDelete={() => handleDeleteStep(selectedStep.id)}
+                />
+              ) : (
+                <>
+                  <TextInput
+                    label="Template Name"
+                    value={name}
+                    onChange={event => setName(event.currentTarget.value)}
+                    required
+                  />
+                  <Textarea
+                    label="Description"
+                    value={description}
+                    onChange={event => setDescription(event.currentTarget.value)}
+                    autosize
+                    minRows={2}
+                  />
+                  <Divider label="Variables" labelPosition="center" />
+                  <WorkflowVariablesForm variables={variables} undeclared={undeclared} onChange={setVariables} />
+                  <Text size="xs" color="dimmed">
+                    Select a step to edit it. Drag from the dot on the right of a step onto another step to use
+                    its output there, click a connection to remove it.
+                  </Text>
+                </>
+              )}
+            </Stack>
+          </ScrollArea>
+        </Box>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,278 @@
+import React, { useRef, useState } from 'react';
+import { Badge, Box, Group, Text, useMantineTheme } from '@mantine/core';
+import { Agent } from '../db';
+import { getStepDependencies, getTemplateSteps, usesAgent, WorkflowTemplateStep } from '../utils/agentWorkflow';
+
+// Steps in the builder always have an ID and a place on the canvas
+export type CanvasStep = WorkflowTemplateStep & { id: string; position: { x: number; y: number } };
+
+export const NODE_WIDTH = 220;
+export const NODE_HEIGHT = 88;
+const HANDLE_SIZE = 14;
+
+const TYPE_COLORS: Record<NonNullable<WorkflowTemplateStep['type']>, string> = {
+  agent: 'blue',
+  condition: 'grape',
+  approval: 'orange',
+  retrieval: 'teal',
+  document: 'cyan',
+  http: 'indigo',
+};
+
+// What steps without an agent do, in place of the agent's name
+const TYPE_SUMMARIES: Partial<Record<NonNullable<WorkflowTemplateStep['type']>, string>> = {
+  approval: 'Waits for your approval',
+  retrieval: 'Searches your documents',
+  document: 'Saves a document',
+  http: 'Calls a web service',
+};
+
+interface WorkflowCanvasProps {
+  steps: CanvasStep[];
+  agents: Agent[];
+  selectedStepId?: string;
+  onSelect: (stepId?: string) => void;
+  onMove: (stepId: string, position: { x: number; y: number }) => void;
+  onConnect: (sourceId: string, targetId: string) => void;
+  onDisconnect: (sourceId: string, targetId: string) => void;
+}
+
+type Drag =
+  | { type: 'move'; stepId: string; offsetX: number; offsetY: number }
+  | { type: 'connect'; stepId: string; x: number; y: number };
+
+const edgePath = (x1: number, y1: number, x2: number, y2: number) => {
+  const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+  return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+};
+
+// Steps drawn as cards that can be dragged around. Dragging from a step's
+// output handle onto another step feeds its output into that step; clicking
+// a connection removes it.
+export function WorkflowCanvas({
+  steps,
+  agents,
+  selectedStepId,
+  onSelect,
+  onMove,
+  onConnect,
+  onDisconnect,
+}: WorkflowCanvasProps) {
+  const theme = useMantineTheme();
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  const dark = theme.colorScheme === 'dark';
+  const width = Math.max(0, ...steps.map(step => step.position.x)) + NODE_WIDTH + 200;
+  const height = Math.max(0, ...steps.map(step => step.position.y)) + NODE_HEIGHT + 200;
+
+  const graph = getTemplateSteps({ id: '', name: '', description: '', steps });
+  const edges = graph.reduce<{ source: CanvasStep; target: CanvasStep; label?: string }[]>((all, step, index) => {
+    getStepDependencies(step, graph).forEach(id => {
+      const source = steps.find(s => s.id === id);
+      if (source) {
+        all.push({ source, target: steps[index], label: step.when?.stepId === id ? `= ${step.when.equals}` : undefined });
+      }
+    });
+    return all;
+  }, []);
+
+  const getPoint = (event: React.PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: event.clientX - rect.left + canvas.scrollLeft,
+      y: event.clientY - rect.top + canvas.scrollTop,
+    };
+  };
+
+  const startDrag = (event: React.PointerEvent, next: Drag) => {
+    event.stopPropagation();
+    canvasRef.current?.setPointerCapture(event.pointerId);
+    setDrag(next);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+    const point = getPoint(event);
+    if (drag.type === 'move') {
+      onMove(drag.stepId, {
+        x: Math.max(0, Math.round(point.x - drag.offsetX)),
+        y: Math.max(0, Math.round(point.y - drag.offsetY)),
+      });
+    } else {
+      setDrag({ ...drag, ...point });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (drag?.type === 'connect') {
+      const { x, y } = getPoint(event);
+      const target = steps.find(
+        step =>
+          x >= step.position.x &&
+          x <= step.position.x + NODE_WIDTH &&
+          y >= step.position.y &&
+          y <= step.position.y + NODE_HEIGHT
+      );
+      if (target && target.id !== drag.stepId) {
+        onConnect(drag.stepId, target.id);
+      }
+    }
+    setDrag(null);
+  };
+
+  const dragSource = drag?.type === 'connect' ? steps.find(step => step.id === drag.stepId) : undefined;
+
+  return (
+    <Box
+      ref={canvasRef}
+      onPointerDown={() => onSelect(undefined)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      sx={{
+        position: 'relative',
+        overflow: 'auto',
+        height: '100%',
+        touchAction: 'none',
+        userSelect: 'none',
+        backgroundColor: dark ? theme.colors.dark[8] : theme.colors.gray[0],
+        backgroundImage: `radial-gradient(${dark ? theme.colors.dark[4] : theme.colors.gray[4]} 1px, transparent 1px)`,
+        backgroundSize: '20px 20px',
+      }}
+    >
+      <svg width={width} height={height} style={{ position: 'absolute', top: 0, left: 0 }}>
+        {edges.map(({ source, target, label }) => {
+          const x1 = source.position.x + NODE_WIDTH;
+          const y1 = source.position.y + NODE_HEIGHT / 2;
+          const x2 = target.position.x;
+          const y2 = target.position.y + NODE_HEIGHT / 2;
+          return (
+            <g
+              key={`${source.id}-${target.id}`}
+              style={{ cursor: 'pointer' }}
+              onPointerDown={event => event.stopPropagation()}
+              onClick={() => onDisconnect(source.id, target.id)}
+            >
+              <title>Click to disconnect</title>
+              <path d={edgePath(x1, y1, x2, y2)} stroke="transparent" strokeWidth={12} fill="none" />
+              <path
+                d={edgePath(x1, y1, x2, y2)}
+                stroke={theme.colors[label ? 'orange' : 'blue'][5]}
+                strokeDasharray={label ? '6 4' : undefined}
+                strokeWidth={2}
+                fill="none"
+              />
+              {label && (
+                <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 6} textAnchor="middle" fontSize={11} fill={theme.colors.orange[7]}>
+                  {label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        {dragSource && drag?.type === 'connect' && (
+          <path
+            d={edgePath(dragSource.position.x + NODE_WIDTH, dragSource.position.y + NODE_HEIGHT / 2, drag.x, drag.y)}
+            stroke={theme.colors.blue[3]}
+            strokeDasharray="4 4"
+            strokeWidth={2}
+            fill="none"
+          />
+        )}
+      </svg>
+
+      {steps.map((step, index) => {
+        const agent = agents.find(a => a.slug === step.agentId);
+        const selected = step.id === selectedStepId;
+        return (
+          <Box
+            key={step.id}
+            onPointerDown={event => {
+              const point = getPoint(event);
+              onSelect(step.id);
+              startDrag(event, {
+                type: 'move',
+                stepId: step.id,
+                offsetX: point.x - step.position.x,
+                offsetY: point.y - step.position.y,
+              });
+            }}
+            sx={{
+              position: 'absolute',
+              left: step.position.x,
+              top: step.position.y,
+              width: NODE_WIDTH,
+              height: NODE_HEIGHT,
+              padding: theme.spacing.xs,
+              cursor: drag?.type === 'move' && drag.stepId === step.id ? 'grabbing' : 'grab',
+              borderRadius: theme.radius.md,
+              border: `2px solid ${selected ? theme.colors.blue[5] : dark ? theme.colors.dark[4] : theme.colors.gray[3]}`,
+              backgroundColor: dark ? theme.colors.dark[6] : theme.white,
+              boxShadow: theme.shadows.sm,
+            }}
+          >
+            <Group position="apart" noWrap spacing="xs" mb={4}>
+              <Text size="sm" weight={500} truncate>
+                {step.description || `Step ${index + 1}`}
+              </Text>
+              {step.type && step.type !== 'agent' && (
+                <Badge size="xs" color={TYPE_COLORS[step.type]}>
+                  {step.type}
+                </Badge>
+              )}
+            </Group>
+            <Text size="xs" color={agent || !usesAgent(step) ? 'dimmed' : 'red'} truncate>
+              {usesAgent(step)
+                ? agent?.name ?? (step.agentId || 'No agent')
+                : step.http?.url
+                ? `${step.http.method} ${step.http.url}`
+                : TYPE_SUMMARIES[step.type!]}
+            </Text>
+            <Text size="xs" color="dimmed" truncate>
+              {step.id}
+              {step.loop && ' · loops'}
+            </Text>
+
+            {/* Input on the left, output on the right */}
+            <Box
+              sx={{
+                position: 'absolute',
+                left: -HANDLE_SIZE / 2 - 1,
+                top: NODE_HEIGHT / 2 - HANDLE_SIZE / 2 - 2,
+                width: HANDLE_SIZE,
+                height: HANDLE_SIZE,
+                borderRadius: HANDLE_SIZE,
+                border: `2px solid ${theme.colors.blue[5]}`,
+                backgroundColor: dark ? theme.colors.dark[6] : theme.white,
+              }}
+            />
+            <Box
+              title="Drag onto another step to use this step's output there"
+              onPointerDown={event => {
+                const point = getPoint(event);
+                startDrag(event, { type: 'connect', stepId: step.id, ...point });
+              }}
+              sx={{
+                position: 'absolute',
+                right: -HANDLE_SIZE / 2 - 1,
+                top: NODE_HEIGHT / 2 - HANDLE_SIZE / 2 - 2,
+                width: HANDLE_SIZE,
+                height: HANDLE_SIZE,
+                borderRadius: HANDLE_SIZE,
+                cursor: 'crosshair',
+                backgroundColor: theme.colors.blue[5],
+              }}
+            />
+          </Box>
+        );
+      })}
+
+      {steps.length === 0 && (
+        <Text color="dimmed" align="center" pt="xl">
+          Add a step to get started.
+        </Text>
+      )}
+    </Box>
+  );
+}
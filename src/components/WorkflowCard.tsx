@@ -1,13 +1,17 @@
 import React from 'react';
-import { Card, Text, Badge, Group, ActionIcon, Progress, Stack, Collapse } from '@mantine/core';
-import { IconPlay, IconPause, IconTrash, IconChevronDown, IconChevronUp } from '@tabler/icons-react';
-import { AgentWorkflow, WorkflowStep } from '../utils/agentWorkflow';
+import { Card, Text, Badge, Group, ActionIcon, Progress, Stack, Collapse, Textarea, TextInput, Button } from '@mantine/core';
+import { IconPlay, IconPause, IconTrash, IconChevronDown, IconChevronUp, IconCheck, IconX, IconPlayerStop } from '@tabler/icons-react';
+import { AgentWorkflow, subscribeToStepEvents, WorkflowStep } from '../utils/agentWorkflow';
+import { formatDuration } from './WorkflowRunModal';
 
 interface WorkflowCardProps {
   workflow: AgentWorkflow;
   onExecute: (workflowId: string) => void;
   onDelete: (workflowId: string) => void;
   onPause: (workflowId: string) => void;
+  onCancel: (workflowId: string) => void;
+  onApprove: (workflowId: string, stepId: string, output: string) => void;
+  onReject: (workflowId: string, stepId: string, note: string) => void;
 }
 
 const getStatusColor = (status: string) => {
@@ -25,12 +29,18 @@ const getStatusColor = (status: string) => {
   }
 };
 
+// Rough token count of text still streaming in; the real usage replaces it
+// once the step completes
+const CHARS_PER_TOKEN = 4;
+
 const getStepStatusColor = (status: string) => {
   switch (status) {
     case 'completed':
       return 'green';
     case 'running':
       return 'blue';
+    case 'awaiting_approval':
+      return 'orange';
     case 'failed':
       return 'red';
     case 'pending':
@@ -40,15 +50,101 @@ const getStepStatusColor = (status: string) => {
   }
 };
 
-export function WorkflowCard({ workflow, onExecute, onDelete, onPause }: WorkflowCardProps) {
+// Lets a reviewer approve, edit or reject the text an approval step is holding
+function ApprovalPanel({
+  step,
+  onApprove,
+  onReject,
+}: {
+  step: WorkflowStep;
+  onApprove: (output: string) => void;
+  onReject: (note: string) => void;
+}) {
+  const [output, setOutput] = React.useState(step.output ?? '');
+  const [note, setNote] = React.useState('');
+
+  return (
+    <Card withBorder p="xs" mb="md">
+      <Text size="sm" weight={500} mb="xs">
+        Review: {step.metadata?.description || 'Approval'}
+      </Text>
+      <Textarea
+        value={output}
+        onChange={(event) => setOutput(event.currentTarget.value)}
+        autosize
+        minRows={3}
+        maxRows={10}
+        mb="xs"
+      />
+      <TextInput
+        placeholder="Reason for rejecting, sent back to the previous step"
+        value={note}
+        onChange={(event) => setNote(event.currentTarget.value)}
+        mb="xs"
+      />
+      <Group position="right" spacing="xs">
+        <Button
+          size="xs"
+          variant="default"
+          color="red"
+          leftIcon={<IconX size={14} />}
+          onClick={() => onReject(note)}
+          disabled={!note.trim()}
+        >
+          Reject
+        </Button>
+        <Button size="xs" color="green" leftIcon={<IconCheck size={14} />} onClick={() => onApprove(output)}>
+          {output === step.output ? 'Approve' : 'Approve edited'}
+        </Button>
+      </Group>
+    </Card>
+  );
+}
+
+export function WorkflowCard({ workflow, onExecute, onDelete, onPause, onCancel, onApprove, onReject }: WorkflowCardProps) {
   const [expanded, setExpanded] = React.useState(false);
+  // Output of the running steps as it streams in
+  const [streamed, setStreamed] = React.useState<Record<string, string>>({});
+  const [now, setNow] = React.useState(Date.now());
+  const isActive = workflow.status === 'active';
+
+  React.useEffect(
+    () =>
+      subscribeToStepEvents(workflow.id, (event) => {
+        if (event.type === 'started' || event.type === 'delta') {
+          const content = event.type === 'delta' ? event.content : '';
+          setStreamed(current => ({ ...current, [event.stepId]: content }));
+        }
+      }),
+    [workflow.id]
+  );
+
+  // Show the steps while the workflow runs, and keep their timers ticking
+  React.useEffect(() => {
+    if (!isActive) return;
+    setExpanded(true);
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isActive]);
 
-  const completedSteps = workflow.steps.filter(step => step.status === 'completed').length;
+  // Steps on a branch that was not taken count as done
+  const completedSteps = workflow.steps.filter(step => step.status === 'completed' || step.status === 'skipped').length;
   const totalSteps = workflow.steps.length;
-  const progress = totalSteps > 0 ? (completedSteps / totalSteps) * 100 : 0;
+  const totalTokens = workflow.steps.reduce((total, step) => total + (step.usage?.totalTokens ?? 0), 0);
+  const progressSections = (['completed', 'skipped', 'running', 'awaiting_approval', 'failed'] as WorkflowStep['status'][])
+    .map(status => ({
+      value: totalSteps > 0 ? (workflow.steps.filter(step => step.status === status).length / totalSteps) * 100 : 0,
+      color: status === 'skipped' ? 'teal' : getStepStatusColor(status),
+    }))
+    .filter(section => section.value > 0);
 
-  const isExecutable = workflow.status === 'active' || workflow.status === 'draft';
+  // A finished or paused workflow can be run again
+  const isExecutable = workflow.status !== 'active';
   const isPausable = workflow.status === 'active';
+  // Approvals are handled once the steps running beside them have finished
+  const awaitingSteps = workflow.status === 'active'
+    ? []
+    : workflow.steps.filter(step => step.status === 'awaiting_approval');
 
   return (
     <Card shadow="sm" padding="lg" radius="md" withBorder>
@@ -82,6 +178,16 @@ export function WorkflowCard({ workflow, onExecute, onDelete, onPause }: Workflo
               <IconPause size={16} />
             </ActionIcon>
           )}
+          {isPausable && (
+            <ActionIcon
+              variant="subtle"
+              color="red"
+              onClick={() => onCancel(workflow.id)}
+              size="sm"
+            >
+              <IconPlayerStop size={16} />
+            </ActionIcon>
+          )}
           <ActionIcon
             variant="subtle"
             color="red"
@@ -107,36 +213,72 @@ export function WorkflowCard({ workflow, onExecute, onDelete, onPause }: Workflo
       <Group mb="md">
         <Text size="sm" fw={500}>
           Progress: {completedSteps}/{totalSteps} steps
+          {totalTokens > 0 && ` · ${totalTokens} tokens`}
         </Text>
-        <Progress value={progress} size="sm" style={{ flex: 1 }} />
+        <Progress sections={progressSections} size="sm" style={{ flex: 1 }} striped={isActive} animate={isActive} />
       </Group>
 
+      {awaitingSteps.map(step => (
+        <ApprovalPanel
+          key={`${step.id}-${step.reviews?.length ?? 0}`}
+          step={step}
+          onApprove={(output) => onApprove(workflow.id, step.id, output)}
+          onReject={(note) => onReject(workflow.id, step.id, note)}
+        />
+      ))}
+
       <Collapse in={expanded}>
         <Stack gap="sm" mt="md">
-          {workflow.steps.map((step, index) => (
-            <Card key={step.id} withBorder p="xs">
-              <Group justify="space-between" mb="xs">
-                <Text size="sm" fw={500}>
-                  Step {index + 1}: {step.metadata?.description || 'Unknown'}
-                </Text>
-                <Badge color={getStepStatusColor(step.status)} size="xs">
-                  {step.status.toUpperCase()}
-                </Badge>
-              </Group>
-              
-              {step.output && (
-                <Text size="xs" c="dimmed" lineClamp={3}>
-                  Output: {step.output}
-                </Text>
-              )}
-              
-              {step.error && (
-                <Text size="xs" c="red">
-                  Error: {step.error}
-                </Text>
-              )}
-            </Card>
-          ))}
+          {workflow.steps.map((step, index) => {
+            const isRunning = step.status === 'running';
+            const streamedOutput = isRunning ? streamed[step.id] : undefined;
+            const elapsed = formatDuration(step.startedAt, isRunning ? new Date(now) : step.completedAt);
+            const tokens = streamedOutput
+              ? `~${(step.usage?.totalTokens ?? 0) + Math.round(streamedOutput.length / CHARS_PER_TOKEN)}`
+              : step.usage?.totalTokens;
+            return (
+              <Card key={step.id} withBorder p="xs">
+                <Group justify="space-between" mb="xs">
+                  <Text size="sm" fw={500}>
+                    Step {index + 1}: {step.metadata?.description || 'Unknown'}
+                  </Text>
+                  <Badge color={getStepStatusColor(step.status)} size="xs">
+                    {step.status.replace('_', ' ').toUpperCase()}
+                  </Badge>
+                </Group>
+
+                {(elapsed || tokens || (step.attempts ?? 0) > 1) && (
+                  <Text size="xs" c="dimmed">
+                    {[
+                      elapsed,
+                      tokens && `${tokens} tokens`,
+                      (step.attempts ?? 0) > 1 && `Attempt ${step.attempts}`,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </Text>
+                )}
+
+                {streamedOutput ? (
+                  <Text size="xs" sx={{ whiteSpace: 'pre-wrap', maxHeight: 160, overflowY: 'auto' }}>
+                    {streamedOutput}
+                  </Text>
+                ) : (
+                  step.output && !isRunning && (
+                    <Text size="xs" c="dimmed" lineClamp={3}>
+                      Output: {step.output}
+                    </Text>
+                  )
+                )}
+
+                {step.error && (
+                  <Text size="xs" c="red">
+                    Error: {step.error}
+                  </Text>
+                )}
+              </Card>
+            );
+          })}
         </Stack>
       </Collapse>
 
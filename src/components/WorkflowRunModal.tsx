@@ -0,0 +1,136 @@
+import React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Badge, Button, Card, Group, Modal, Spoiler, Stack, Text } from '@mantine/core';
+import { IconRefresh } from '@tabler/icons-react';
+import { db } from '../db';
+import { usesAgent, WorkflowRun, WorkflowStep } from '../utils/agentWorkflow';
+
+interface WorkflowRunModalProps {
+  runId?: string;
+  opened: boolean;
+  onClose: () => void;
+  onRerun: (run: WorkflowRun) => void;
+  rerunDisabled?: boolean;
+}
+
+export const getRunStatusColor = (status: WorkflowRun['status'] | WorkflowStep['status']) => {
+  switch (status) {
+    case 'completed':
+      return 'green';
+    case 'running':
+      return 'blue';
+    case 'paused':
+    case 'cancelled':
+      return 'yellow';
+    case 'awaiting_approval':
+      return 'orange';
+    case 'failed':
+      return 'red';
+    default:
+      return 'gray';
+  }
+};
+
+export const formatDuration = (start?: Date, end?: Date) => {
+  if (!start || !end) return undefined;
+  const seconds = (new Date(end).getTime() - new Date(start).getTime()) / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+function StepText({ label, text, color }: { label: string; text: string; color?: string }) {
+  return (
+    <Spoiler maxHeight={96} showLabel="Show more" hideLabel="Show less">
+      <Text size="xs" color={color} sx={{ whiteSpace: 'pre-wrap' }}>
+        <Text span weight={500}>
+          {label}:
+        </Text>{' '}
+        {text}
+      </Text>
+    </Spoiler>
+  );
+}
+
+// Reopen a past workflow run: its variables and each step's input, output, timing and tokens
+export function WorkflowRunModal({ runId, opened, onClose, onRerun, rerunDisabled }: WorkflowRunModalProps) {
+  const run = useLiveQuery(async () => (runId ? db.workflowRuns.get(runId) : undefined), [runId]);
+  const agents = useLiveQuery(() => db.agents.toArray());
+
+  const variables = run ? Object.keys(run.variables) : [];
+  const duration = formatDuration(run?.startedAt, run?.completedAt);
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={run?.workflowName ?? 'Workflow Run'} size="lg">
+      {run && (
+        <Stack spacing="sm">
+          <Group spacing="xs">
+            <Badge color={getRunStatusColor(run.status)}>{run.status.replace('_', ' ').toUpperCase()}</Badge>
+            <Text size="sm" color="dimmed">
+              {new Date(run.startedAt).toLocaleString()}
+              {duration && ` · ${duration}`}
+              {run.totalTokens > 0 && ` · ${run.totalTokens} tokens`}
+            </Text>
+          </Group>
+
+          {variables.length > 0 && (
+            <Card withBorder p="xs">
+              {variables.map(variable => (
+                <StepText key={variable} label={variable} text={run.variables[variable]} />
+              ))}
+            </Card>
+          )}
+
+          {run.steps.map((step, index) => {
+            const stepDuration = formatDuration(step.startedAt, step.completedAt);
+            return (
+              <Card key={step.id} withBorder p="xs">
+                <Group position="apart" mb="xs" noWrap>
+                  <Text size="sm" weight={500}>
+                    Step {index + 1}: {step.metadata?.description || 'Unknown'}
+                  </Text>
+                  <Badge color={getRunStatusColor(step.status)} size="xs">
+                    {step.status.replace('_', ' ').toUpperCase()}
+                  </Badge>
+                </Group>
+                <Text size="xs" color="dimmed" mb="xs">
+                  {usesAgent(step) ? agents?.find(agent => agent.slug === step.agentId)?.name ?? step.agentId : step.type}
+                  {stepDuration && ` · ${stepDuration}`}
+                  {step.iterations && ` · ${step.iterations} iterations`}
+                  {(step.attempts ?? 0) > 1 && ` · ${step.attempts} attempts`}
+                  {step.usage && ` · ${step.usage.promptTokens} in / ${step.usage.completionTokens} out tokens`}
+                </Text>
+                <Stack spacing={4}>
+                  <StepText label="Input" text={step.resolvedInput ?? step.input} color="dimmed" />
+                  {step.output && <StepText label="Output" text={step.output} />}
+                  {step.error && <StepText label="Error" text={step.error} color="red" />}
+                  {step.documentId && (
+                    <Text size="xs" color="teal">
+                      Saved to your documents
+                    </Text>
+                  )}
+                  {step.reviews?.map((review, reviewIndex) => (
+                    <Text key={reviewIndex} size="xs" color={review.decision === 'approve' ? 'green' : 'red'}>
+                      {review.decision === 'approve' ? (review.edited ? 'Approved with edits' : 'Approved') : 'Rejected'}
+                      {' · '}
+                      {new Date(review.reviewedAt).toLocaleString()}
+                      {review.note && ` · ${review.note}`}
+                    </Text>
+                  ))}
+                </Stack>
+              </Card>
+            );
+          })}
+
+          <Group position="right">
+            <Button
+              leftIcon={<IconRefresh size={16} />}
+              onClick={() => onRerun(run)}
+              disabled={rerunDisabled || run.status === 'running'}
+            >
+              Re-run with these variables
+            </Button>
+          </Group>
+        </Stack>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Button, Card, Group, Modal, SegmentedControl, Select, Stack, Text, TextInput } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { db } from '../db';
+import {
+  getDefaultVariables,
+  getTemplateVariableDefinitions,
+  getWorkflowTemplates,
+  WorkflowValidationError,
+} from '../utils/agentWorkflow';
+import { getNextRun } from '../utils/cron';
+import { WorkflowSchedule, WorkflowScheduleInput, WorkflowScheduler } from '../utils/workflowScheduler';
+import { VariableInput } from './WorkflowVariablesForm';
+
+interface WorkflowScheduleModalProps {
+  opened: boolean;
+  onClose: () => void;
+  schedule?: WorkflowSchedule; // edited, a new schedule otherwise
+}
+
+const CRON_PRESETS = [
+  { label: 'Hourly', value: '0 * * * *' },
+  { label: 'Daily at 9:00', value: '0 9 * * *' },
+  { label: 'Weekdays at 9:00', value: '0 9 * * 1-5' },
+  { label: 'Mondays at 9:00', value: '0 9 * * 1' },
+  { label: 'Monthly on the 1st', value: '0 9 1 * *' },
+];
+
+const emptyForm = (): WorkflowScheduleInput => ({
+  name: '',
+  templateId: '',
+  variables: {},
+  cron: '0 9 * * 1',
+  catchUp: 'once',
+  saveAs: 'chat',
+});
+
+// Create or edit a schedule that runs a template with fixed variables
+export function WorkflowScheduleModal({ opened, onClose, schedule }: WorkflowScheduleModalProps) {
+  const templates = useLiveQuery(getWorkflowTemplates);
+  const collections = useLiveQuery(() => db.collections.orderBy('name').toArray());
+  const [scheduler] = useState(() => new WorkflowScheduler());
+  const [form, setForm] = useState<WorkflowScheduleInput>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!opened) return;
+    setForm(
+      schedule
+        ? {
+            name: schedule.name,
+            templateId: schedule.templateId,
+            variables: schedule.variables,
+            cron: schedule.cron,
+            catchUp: schedule.catchUp,
+            saveAs: schedule.saveAs,
+            collectionId: schedule.collectionId,
+          }
+        : emptyForm()
+    );
+  }, [opened, schedule]);
+
+  const template = templates?.find(t => t.id === form.templateId);
+  const variables = template ? getTemplateVariableDefinitions(template) : [];
+
+  let nextRun: Date | undefined;
+  let cronError: string | undefined;
+  try {
+    nextRun = getNextRun(form.cron, new Date());
+  } catch (error) {
+    cronError = error instanceof Error ? error.message : String(error);
+  }
+
+  const handleTemplateChange = (templateId: string) => {
+    const selected = templates?.find(t => t.id === templateId);
+    setForm(prev => ({
+      ...prev,
+      templateId,
+      name: prev.name || selected?.name || '',
+      variables: selected ? getDefaultVariables(getTemplateVariableDefinitions(selected)) : {},
+    }));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await scheduler.saveSchedule(
+        { ...form, collectionId: form.saveAs === 'document' ? form.collectionId : undefined },
+        schedule?.id
+      );
+      notifications.show({
+        title: 'Success',
+        message: `${form.name} is scheduled`,
+        color: 'green',
+      });
+      onClose();
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message:
+          error instanceof WorkflowValidationError
+            ? error.issues.join(' ')
+            : error instanceof Error
+            ? error.message
+            : 'Failed to save schedule',
+        color: 'red',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={schedule ? 'Edit Schedule' : 'Schedule Workflow'} size="lg">
+      <Stack spacing="md">
+        <Select
+          label="Workflow Template"
+          placeholder="Select a template"
+          data={(templates ?? []).map(t => ({ value: t.id, label: t.name }))}
+          value={form.templateId || null}
+          onChange={value => handleTemplateChange(value || '')}
+          required
+          withinPortal
+        />
+
+        <TextInput
+          label="Name"
+          placeholder="Weekly report"
+          value={form.name}
+          onChange={event => setForm({ ...form, name: event.currentTarget.value })}
+          required
+        />
+
+        {variables.length > 0 && (
+          <Card withBorder p="xs">
+            <Text size="sm" weight={500} mb="xs">
+              Variables
+            </Text>
+            <Stack spacing="xs">
+              {variables.map(variable => (
+                <VariableInput
+                  key={variable.name}
+                  variable={variable}
+                  label={variable.name}
+                  value={form.variables[variable.name] || ''}
+                  onChange={value => setForm({ ...form, variables: { ...form.variables, [variable.name]: value } })}
+                />
+              ))}
+            </Stack>
+          </Card>
+        )}
+
+        <div>
+          <TextInput
+            label="Schedule"
+            description="minute hour day month weekday, e.g. 0 9 * * 1 for Mondays at 9:00"
+            value={form.cron}
+            onChange={event => setForm({ ...form, cron: event.currentTarget.value })}
+            error={cronError}
+            required
+          />
+          <Group spacing={6} mt={6}>
+            {CRON_PRESETS.map(preset => (
+              <Button
+                key={preset.value}
+                size="xs"
+                compact
+                variant={form.cron === preset.value ? 'light' : 'default'}
+                onClick={() => setForm({ ...form, cron: preset.value })}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </Group>
+          {nextRun && (
+            <Text size="xs" color="dimmed" mt={6}>
+              Next run: {nextRun.toLocaleString()}
+            </Text>
+          )}
+        </div>
+
+        <div>
+          <Text size="sm" weight={500}>
+            Missed runs
+          </Text>
+          <Text size="xs" color="dimmed" mb={4}>
+            Schedules only run while the app is open. Runs missed in the meantime are caught up on at startup.
+          </Text>
+          <SegmentedControl
+            size="xs"
+            data={[
+              { value: 'once', label: 'Run once' },
+              { value: 'skip', label: 'Skip' },
+            ]}
+            value={form.catchUp}
+            onChange={value => setForm({ ...form, catchUp: value as WorkflowScheduleInput['catchUp'] })}
+          />
+        </div>
+
+        <Group grow align="flex-start">
+          <Select
+            label="Save output as"
+            data={[
+              { value: 'none', label: 'Run history only' },
+              { value: 'chat', label: 'New chat' },
+              { value: 'document', label: 'New document' },
+            ]}
+            value={form.saveAs}
+            onChange={value => setForm({ ...form, saveAs: (value ?? 'none') as WorkflowScheduleInput['saveAs'] })}
+            withinPortal
+          />
+          {form.saveAs === 'document' && (
+            <Select
+              label="Collection"
+              placeholder="No collection"
+              data={(collections ?? []).map(collection => ({ value: collection.id, label: collection.name }))}
+              value={form.collectionId ?? null}
+              onChange={value => setForm({ ...form, collectionId: value ?? undefined })}
+              clearable
+              withinPortal
+            />
+          )}
+        </Group>
+
+        <Group position="right" mt="md">
+          <Button variant="subtle" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!form.templateId || !form.name || !!cronError} loading={saving}>
+            Save Schedule
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ActionIcon, Badge, Card, Group, Stack, Switch, Text, Title, Tooltip } from '@mantine/core';
+import { IconEdit, IconPlayerPlay, IconTrash } from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import { db } from '../db';
+import { WorkflowSchedule, WorkflowScheduler } from '../utils/workflowScheduler';
+import { WorkflowScheduleModal } from './WorkflowScheduleModal';
+import { getRunStatusColor } from './WorkflowRunModal';
+
+interface WorkflowSchedulesProps {
+  onOpenRun: (runId: string) => void;
+}
+
+const SAVE_AS_LABELS: Record<WorkflowSchedule['saveAs'], string> = {
+  none: 'Run history only',
+  chat: 'Saved as a chat',
+  document: 'Saved as a document',
+};
+
+// The saved schedules with their next and last runs
+export function WorkflowSchedules({ onOpenRun }: WorkflowSchedulesProps) {
+  const schedules = useLiveQuery(() => db.workflowSchedules.orderBy('nextRunAt').toArray());
+  const lastRuns = useLiveQuery(async () => {
+    const runIds = (schedules ?? []).map(s => s.lastRunId).filter((id): id is string => !!id);
+    return db.workflowRuns.bulkGet(runIds);
+  }, [schedules]);
+  const [scheduler] = useState(() => new WorkflowScheduler());
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<WorkflowSchedule | undefined>();
+
+  if (!schedules || schedules.length === 0) return null;
+
+  const handleRunNow = async (schedule: WorkflowSchedule) => {
+    setRunningId(schedule.id);
+    const run = await scheduler.runNow(schedule.id);
+    setRunningId(null);
+    notifications.show(
+      run?.status === 'completed'
+        ? { title: 'Success', message: `${schedule.name} completed`, color: 'green' }
+        : { title: 'Error', message: `${schedule.name} did not complete`, color: 'red' }
+    );
+  };
+
+  const handleDelete = async (schedule: WorkflowSchedule) => {
+    await scheduler.deleteSchedule(schedule.id);
+    notifications.show({
+      title: 'Success',
+      message: 'Schedule deleted successfully',
+      color: 'green',
+    });
+  };
+
+  return (
+    <Stack spacing="xs">
+      <Title order={4}>Schedules</Title>
+      {schedules.map(schedule => {
+        const lastRun = lastRuns?.find(run => run?.id === schedule.lastRunId);
+        return (
+          <Card key={schedule.id} withBorder p="xs">
+            <Group position="apart" noWrap>
+              <Group spacing="xs" noWrap sx={{ minWidth: 0 }}>
+                <Switch
+                  size="xs"
+                  checked={schedule.enabled}
+                  onChange={event => scheduler.setEnabled(schedule.id, event.currentTarget.checked)}
+                />
+                <Text size="sm" weight={500} truncate>
+                  {schedule.name}
+                </Text>
+                <Badge size="xs" variant="outline" sx={{ textTransform: 'none' }}>
+                  {schedule.cron}
+                </Badge>
+              </Group>
+              <Group spacing={4} noWrap>
+                <Tooltip label="Run now" withinPortal>
+                  <ActionIcon
+                    size="sm"
+                    loading={runningId === schedule.id}
+                    onClick={() => handleRunNow(schedule)}
+                  >
+                    <IconPlayerPlay size={14} />
+                  </ActionIcon>
+                </Tooltip>
+                <Tooltip label="Edit" withinPortal>
+                  <ActionIcon size="sm" onClick={() => setEditing(schedule)}>
+                    <IconEdit size={14} />
+                  </ActionIcon>
+                </Tooltip>
+                <Tooltip label="Delete" withinPortal>
+                  <ActionIcon size="sm" color="red" onClick={() => handleDelete(schedule)}>
+                    <IconTrash size={14} />
+                  </ActionIcon>
+                </Tooltip>
+              </Group>
+            </Group>
+            <Group spacing="xs" mt={4}>
+              <Text size="xs" color="dimmed">
+                {schedule.enabled ? `Next run ${new Date(schedule.nextRunAt).toLocaleString()}` : 'Disabled'}
+                {' · '}
+                {SAVE_AS_LABELS[schedule.saveAs]}
+              </Text>
+              {lastRun && (
+                <Badge
+                  size="xs"
+                  color={getRunStatusColor(lastRun.status)}
+                  sx={{ cursor: 'pointer' }}
+                  onClick={() => onOpenRun(lastRun.id)}
+                >
+                  Last run {lastRun.status}
+                </Badge>
+              )}
+            </Group>
+            {schedule.lastError && (
+              <Text size="xs" color="red" mt={4}>
+                {schedule.lastError}
+              </Text>
+            )}
+          </Card>
+        );
+      })}
+
+      <WorkflowScheduleModal opened={!!editing} onClose={() => setEditing(undefined)} schedule={editing} />
+    </Stack>
+  );
+}
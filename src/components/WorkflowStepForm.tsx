@@ -0,0 +1,500 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Card,
+  Group,
+  MultiSelect,
+  NumberInput,
+  SegmentedControl,
+  Select,
+  Stack,
+  Switch,
+  Text,
+  Textarea,
+  TextInput,
+} from '@mantine/core';
+import { IconPlus, IconTrash, IconX } from '@tabler/icons-react';
+import { Agent, Collection } from '../db';
+import { usesAgent, WorkflowCondition, WorkflowHttpRequest, WorkflowTemplateStep } from '../utils/agentWorkflow';
+import { REQUEST_METHODS } from '../utils/workflowRequest';
+import { CanvasStep } from './WorkflowCanvas';
+
+interface WorkflowStepFormProps {
+  step: CanvasStep;
+  steps: CanvasStep[];
+  agents: Agent[];
+  collections: Collection[];
+  secrets: string[]; // names of the secrets http steps can use
+  variables: string[];
+  onChange: (changes: Partial<WorkflowTemplateStep>) => void;
+  onRename: (id: string) => void;
+  onDelete: () => void;
+}
+
+function ConditionFields({
+  condition,
+  onChange,
+}: {
+  condition: WorkflowCondition;
+  onChange: (condition: WorkflowCondition) => void;
+}) {
+  return (
+    <Stack spacing={6}>
+      <SegmentedControl
+        size="xs"
+        data={[
+          { value: 'regex', label: 'Pattern' },
+          { value: 'llm', label: 'Ask the model' },
+        ]}
+        value={condition.type}
+        onChange={type => onChange({ ...condition, type: type as WorkflowCondition['type'] })}
+      />
+      {condition.type === 'regex' ? (
+        <Group spacing="xs" noWrap>
+          <TextInput
+            size="xs"
+            placeholder="Regular expression"
+            value={condition.pattern ?? ''}
+            onChange={event => onChange({ ...condition, pattern: event.currentTarget.value })}
+            sx={{ flex: 1 }}
+          />
+          <TextInput
+            size="xs"
+            placeholder="Flags"
+            value={condition.flags ?? ''}
+            onChange={event => onChange({ ...condition, flags: event.currentTarget.value || undefined })}
+            sx={{ width: 60 }}
+          />
+        </Group>
+      ) : (
+        <>
+          <Textarea
+            size="xs"
+            placeholder="What the model should decide"
+            value={condition.instructions ?? ''}
+            onChange={event => onChange({ ...condition, instructions: event.currentTarget.value || undefined })}
+            autosize
+            minRows={2}
+          />
+          <TextInput
+            size="xs"
+            placeholder="Labels, separated by commas (yes, no by default)"
+            value={(condition.labels ?? []).join(', ')}
+            onChange={event => {
+              const labels = event.currentTarget.value
+                .split(',')
+                .map(label => label.trim())
+                .filter(Boolean);
+              onChange({ ...condition, labels: labels.length > 0 ? labels : undefined });
+            }}
+          />
+        </>
+      )}
+    </Stack>
+  );
+}
+
+const INPUT_LABELS: Record<NonNullable<WorkflowTemplateStep['type']>, string> = {
+  agent: 'Input',
+  condition: 'Text to test',
+  approval: 'Text to review',
+  retrieval: 'Query',
+  document: 'Content',
+  http: 'Body',
+};
+
+// Edit the selected step of the builder
+export function WorkflowStepForm({
+  step,
+  steps,
+  agents,
+  collections,
+  secrets,
+  variables,
+  onChange,
+  onRename,
+  onDelete,
+}: WorkflowStepFormProps) {
+  const [id, setId] = useState(step.id);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const others = steps.filter(s => s.id !== step.id);
+  const index = steps.indexOf(step);
+
+  useEffect(() => {
+    setId(step.id);
+  }, [step.id]);
+
+  // Other steps refer to this one by ID, so renaming waits until the field is left
+  const rename = () => {
+    const trimmed = id.trim();
+    if (trimmed && trimmed !== step.id && !others.some(s => s.id === trimmed)) {
+      onRename(trimmed);
+    } else {
+      setId(step.id);
+    }
+  };
+
+  // Insert a placeholder where the cursor is in the input
+  const insertPlaceholder = (placeholder: string) => {
+    const textarea = inputRef.current;
+    const start = textarea?.selectionStart ?? step.inputTemplate.length;
+    const end = textarea?.selectionEnd ?? step.inputTemplate.length;
+    onChange({ inputTemplate: step.inputTemplate.slice(0, start) + placeholder + step.inputTemplate.slice(end) });
+  };
+
+  const placeholders = [
+    ...variables.map(variable => `{${variable}}`),
+    ...(index > 0 ? ['{previous_output}'] : []),
+    ...others.map(s => `{steps.${s.id}.output}`),
+    ...(step.loop ? ['{iteration}', '{last_output}'] : []),
+    ...(step.type === 'http' ? secrets.map(name => `{secrets.${name}}`) : []),
+  ];
+  const type = step.type ?? 'agent';
+  const collectionOptions = collections.map(collection => ({ value: collection.id, label: collection.name }));
+  const headers = step.http?.headers ?? {};
+  const headerNames = Object.keys(headers);
+
+  const changeHttp = (changes: Partial<WorkflowHttpRequest>) => onChange({ http: { ...step.http!, ...changes } });
+  // Rebuilt in order, so renaming a header keeps its place
+  const changeHeader = (index: number, name: string, value: string) =>
+    changeHttp({
+      headers: headerNames.reduce<Record<string, string>>(
+        (all, current, i) => (i === index ? { ...all, [name]: value } : { ...all, [current]: headers[current] }),
+        {}
+      ),
+    });
+  const removeHeader = (name: string) =>
+    changeHttp({
+      headers: headerNames
+        .filter(current => current !== name)
+        .reduce<Record<string, string>>((all, current) => ({ ...all, [current]: headers[current] }), {}),
+    });
+
+  return (
+    <Stack spacing="sm">
+      <Group position="apart">
+        <Text weight={500}>Step {index + 1}</Text>
+        <Button size="xs" color="red" variant="subtle" leftIcon={<IconTrash size={14} />} onClick={onDelete}>
+          Delete
+        </Button>
+      </Group>
+
+      <Select
+        label="Type"
+        size="xs"
+        data={[
+          { value: 'agent', label: 'Agent' },
+          { value: 'condition', label: 'Condition' },
+          { value: 'approval', label: 'Approval' },
+          { value: 'retrieval', label: 'Retrieval from your documents' },
+          { value: 'document', label: 'Save as a document' },
+          { value: 'http', label: 'HTTP request' },
+        ]}
+        value={type}
+        onChange={value =>
+          onChange({
+            type: !value || value === 'agent' ? undefined : (value as WorkflowTemplateStep['type']),
+            condition: value === 'condition' ? step.condition ?? { type: 'llm' } : undefined,
+            retrieval: value === 'retrieval' ? step.retrieval ?? {} : undefined,
+            document: value === 'document' ? step.document ?? { title: '' } : undefined,
+            http: value === 'http' ? step.http ?? { method: 'GET', url: '' } : undefined,
+            loop: value === 'agent' ? step.loop : undefined,
+          })
+        }
+        withinPortal
+      />
+
+      <TextInput
+        label="ID"
+        description="Used in {steps.<id>.output}"
+        size="xs"
+        value={id}
+        onChange={event => setId(event.currentTarget.value.replace(/[\s{}]/g, ''))}
+        onBlur={rename}
+      />
+      <TextInput
+        label="Description"
+        size="xs"
+        value={step.description}
+        onChange={event => onChange({ description: event.currentTarget.value })}
+      />
+
+      {usesAgent(step) && (
+        <Select
+          label="Agent"
+          description={type === 'condition' ? 'Model used when asking the model' : undefined}
+          size="xs"
+          data={agents.map(agent => ({ value: agent.slug, label: agent.name }))}
+          value={step.agentId || null}
+          onChange={agentId => onChange({ agentId: agentId ?? '' })}
+          clearable={type === 'condition'}
+          searchable
+          withinPortal
+        />
+      )}
+
+      <Textarea
+        ref={inputRef}
+        label={INPUT_LABELS[type]}
+        size="xs"
+        value={step.inputTemplate}
+        onChange={event => onChange({ inputTemplate: event.currentTarget.value })}
+        autosize
+        minRows={3}
+        maxRows={10}
+      />
+      {placeholders.length > 0 && (
+        <Group spacing={4}>
+          {placeholders.map(placeholder => (
+            <Badge
+              key={placeholder}
+              size="xs"
+              variant="outline"
+              sx={{ cursor: 'pointer', textTransform: 'none' }}
+              onClick={() => insertPlaceholder(placeholder)}
+            >
+              {placeholder}
+            </Badge>
+          ))}
+        </Group>
+      )}
+
+      {type === 'retrieval' && (
+        <Card withBorder p="xs">
+          <Text size="xs" weight={500} mb={6}>
+            Search
+          </Text>
+          <Group spacing="xs" noWrap align="flex-start">
+            <MultiSelect
+              size="xs"
+              placeholder={
+                step.retrieval?.collectionIds?.length === 0 ? 'No documents, its collections were deleted' : 'Every document'
+              }
+              data={collectionOptions}
+              value={step.retrieval?.collectionIds ?? []}
+              onChange={collectionIds =>
+                onChange({
+                  retrieval: { ...step.retrieval, collectionIds: collectionIds.length > 0 ? collectionIds : undefined },
+                })
+              }
+              withinPortal
+              sx={{ flex: 1 }}
+            />
+            <NumberInput
+              size="xs"
+              min={1}
+              placeholder="3"
+              value={step.retrieval?.maxChunks ?? ''}
+              onChange={value =>
+                onChange({ retrieval: { ...step.retrieval, maxChunks: value === '' ? undefined : value } })
+              }
+              rightSection={<Text size="xs" color="dimmed">chunks</Text>}
+              rightSectionWidth={50}
+              sx={{ width: 100 }}
+            />
+          </Group>
+        </Card>
+      )}
+
+      {type === 'document' && step.document && (
+        <Card withBorder p="xs">
+          <Text size="xs" weight={500} mb={6}>
+            Document
+          </Text>
+          <Stack spacing={6}>
+            <TextInput
+              size="xs"
+              placeholder="Title, e.g. Research on {topic}"
+              value={step.document.title}
+              onChange={event => onChange({ document: { ...step.document!, title: event.currentTarget.value } })}
+            />
+            <Select
+              size="xs"
+              placeholder="No collection"
+              data={collectionOptions}
+              value={step.document.collectionId ?? null}
+              onChange={collectionId => onChange({ document: { ...step.document!, collectionId: collectionId ?? undefined } })}
+              clearable
+              withinPortal
+            />
+          </Stack>
+        </Card>
+      )}
+
+      {type === 'http' && step.http && (
+        <Card withBorder p="xs">
+          <Text size="xs" weight={500} mb={6}>
+            Request
+          </Text>
+          <Stack spacing={6}>
+            <Group spacing="xs" noWrap>
+              <Select
+                size="xs"
+                data={REQUEST_METHODS.map(method => ({ value: method, label: method }))}
+                value={step.http.method}
+                onChange={method => changeHttp({ method: (method ?? 'GET') as WorkflowHttpRequest['method'] })}
+                withinPortal
+                sx={{ width: 100 }}
+              />
+              <TextInput
+                size="xs"
+                placeholder="https://api.example.com/items?q={topic}"
+                value={step.http.url}
+                onChange={event => changeHttp({ url: event.currentTarget.value })}
+                sx={{ flex: 1 }}
+              />
+            </Group>
+            {headerNames.map((name, index) => (
+              <Group key={index} spacing="xs" noWrap>
+                <TextInput
+                  size="xs"
+                  placeholder="Header"
+                  value={name}
+                  onChange={event => changeHeader(index, event.currentTarget.value, headers[name])}
+                  sx={{ width: 120 }}
+                />
+                <TextInput
+                  size="xs"
+                  placeholder="Bearer {secrets.api_key}"
+                  value={headers[name]}
+                  onChange={event => changeHeader(index, name, event.currentTarget.value)}
+                  sx={{ flex: 1 }}
+                />
+                <ActionIcon size="sm" onClick={() => removeHeader(name)}>
+                  <IconX size={14} />
+                </ActionIcon>
+              </Group>
+            ))}
+            <Button
+              size="xs"
+              variant="subtle"
+              leftIcon={<IconPlus size={14} />}
+              onClick={() => changeHttp({ headers: { ...headers, '': '' } })}
+              disabled={'' in headers}
+              sx={{ alignSelf: 'flex-start' }}
+            >
+              Add header
+            </Button>
+            <TextInput
+              size="xs"
+              label="Extract"
+              description="JSONPath into a JSON response, e.g. $.items[0].name. The whole response by default."
+              placeholder="$"
+              value={step.http.extract ?? ''}
+              onChange={event => changeHttp({ extract: event.currentTarget.value || undefined })}
+            />
+            <Text size="xs" color="dimmed">
+              {secrets.length > 0
+                ? `Secrets can be used in the URL, headers and body as ${secrets
+                    .map(name => `{secrets.${name}}`)
+                    .join(', ')}.`
+                : 'Add secrets, and the hosts requests may go to, under Settings → Advanced.'}
+            </Text>
+          </Stack>
+        </Card>
+      )}
+
+      {type === 'condition' && step.condition && (
+        <Card withBorder p="xs">
+          <Text size="xs" weight={500} mb={6}>
+            Condition
+          </Text>
+          <ConditionFields condition={step.condition} onChange={condition => onChange({ condition })} />
+        </Card>
+      )}
+
+      <Card withBorder p="xs">
+        <Text size="xs" weight={500} mb={6}>
+          Run only when
+        </Text>
+        <Group spacing="xs" noWrap>
+          <Select
+            size="xs"
+            placeholder="Always"
+            data={others.map(s => ({ value: s.id, label: s.description || s.id }))}
+            value={step.when?.stepId ?? null}
+            onChange={stepId => onChange({ when: stepId ? { stepId, equals: step.when?.equals ?? '' } : undefined })}
+            clearable
+            withinPortal
+            sx={{ flex: 1 }}
+          />
+          {step.when && (
+            <TextInput
+              size="xs"
+              placeholder="outputs"
+              value={step.when.equals}
+              onChange={event => onChange({ when: { ...step.when!, equals: event.currentTarget.value } })}
+              sx={{ width: 100 }}
+            />
+          )}
+        </Group>
+      </Card>
+
+      {type === 'agent' && (
+        <Card withBorder p="xs">
+          <Switch
+            size="xs"
+            label="Repeat until a condition holds"
+            checked={!!step.loop}
+            onChange={event =>
+              onChange({
+                loop: event.currentTarget.checked ? { until: { type: 'llm' }, maxIterations: 3 } : undefined,
+              })
+            }
+          />
+          {step.loop && (
+            <Stack spacing={6} mt={6}>
+              <ConditionFields
+                condition={step.loop.until}
+                onChange={until => onChange({ loop: { ...step.loop!, until } })}
+              />
+              <Group spacing="xs" noWrap>
+                <TextInput
+                  size="xs"
+                  label="Stop when it gives"
+                  placeholder={step.loop.until.type === 'regex' ? 'true' : step.loop.until.labels?.[0] ?? 'yes'}
+                  value={step.loop.equals ?? ''}
+                  onChange={event => onChange({ loop: { ...step.loop!, equals: event.currentTarget.value || undefined } })}
+                  sx={{ flex: 1 }}
+                />
+                <NumberInput
+                  size="xs"
+                  label="At most"
+                  min={1}
+                  value={step.loop.maxIterations}
+                  onChange={value => onChange({ loop: { ...step.loop!, maxIterations: value === '' ? 1 : value } })}
+                  sx={{ width: 90 }}
+                />
+              </Group>
+            </Stack>
+          )}
+        </Card>
+      )}
+
+      {type !== 'approval' && (
+        <Group spacing="xs" noWrap>
+          <NumberInput
+            size="xs"
+            label="Attempts"
+            min={1}
+            placeholder="3"
+            value={step.retry?.maxAttempts ?? ''}
+            onChange={value =>
+              onChange({ retry: value === '' ? undefined : { ...step.retry, maxAttempts: value } })
+            }
+          />
+          <NumberInput
+            size="xs"
+            label="Timeout (s)"
+            min={1}
+            placeholder="None"
+            value={step.timeoutMs ? step.timeoutMs / 1000 : ''}
+            onChange={value => onChange({ timeoutMs: value === '' ? undefined : value * 1000 })}
+          />
+        </Group>
+      )}
+    </Stack>
+  );
+}
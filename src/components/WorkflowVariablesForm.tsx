@@ -0,0 +1,185 @@
+import React from 'react';
+import { ActionIcon, Badge, Button, Card, Group, NumberInput, Select, Stack, Switch, Text, Textarea, TextInput } from '@mantine/core';
+import { IconPlus, IconTrash } from '@tabler/icons-react';
+import { WorkflowVariable } from '../utils/agentWorkflow';
+
+const VARIABLE_TYPES: { value: WorkflowVariable['type']; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'text', label: 'Long text' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'select', label: 'Choice' },
+];
+
+interface VariableInputProps {
+  variable: WorkflowVariable;
+  value: string;
+  onChange: (value: string) => void;
+  label?: string;
+}
+
+// Input for a variable's value that fits its type. Values stay strings.
+export function VariableInput({ variable, value, onChange, label }: VariableInputProps) {
+  const common = {
+    label,
+    description: label ? variable.description : undefined,
+    required: !!label && variable.required !== false,
+  };
+
+  switch (variable.type) {
+    case 'text':
+      return (
+        <Textarea
+          {...common}
+          placeholder={`Enter value for ${variable.name}`}
+          value={value}
+          onChange={event => onChange(event.currentTarget.value)}
+          autosize
+          minRows={2}
+        />
+      );
+    case 'number':
+      return (
+        <NumberInput
+          {...common}
+          value={value === '' || isNaN(Number(value)) ? '' : Number(value)}
+          onChange={number => onChange(number === '' ? '' : String(number))}
+          precision={6}
+          removeTrailingZeros
+        />
+      );
+    case 'boolean':
+      return (
+        <Select
+          {...common}
+          data={[
+            { value: 'true', label: 'Yes' },
+            { value: 'false', label: 'No' },
+          ]}
+          value={value || null}
+          onChange={selected => onChange(selected ?? '')}
+          clearable={variable.required === false}
+        />
+      );
+    case 'select':
+      return (
+        <Select
+          {...common}
+          data={variable.options ?? []}
+          value={value || null}
+          onChange={selected => onChange(selected ?? '')}
+          clearable={variable.required === false}
+        />
+      );
+    default:
+      return (
+        <TextInput
+          {...common}
+          placeholder={`Enter value for ${variable.name}`}
+          value={value}
+          onChange={event => onChange(event.currentTarget.value)}
+        />
+      );
+  }
+}
+
+interface WorkflowVariablesFormProps {
+  variables: WorkflowVariable[];
+  undeclared: string[]; // used by the steps but not declared yet
+  onChange: (variables: WorkflowVariable[]) => void;
+}
+
+// Declare the {variables} a template asks for, with their types and defaults
+export function WorkflowVariablesForm({ variables, undeclared, onChange }: WorkflowVariablesFormProps) {
+  const update = (index: number, changes: Partial<WorkflowVariable>) => {
+    onChange(variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)));
+  };
+
+  const addVariable = (name: string = '') => {
+    onChange([...variables, { name, type: 'string' }]);
+  };
+
+  return (
+    <Stack spacing="xs">
+      {variables.map((variable, index) => (
+        <Card key={index} withBorder p="xs">
+          <Stack spacing={6}>
+            <Group spacing="xs" noWrap align="flex-end">
+              <TextInput
+                label="Name"
+                size="xs"
+                value={variable.name}
+                onChange={event => update(index, { name: event.currentTarget.value })}
+                sx={{ flex: 1 }}
+              />
+              <Select
+                label="Type"
+                size="xs"
+                data={VARIABLE_TYPES}
+                value={variable.type}
+                // A default of another type would no longer fit
+                onChange={type => update(index, { type: (type ?? 'string') as WorkflowVariable['type'], defaultValue: undefined })}
+                sx={{ width: 110 }}
+              />
+              <ActionIcon color="red" variant="subtle" onClick={() => onChange(variables.filter((_, i) => i !== index))}>
+                <IconTrash size={16} />
+              </ActionIcon>
+            </Group>
+            <TextInput
+              placeholder="Description"
+              size="xs"
+              value={variable.description ?? ''}
+              onChange={event => update(index, { description: event.currentTarget.value || undefined })}
+            />
+            {variable.type === 'select' && (
+              <TextInput
+                placeholder="Options, separated by commas"
+                size="xs"
+                value={(variable.options ?? []).join(', ')}
+                onChange={event =>
+                  update(index, {
+                    options: event.currentTarget.value
+                      .split(',')
+                      .map(option => option.trim())
+                      .filter(Boolean),
+                  })
+                }
+              />
+            )}
+            <Text size="xs" color="dimmed">
+              Default value
+            </Text>
+            <VariableInput
+              variable={{ ...variable, required: false }}
+              value={variable.defaultValue ?? ''}
+              onChange={value => update(index, { defaultValue: value || undefined })}
+            />
+            <Switch
+              label="Required"
+              size="xs"
+              checked={variable.required !== false}
+              onChange={event => update(index, { required: event.currentTarget.checked ? undefined : false })}
+            />
+          </Stack>
+        </Card>
+      ))}
+
+      {undeclared.length > 0 && (
+        <Group spacing={4}>
+          <Text size="xs" color="dimmed">
+            Used but not declared:
+          </Text>
+          {undeclared.map(name => (
+            <Badge key={name} size="sm" sx={{ cursor: 'pointer' }} onClick={() => addVariable(name)}>
+              + {name}
+            </Badge>
+          ))}
+        </Group>
+      )}
+
+      <Button size="xs" variant="light" leftIcon={<IconPlus size={14} />} onClick={() => addVariable()}>
+        Add Variable
+      </Button>
+    </Stack>
+  );
+}
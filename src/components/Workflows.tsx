@@ -1,15 +1,39 @@
-import React, { useState } from 'react';
-import { Stack, Title, Button, Group, Text, SimpleGrid, Modal, TextInput, Textarea, Select, Card, Badge } from '@mantine/core';
-import { IconPlus, IconPlay, IconWorkflow } from '@tabler/icons-react';
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Stack, Title, Button, Group, Text, SimpleGrid, Modal, TextInput, Textarea, Select, Card, Badge, UnstyledButton, Alert } from '@mantine/core';
+import { IconPlus, IconPlay, IconWorkflow, IconHierarchy, IconClock } from '@tabler/icons-react';
+import { WorkflowBuilderModal } from './WorkflowBuilderModal';
 import { WorkflowCard } from './WorkflowCard';
-import { AgentWorkflow, WorkflowExecutor, WORKFLOW_TEMPLATES } from '../utils/agentWorkflow';
+import { getRunStatusColor, WorkflowRunModal } from './WorkflowRunModal';
+import { WorkflowScheduleModal } from './WorkflowScheduleModal';
+import { WorkflowSchedules } from './WorkflowSchedules';
+import { VariableInput } from './WorkflowVariablesForm';
+import {
+  AgentWorkflow,
+  getDefaultVariables,
+  getTemplateVariableDefinitions,
+  getWorkflowTemplates,
+  validateTemplateAgents,
+  WorkflowExecutor,
+  WorkflowRun,
+  WorkflowValidationError,
+} from '../utils/agentWorkflow';
 import { notifications } from '@mantine/notifications';
 import { db } from '../db';
 
+// How many runs the history shows
+const RECENT_RUNS = 20;
+
 export function Workflows() {
-  const [workflows, setWorkflows] = useState<AgentWorkflow[]>([]);
+  const workflows = useLiveQuery(() => db.workflows.orderBy('createdAt').reverse().toArray());
+  const runs = useLiveQuery(() => db.workflowRuns.orderBy('startedAt').reverse().limit(RECENT_RUNS).toArray());
+  const templates = useLiveQuery(getWorkflowTemplates);
+  const [workflowExecutor] = useState(() => new WorkflowExecutor());
   const [createModalOpen, setCreateModalOpen] = useState(false);
+  const [builderOpen, setBuilderOpen] = useState(false);
+  const [scheduleModalOpen, setScheduleModalOpen] = useState(false);
   const [executingWorkflow, setExecutingWorkflow] = useState<string | null>(null);
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     templateId: '',
     name: '',
@@ -17,141 +41,150 @@ export function Workflows() {
     variables: {} as Record<string, string>,
   });
 
-  const workflowExecutor = new WorkflowExecutor((workflow) => {
-    // Update workflow in the list
-    setWorkflows(prev => {
-      const index = prev.findIndex(w => w.id === workflow.id);
-      if (index >= 0) {
-        const updated = [...prev];
-        updated[index] = workflow;
-        return updated;
-      } else {
-        return [...prev, workflow];
-      }
-    });
-  });
+  useEffect(() => {
+    workflowExecutor.getWorkflowManager().recoverInterruptedRuns();
+  }, [workflowExecutor]);
+
+  const selectedTemplate = templates?.find(t => t.id === formData.templateId);
+  const templateVariables = selectedTemplate ? getTemplateVariableDefinitions(selectedTemplate) : [];
+  // Checked against the agents table, so it updates when an agent is added or renamed
+  const agentIssues = useLiveQuery(
+    async () => (selectedTemplate ? validateTemplateAgents(selectedTemplate) : []),
+    [selectedTemplate]
+  );
+
+  const hasProvider = async () => {
+    const settings = await db.settings.where({ id: "general" }).first();
+    if (!settings?.providerProfiles?.length) {
+      notifications.show({
+        title: 'Error',
+        message: 'A model provider is required to execute workflows',
+        color: 'red',
+      });
+      return false;
+    }
+    return true;
+  };
+
+  // Run in the background; progress is saved to the database as it happens
+  const runWorkflow = async (workflowId: string, execute: () => Promise<WorkflowRun>) => {
+    try {
+      setExecutingWorkflow(workflowId);
+      const run = await execute();
+      notifications.show(
+        run.status === 'completed'
+          ? { title: 'Success', message: `${run.workflowName} completed`, color: 'green' }
+          : run.status === 'paused'
+          ? { title: 'Paused', message: `${run.workflowName} was paused`, color: 'yellow' }
+          : run.status === 'cancelled'
+          ? { title: 'Cancelled', message: `${run.workflowName} was cancelled`, color: 'yellow' }
+          : run.status === 'awaiting_approval'
+          ? { title: 'Review needed', message: `${run.workflowName} is waiting for your approval`, color: 'orange' }
+          : { title: 'Error', message: `${run.workflowName} stopped on a failed step`, color: 'red' }
+      );
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: error instanceof WorkflowValidationError ? error.issues.join(' ') : 'Failed to execute workflow',
+        color: 'red',
+      });
+    } finally {
+      setExecutingWorkflow(null);
+    }
+  };
 
   const handleCreateWorkflow = async () => {
+    if (!(await hasProvider())) return;
+
+    const workflowManager = workflowExecutor.getWorkflowManager();
+    let workflow: AgentWorkflow;
     try {
-      const apiKey = (await db.settings.where({ id: "general" }).first())?.openAiApiKey;
-      if (!apiKey) {
-        notifications.show({
-          title: 'Error',
-          message: 'OpenAI API key required to execute workflows',
-          color: 'red',
-        });
-        return;
-      }
-
-      const workflow = await workflowExecutor.executeWorkflowWithProgress(
+      workflow = await workflowManager.createWorkflowFromTemplate(
         formData.templateId,
         formData.name,
         formData.description,
-        formData.variables,
-        apiKey
+        formData.variables
       );
-
-      setCreateModalOpen(false);
-      setFormData({
-        templateId: '',
-        name: '',
-        description: '',
-        variables: {},
-      });
-
-      notifications.show({
-        title: 'Success',
-        message: 'Workflow created and executed successfully',
-        color: 'green',
-      });
     } catch (error) {
       notifications.show({
         title: 'Error',
-        message: 'Failed to create workflow',
+        message: error instanceof WorkflowValidationError ? error.issues.join(' ') : 'Failed to create workflow',
         color: 'red',
       });
+      return;
     }
+
+    setCreateModalOpen(false);
+    setFormData({
+      templateId: '',
+      name: '',
+      description: '',
+      variables: {},
+    });
+
+    await runWorkflow(workflow.id, () => workflowManager.executeWorkflow(workflow.id));
   };
 
+  // Continues a paused or failed run, starts a new one otherwise
   const handleExecuteWorkflow = async (workflowId: string) => {
-    try {
-      setExecutingWorkflow(workflowId);
-      const apiKey = (await db.settings.where({ id: "general" }).first())?.openAiApiKey;
-      if (!apiKey) {
-        notifications.show({
-          title: 'Error',
-          message: 'OpenAI API key required to execute workflows',
-          color: 'red',
-        });
-        return;
-      }
-
-      const workflowManager = workflowExecutor.getWorkflowManager();
-      await workflowManager.executeWorkflow(workflowId, apiKey);
+    if (!(await hasProvider())) return;
+    const workflowManager = workflowExecutor.getWorkflowManager();
+    await runWorkflow(workflowId, () => workflowManager.resumeWorkflow(workflowId));
+  };
+
+  const handleCancelWorkflow = async (workflowId: string) => {
+    await workflowExecutor.getWorkflowManager().cancelWorkflow(workflowId);
+  };
+
+  const handleRerun = async (run: WorkflowRun) => {
+    if (!(await hasProvider())) return;
+    setOpenRunId(null);
+    const workflowManager = workflowExecutor.getWorkflowManager();
+    await runWorkflow(run.workflowId, () => workflowManager.rerun(run.id));
+  };
+
+  const handleApproveStep = async (workflowId: string, stepId: string, output: string) => {
+    const workflowManager = workflowExecutor.getWorkflowManager();
+    await runWorkflow(workflowId, () => workflowManager.approveStep(workflowId, stepId, output));
+  };
 
+  const handleRejectStep = async (workflowId: string, stepId: string, note: string) => {
+    const workflowManager = workflowExecutor.getWorkflowManager();
+    await runWorkflow(workflowId, () => workflowManager.rejectStep(workflowId, stepId, note));
+  };
+
+  const handleDeleteWorkflow = async (workflowId: string) => {
+    try {
+      await workflowExecutor.getWorkflowManager().deleteWorkflow(workflowId);
       notifications.show({
         title: 'Success',
-        message: 'Workflow executed successfully',
+        message: 'Workflow deleted successfully',
         color: 'green',
       });
     } catch (error) {
       notifications.show({
         title: 'Error',
-        message: 'Failed to execute workflow',
+        message: 'Failed to delete workflow',
         color: 'red',
       });
-    } finally {
-      setExecutingWorkflow(null);
     }
   };
 
-  const handleDeleteWorkflow = (workflowId: string) => {
-    const workflowManager = workflowExecutor.getWorkflowManager();
-    workflowManager.deleteWorkflow(workflowId);
-    setWorkflows(prev => prev.filter(w => w.id !== workflowId));
+  const handlePauseWorkflow = async (workflowId: string) => {
+    await workflowExecutor.getWorkflowManager().pauseWorkflow(workflowId);
     notifications.show({
       title: 'Success',
-      message: 'Workflow deleted successfully',
-      color: 'green',
-    });
-  };
-
-  const handlePauseWorkflow = (workflowId: string) => {
-    setWorkflows(prev => prev.map(w => 
-      w.id === workflowId ? { ...w, status: 'paused' as const } : w
-    ));
-    notifications.show({
-      title: 'Success',
-      message: 'Workflow paused successfully',
+      message: 'Workflow will pause after the current step',
       color: 'yellow',
     });
   };
 
-  const getTemplateVariables = (templateId: string): string[] => {
-    const template = WORKFLOW_TEMPLATES.find(t => t.id === templateId);
-    if (!template) return [];
-
-    const variables = new Set<string>();
-    template.steps.forEach(step => {
-      const matches = step.inputTemplate.match(/\{([^}]+)\}/g);
-      if (matches) {
-        matches.forEach(match => {
-          const variable = match.slice(1, -1);
-          if (variable !== 'previous_output') {
-            variables.add(variable);
-          }
-        });
-      }
-    });
-
-    return Array.from(variables);
-  };
-
   const handleTemplateChange = (templateId: string) => {
+    const template = templates?.find(t => t.id === templateId);
     setFormData(prev => ({
       ...prev,
       templateId,
-      variables: {},
+      variables: template ? getDefaultVariables(getTemplateVariableDefinitions(template)) : {},
     }));
   };
 
@@ -162,15 +195,31 @@ export function Workflows() {
           <IconWorkflow size={24} />
           <Title order={2}>Agent Workflows</Title>
         </Group>
-        <Button
-          leftSection={<IconPlus size={16} />}
-          onClick={() => setCreateModalOpen(true)}
-        >
-          Create Workflow
-        </Button>
+        <Group spacing="xs">
+          <Button
+            variant="default"
+            leftIcon={<IconHierarchy size={16} />}
+            onClick={() => setBuilderOpen(true)}
+          >
+            Build Workflow
+          </Button>
+          <Button
+            variant="default"
+            leftIcon={<IconClock size={16} />}
+            onClick={() => setScheduleModalOpen(true)}
+          >
+            Schedule Workflow
+          </Button>
+          <Button
+            leftSection={<IconPlus size={16} />}
+            onClick={() => setCreateModalOpen(true)}
+          >
+            Create Workflow
+          </Button>
+        </Group>
       </Group>
 
-      {workflows.length > 0 ? (
+      {workflows && workflows.length > 0 ? (
         <SimpleGrid cols={{ base: 1, sm: 2, lg: 3 }} spacing="lg">
           {workflows.map((workflow) => (
             <WorkflowCard
@@ -179,6 +228,9 @@ export function Workflows() {
               onExecute={handleExecuteWorkflow}
               onDelete={handleDeleteWorkflow}
               onPause={handlePauseWorkflow}
+              onCancel={handleCancelWorkflow}
+              onApprove={handleApproveStep}
+              onReject={handleRejectStep}
             />
           ))}
         </SimpleGrid>
@@ -188,6 +240,32 @@ export function Workflows() {
         </Text>
       )}
 
+      <WorkflowSchedules onOpenRun={setOpenRunId} />
+
+      {runs && runs.length > 0 && (
+        <Stack spacing="xs">
+          <Title order={4}>Run History</Title>
+          {runs.map((run) => (
+            <UnstyledButton key={run.id} onClick={() => setOpenRunId(run.id)}>
+              <Card withBorder p="xs">
+                <Group position="apart" noWrap>
+                  <Text size="sm" weight={500} truncate>
+                    {run.workflowName}
+                  </Text>
+                  <Badge color={getRunStatusColor(run.status)} size="xs">
+                    {run.status.toUpperCase()}
+                  </Badge>
+                </Group>
+                <Text size="xs" color="dimmed">
+                  {new Date(run.startedAt).toLocaleString()}
+                  {run.totalTokens > 0 && ` · ${run.totalTokens} tokens`}
+                </Text>
+              </Card>
+            </UnstyledButton>
+          ))}
+        </Stack>
+      )}
+
       <Modal
         opened={createModalOpen}
         onClose={() => setCreateModalOpen(false)}
@@ -198,7 +276,7 @@ export function Workflows() {
           <Select
             label="Workflow Template"
             placeholder="Select a template"
-            data={WORKFLOW_TEMPLATES.map(template => ({
+            data={(templates ?? []).map(template => ({
               value: template.id,
               label: template.name,
             }))}
@@ -213,11 +291,21 @@ export function Workflows() {
                 Template Description
               </Text>
               <Text size="sm" c="dimmed">
-                {WORKFLOW_TEMPLATES.find(t => t.id === formData.templateId)?.description}
+                {selectedTemplate?.description}
               </Text>
             </Card>
           )}
 
+          {agentIssues && agentIssues.length > 0 && (
+            <Alert color="red" title="Missing agents">
+              {agentIssues.map(issue => (
+                <Text key={issue} size="sm">
+                  {issue}
+                </Text>
+              ))}
+            </Alert>
+          )}
+
           <TextInput
             label="Workflow Name"
             placeholder="Enter workflow name"
@@ -235,26 +323,25 @@ export function Workflows() {
             required
           />
 
-          {formData.templateId && getTemplateVariables(formData.templateId).length > 0 && (
+          {templateVariables.length > 0 && (
             <Card withBorder p="xs">
               <Text size="sm" fw={500} mb="xs">
                 Template Variables
               </Text>
               <Stack gap="xs">
-                {getTemplateVariables(formData.templateId).map(variable => (
-                  <TextInput
-                    key={variable}
-                    label={variable}
-                    placeholder={`Enter value for ${variable}`}
-                    value={formData.variables[variable] || ''}
-                    onChange={(event) => setFormData({
+                {templateVariables.map(variable => (
+                  <VariableInput
+                    key={variable.name}
+                    variable={variable}
+                    label={variable.name}
+                    value={formData.variables[variable.name] || ''}
+                    onChange={(value) => setFormData({
                       ...formData,
                       variables: {
                         ...formData.variables,
-                        [variable]: event.currentTarget.value,
+                        [variable.name]: value,
                       },
                     })}
-                    required
                   />
                 ))}
               </Stack>
@@ -267,7 +354,7 @@ export function Workflows() {
             </Button>
             <Button
               onClick={handleCreateWorkflow}
-              disabled={!formData.templateId || !formData.name || !formData.description}
+              disabled={!formData.templateId || !formData.name || !formData.description || !!agentIssues?.length}
               loading={executingWorkflow !== null}
             >
               Create & Execute Workflow
@@ -275,6 +362,18 @@ export function Workflows() {
           </Group>
         </Stack>
       </Modal>
+
+      <WorkflowBuilderModal opened={builderOpen} onClose={() => setBuilderOpen(false)} />
+
+      <WorkflowScheduleModal opened={scheduleModalOpen} onClose={() => setScheduleModalOpen(false)} />
+
+      <WorkflowRunModal
+        runId={openRunId ?? undefined}
+        opened={!!openRunId}
+        onClose={() => setOpenRunId(null)}
+        onRerun={handleRerun}
+        rerunDisabled={executingWorkflow !== null}
+      />
     </Stack>
   );
 }
\ No newline at end of file
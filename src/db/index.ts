@@ -1,6 +1,13 @@
 import Dexie, { Table } from "dexie";
 import "dexie-export-import";
 import { config } from "../utils/config";
+import { inferEmbeddingSignature } from "../utils/embeddings";
+import { AgentWorkflow, WorkflowRun, WorkflowTemplate } from "../utils/agentWorkflow";
+import { getTermFrequencies } from "../utils/bm25";
+import { profileFromLegacySettings, ToolCall } from "../utils/providers";
+import { slugify, uniqueSlug } from "../utils/slug";
+import { VectorStoreOptions, VectorStoreType } from "../utils/vectorStore";
+import { WorkflowSchedule } from "../utils/workflowScheduler";
 
 export interface Chat {
   id: string;
@@ -8,16 +15,48 @@ export interface Chat {
   totalTokens: number;
   createdAt: Date;
   pinned: boolean;
+  providerId?: string;
+  activeLeafId?: string;
+  // Rolling summary of the turns up to and including summaryUpToId
+  summary?: string;
+  summaryUpToId?: string;
+  // Generation settings, unset values fall back to the provider profile
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  agentId?: string;
+  useRAG?: boolean;
+  collectionIds?: string[]; // knowledge base collections RAG searches, all when unset, none when empty
+  writingCharacter?: string;
+  writingTone?: string;
+  writingStyle?: string;
+  writingFormat?: string;
 }
 
 export interface Message {
   id: string;
   chatId: string;
+  parentId?: string | null;
   role: "system" | "assistant" | "user";
   content: string;
+  // Tools the assistant called while writing this reply, with their results
+  toolCalls?: Array<ToolCall & { result?: string }>;
+  // Knowledge base passages given to the assistant, cited as [number]
+  sources?: MessageSource[];
   createdAt: Date;
 }
 
+export interface MessageSource {
+  number: number;
+  chunkId: string;
+  documentId: string;
+  title: string;
+  page?: number;
+  heading?: string;
+}
+
 export interface Prompt {
   id: string;
   title: string;
@@ -25,23 +64,74 @@ export interface Prompt {
   createdAt: Date;
 }
 
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  type: 'openai' | 'azure' | 'anthropic' | 'ollama';
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+  deployment?: string; // Azure OpenAI only
+  authHeader?: 'bearer' | 'api-key'; // OpenAI only, how the key is sent, bearer by default
+  model?: string;
+}
+
 export interface Settings {
   id: "general";
-  openAiApiKey?: string;
-  openAiModel?: string;
-  openAiApiType?: 'openai' | 'custom';
-  openAiApiAuth?: 'none' | 'bearer-token' | 'api-key';
-  openAiApiBase?: string;
-  openAiApiVersion?: string;
+  providerProfiles?: ProviderProfile[];
+  defaultProviderId?: string;
+  contextStrategy?: 'truncate' | 'summarize';
+  retrieval?: RetrievalSettings;
+  workflowRequests?: WorkflowRequestSettings;
+  embeddingsConfig?: EmbeddingsSettings;
+  vectorStoreConfig?: VectorStoreSettings;
+}
+
+// How keyword (BM25) and vector rankings are combined when searching chunks
+export interface RetrievalSettings {
+  fusion: 'rrf' | 'weighted';
+  vectorWeight: number;
+  keywordWeight: number;
+}
+
+// What HTTP request steps of workflows may call
+export interface WorkflowRequestSettings {
+  allowedHosts: string[]; // e.g. api.example.com, localhost:3000 or *.example.com
+  secrets: Record<string, string>; // used as {secrets.<name>}, kept out of the run history
+  maxResponseBytes: number;
+}
+
+// Encrypted by utils/encryption with a key that stays in this browser
+export interface EncryptedValue {
+  iv: string; // base64
+  data: string; // base64
+}
+
+// The embeddings RAG uses, applied at startup
+export interface EmbeddingsSettings {
+  provider: "openai" | "cohere" | "local" | "simple";
+  model?: string;
+  apiKey?: EncryptedValue; // OpenAI falls back to the key of the OpenAI provider
+}
+
+// The vector store RAG uses, applied at startup
+export interface VectorStoreSettings {
+  provider: VectorStoreType;
+  options: Omit<VectorStoreOptions, "apiKey">;
+  apiKey?: EncryptedValue;
 }
 
 // New interfaces for agents and RAG
 export interface Agent {
   id: string;
+  slug: string; // unique, workflow templates refer to agents by it
   name: string;
   description: string;
   systemPrompt: string;
   capabilities: string[];
+  tools?: string[]; // names of the registered tools the agent may call
+  collectionIds?: string[]; // default knowledge base collections of its chats, as for Chat
+  providerId?: string;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -53,21 +143,69 @@ export interface UserDocument {
   content: string;
   type: 'pdf' | 'doc' | 'webpage' | 'text';
   source: string;
-  metadata?: Record<string, any>;
+  collectionId?: string;
+  metadata?: Record<string, any>; // DocumentMetadata for uploaded files
   embeddings?: number[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Where a part of the document starts in its extracted content
+export interface DocumentSection {
+  offset: number;
+  page?: number;
+  heading?: string; // e.g. "Introduction > Scope"
+}
+
+// Metadata of uploaded files, filled in by extractDocument
+export interface DocumentMetadata {
+  format: 'pdf' | 'docx' | 'html' | 'markdown' | 'csv' | 'json' | 'text';
+  fileName: string;
+  pageCount?: number;
+  sections?: DocumentSection[];
+  raw?: string; // original CSV / JSON data, the content holds a text rendering
+}
+
+// A named group of documents, e.g. one client matter
+export interface Collection {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: Date;
+}
+
 export interface DocumentChunk {
   id: string;
   documentId: string;
+  collectionId?: string; // copied from the document to filter searches
   content: string;
+  page?: number; // page of the source PDF the chunk starts on
+  heading?: string; // heading path the chunk falls under
   embeddings?: number[];
+  // What made the embeddings, searches skip chunks embedded differently
+  embeddingProvider?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
   chunkIndex: number;
   createdAt: Date;
 }
 
+// How often a term occurs in a chunk, the unit of the BM25 keyword index
+export interface KeywordPosting {
+  term: string;
+  chunkId: string;
+  documentId: string;
+  collectionId?: string;
+  frequency: number;
+  chunkLength: number; // number of terms in the chunk
+}
+
+export interface KeywordStats {
+  id: "corpus";
+  chunkCount: number;
+  totalLength: number;
+}
+
 export interface LearningSession {
   id: string;
   chatId: string;
@@ -111,6 +249,13 @@ export interface User {
   lastActive: Date;
 }
 
+function setInferredSignature(chunk: DocumentChunk) {
+  const signature = inferEmbeddingSignature(chunk.content, chunk.embeddings);
+  chunk.embeddingProvider = signature.provider;
+  chunk.embeddingModel = signature.model;
+  chunk.embeddingDimensions = signature.dimensions;
+}
+
 export class Database extends Dexie {
   chats!: Table<Chat>;
   messages!: Table<Message>;
@@ -119,10 +264,17 @@ export class Database extends Dexie {
   agents!: Table<Agent>;
   userDocuments!: Table<UserDocument>;
   documentChunks!: Table<DocumentChunk>;
+  keywordIndex!: Table<KeywordPosting>;
+  keywordStats!: Table<KeywordStats>;
   learningSessions!: Table<LearningSession>;
   agentPerformance!: Table<AgentPerformance>;
   auditLogs!: Table<AuditLog>;
   users!: Table<User>;
+  collections!: Table<Collection>;
+  workflows!: Table<AgentWorkflow>;
+  workflowTemplates!: Table<WorkflowTemplate>;
+  workflowRuns!: Table<WorkflowRun>;
+  workflowSchedules!: Table<WorkflowSchedule>;
 
   constructor() {
     super("chatpad");
@@ -140,9 +292,177 @@ export class Database extends Dexie {
       users: "id, email, role, createdAt",
     });
 
+    // Messages became a tree: link each existing message to the one before it
+    this.version(5)
+      .stores({
+        messages: "id, chatId, parentId, createdAt",
+      })
+      .upgrade(async (tx) => {
+        const messages: Message[] = await tx
+          .table("messages")
+          .orderBy("createdAt")
+          .toArray();
+        const lastByChat: Record<string, string> = {};
+        for (const message of messages) {
+          await tx
+            .table("messages")
+            .update(message.id, { parentId: lastByChat[message.chatId] ?? null });
+          lastByChat[message.chatId] = message.id;
+        }
+      });
+
+    // The single set of openAi* settings became a list of provider profiles
+    this.version(6)
+      .stores({})
+      .upgrade(async (tx) => {
+        await tx
+          .table("settings")
+          .toCollection()
+          .modify((settings) => {
+            if (settings.providerProfiles) return;
+            const profile = profileFromLegacySettings(settings);
+            settings.providerProfiles = [profile];
+            settings.defaultProviderId = profile.id;
+            delete settings.openAiApiKey;
+            delete settings.openAiModel;
+            delete settings.openAiApiType;
+            delete settings.openAiApiAuth;
+            delete settings.openAiApiBase;
+            delete settings.openAiApiVersion;
+          });
+      });
+
+    // Build the keyword index for chunks created before it existed
+    this.version(7)
+      .stores({
+        keywordIndex: "[term+chunkId], term, documentId",
+        keywordStats: "id",
+      })
+      .upgrade(async (tx) => {
+        const chunks: DocumentChunk[] = await tx.table("documentChunks").toArray();
+        const postings: KeywordPosting[] = [];
+        let chunkCount = 0;
+        let totalLength = 0;
+        for (const chunk of chunks) {
+          const { frequencies, length } = getTermFrequencies(chunk.content);
+          if (length === 0) continue;
+          chunkCount++;
+          totalLength += length;
+          Object.keys(frequencies).forEach((term) => {
+            postings.push({
+              term,
+              chunkId: chunk.id,
+              documentId: chunk.documentId,
+              frequency: frequencies[term],
+              chunkLength: length,
+            });
+          });
+        }
+        await tx.table("keywordIndex").bulkAdd(postings);
+        await tx
+          .table("keywordStats")
+          .put({ id: "corpus", chunkCount, totalLength });
+      });
+
+    // Documents can be grouped in collections; existing ones stay unfiled
+    this.version(8).stores({
+      userDocuments: "id, type, collectionId, createdAt",
+      documentChunks: "id, documentId, collectionId, chunkIndex, createdAt",
+      collections: "id, name, createdAt",
+    });
+
+    // Workflows used to live in memory only
+    this.version(9).stores({
+      workflows: "id, templateId, status, createdAt",
+      workflowTemplates: "id, name, createdAt",
+      workflowRuns: "id, workflowId, status, startedAt",
+    });
+
+    // Workflow templates refer to agents by slug. Steps made in the builder
+    // before slugs existed referred to agents by ID.
+    this.version(10)
+      .stores({
+        agents: "id, &slug, isActive, createdAt",
+      })
+      .upgrade(async (tx) => {
+        const agents: Agent[] = await tx.table("agents").orderBy("createdAt").toArray();
+        const slugs: Record<string, string> = {};
+        for (const agent of agents) {
+          const slug = uniqueSlug(slugify(agent.name) || "agent", Object.keys(slugs).map((id) => slugs[id]));
+          slugs[agent.id] = slug;
+          await tx.table("agents").update(agent.id, { slug });
+        }
+        for (const table of ["workflows", "workflowTemplates"]) {
+          await tx
+            .table(table)
+            .toCollection()
+            .modify((item: { steps: { agentId: string }[] }) => {
+              item.steps.forEach((step) => {
+                step.agentId = slugs[step.agentId] ?? step.agentId;
+              });
+            });
+        }
+      });
+
+    this.version(11).stores({
+      workflowSchedules: "id, templateId, nextRunAt",
+    });
+
+    // Chunks record what made their embeddings. Existing ones are checked
+    // for simple embeddings; others count as embedded differently until
+    // re-embedded.
+    this.version(12)
+      .stores({
+        documentChunks:
+          "id, documentId, collectionId, chunkIndex, createdAt, [embeddingProvider+embeddingModel+embeddingDimensions]",
+      })
+      .upgrade(async (tx) => {
+        await tx.table("documentChunks").toCollection().modify(setInferredSignature);
+      });
+
+    // An empty collection scope now searches nothing, agents saved it for
+    // every document
+    this.version(13).upgrade(async (tx) => {
+      await tx
+        .table("agents")
+        .toCollection()
+        .modify((agent: Agent) => {
+          if (agent.collectionIds?.length === 0) delete agent.collectionIds;
+        });
+    });
+
+    // Only repairs chunks written by the first release of version 12, which
+    // marked every existing chunk unknown instead of inferring the signature.
+    // They are found through the signature index, so databases upgraded
+    // since are not scanned again.
+    this.version(14).upgrade(async (tx) => {
+      await tx
+        .table("documentChunks")
+        .where("[embeddingProvider+embeddingModel+embeddingDimensions]")
+        .between(["unknown", "unknown", Dexie.minKey], ["unknown", "unknown", Dexie.maxKey])
+        .modify(setInferredSignature);
+    });
+
+    // Terms named like Object.prototype members, such as "constructor", were
+    // counted from the inherited member and saved with a string frequency
+    this.version(15).upgrade(async (tx) => {
+      const postings = tx.table("keywordIndex");
+      const broken: KeywordPosting[] = await postings
+        .filter((posting: KeywordPosting) => typeof posting.frequency !== "number")
+        .toArray();
+      for (const posting of broken) {
+        const chunk: DocumentChunk | undefined = await tx.table("documentChunks").get(posting.chunkId);
+        const frequency = chunk ? getTermFrequencies(chunk.content).frequencies[posting.term] : undefined;
+        if (frequency) {
+          await postings.put({ ...posting, frequency });
+        } else {
+          await postings.delete([posting.term, posting.chunkId]);
+        }
+      }
+    });
+
     this.on("populate", async () => {
-      db.settings.add({
-        id: "general",
+      const profile = profileFromLegacySettings({
         openAiModel: config.defaultModel,
         openAiApiType: config.defaultType,
         openAiApiAuth: config.defaultAuth,
@@ -150,6 +470,11 @@ export class Database extends Dexie {
         ...(config.defaultBase != '' && { openAiApiBase: config.defaultBase }),
         ...(config.defaultVersion != '' && { openAiApiVersion: config.defaultVersion }),
       });
+      db.settings.add({
+        id: "general",
+        providerProfiles: [profile],
+        defaultProviderId: profile.id,
+      });
 
       // Initialize default agents
       await this.initializeDefaultAgents();
@@ -159,13 +484,16 @@ export class Database extends Dexie {
   private async initializeDefaultAgents() {
     const defaultAgents: Omit<Agent, 'id' | 'createdAt' | 'updatedAt'>[] = [
       {
+        slug: "research-assistant",
         name: "Research Assistant",
         description: "Specialized in research, analysis, and information gathering",
         systemPrompt: "You are a research assistant. Your role is to help users find, analyze, and synthesize information from various sources. Always provide well-researched, accurate information with proper citations when possible.",
         capabilities: ["research", "analysis", "synthesis", "citation"],
+        tools: ["search_knowledge_base", "current_datetime"],
         isActive: true,
       },
       {
+        slug: "writing-coach",
         name: "Writing Coach",
         description: "Expert in writing, editing, and content creation",
         systemPrompt: "You are a writing coach and editor. Help users improve their writing by providing constructive feedback, suggestions for clarity and style, and guidance on structure and flow.",
@@ -173,13 +501,16 @@ export class Database extends Dexie {
         isActive: true,
       },
       {
+        slug: "code-assistant",
         name: "Code Assistant",
         description: "Specialized in programming, debugging, and technical solutions",
         systemPrompt: "You are a programming assistant. Help users write, debug, and optimize code. Provide clear explanations, best practices, and practical solutions for technical problems.",
         capabilities: ["programming", "debugging", "optimization", "best-practices"],
+        tools: ["calculator", "inspect_document"],
         isActive: true,
       },
       {
+        slug: "creative-partner",
         name: "Creative Partner",
         description: "Focused on creative ideation, brainstorming, and artistic projects",
         systemPrompt: "You are a creative partner. Help users brainstorm ideas, develop creative concepts, and explore artistic and innovative solutions. Encourage out-of-the-box thinking.",
@@ -1,4 +1,5 @@
 import {
+  ActionIcon,
   Box,
   Button,
   Card,
@@ -6,6 +7,7 @@ import {
   Flex,
   Group,
   MediaQuery,
+  Progress,
   Select,
   SimpleGrid,
   Skeleton,
@@ -14,61 +16,122 @@ import {
   Textarea,
   Badge,
   Text,
+  Tooltip,
 } from "@mantine/core";
 import { notifications } from "@mantine/notifications";
 import { useLiveQuery } from "dexie-react-hooks";
 import { nanoid } from "nanoid";
-import { KeyboardEvent, useState, type ChangeEvent, useEffect } from "react";
+import { IconAdjustments, IconPlayerStop } from "@tabler/icons-react";
+import {
+  KeyboardEvent,
+  useState,
+  type ChangeEvent,
+  useMemo,
+} from "react";
 import { AiOutlineSend } from "react-icons/ai";
+import { ChatSettingsDrawer } from "../components/ChatSettingsDrawer";
 import { MessageItem } from "../components/MessageItem";
-import { db, Agent } from "../db";
+import { RagStatusBadge } from "../components/RagStatusBadge";
+import { db, Chat, Message, MessageSource } from "../db";
 import { useChatId } from "../hooks/useChatId";
 import { config } from "../utils/config";
 import {
+  ChatCompletionStream,
   createChatCompletion,
   createStreamChatCompletion,
 } from "../utils/openai";
-import { getRelevantContext } from "../utils/rag";
+import { ChatMessage, getProviderProfile } from "../utils/providers";
+import { getActivePath, getLatestLeaf, getSiblings } from "../utils/messageTree";
+import { getCitedContext } from "../utils/rag";
+import {
+  countMessageTokens,
+  fitToContextWindow,
+  getContextWindow,
+  getSummaryMessage,
+  summarizeMessages,
+} from "../utils/tokenBudget";
 import { trackUserPreferences } from "../utils/learning";
+import { getTools } from "../utils/tools";
+
+const CONTINUE_PROMPT =
+  "Continue exactly where your previous answer stopped. Do not repeat anything you already wrote.";
+
+function toRequestMessage(message: Message): ChatMessage {
+  return {
+    role: message.role,
+    content: message.content,
+  };
+}
+
+function showError(error: any) {
+  if (error.toJSON?.().message === "Network Error") {
+    notifications.show({
+      title: "Error",
+      color: "red",
+      message: "No internet connection.",
+    });
+    return;
+  }
+  const message = error.response?.data?.error?.message ?? error.message;
+  if (message) {
+    notifications.show({
+      title: "Error",
+      color: "red",
+      message,
+    });
+  }
+}
 
 export function ChatRoute() {
   const chatId = useChatId();
-  const apiKey = useLiveQuery(async () => {
-    return (await db.settings.where({ id: "general" }).first())?.openAiApiKey;
-  });
   const messages = useLiveQuery(() => {
     if (!chatId) return [];
     return db.messages.where("chatId").equals(chatId).sortBy("createdAt");
   }, [chatId]);
-  const userMessages =
-    messages
-      ?.filter((message) => message.role === "user")
-      .map((message) => message.content) || [];
   const [userMsgIndex, setUserMsgIndex] = useState(0);
   const [content, setContent] = useState("");
   const [contentDraft, setContentDraft] = useState("");
   const [submitting, setSubmitting] = useState(false);
+  const [stream, setStream] = useState<ChatCompletionStream | null>(null);
 
   const chat = useLiveQuery(async () => {
     if (!chatId) return null;
     return db.chats.get(chatId);
   }, [chatId]);
 
-  // Agent selection
+  // Only the active branch of the message tree is shown and sent as history
+  const path = useMemo(
+    () => getActivePath(messages ?? [], chat?.activeLeafId),
+    [messages, chat?.activeLeafId]
+  );
+  const userMessages = path
+    .filter((message) => message.role === "user")
+    .map((message) => message.content);
+
+  // Agent, RAG and writing options are stored on the chat so reopening it
+  // restores them
   const agents = useLiveQuery(() => db.agents.where('isActive').equals(true).toArray());
-  const [selectedAgent, setSelectedAgent] = useState<Agent | null>(null);
-  const [useRAG, setUseRAG] = useState(true);
+  const selectedAgent = agents?.find((agent) => agent.id === chat?.agentId);
+  const useRAG = chat?.useRAG ?? true;
+  const collectionIds = chat?.collectionIds ?? selectedAgent?.collectionIds;
+  const writingCharacter = chat?.writingCharacter ?? null;
+  const writingTone = chat?.writingTone ?? null;
+  const writingStyle = chat?.writingStyle ?? null;
+  const writingFormat = chat?.writingFormat ?? null;
+  const [settingsOpened, setSettingsOpened] = useState(false);
 
-  const [writingCharacter, setWritingCharacter] = useState<string | null>(null);
-  const [writingTone, setWritingTone] = useState<string | null>(null);
-  const [writingStyle, setWritingStyle] = useState<string | null>(null);
-  const [writingFormat, setWritingFormat] = useState<string | null>(null);
+  const updateChat = (changes: Partial<Chat>) => {
+    if (!chatId) return;
+    return db.chats.update(chatId, changes);
+  };
 
   const getSystemMessage = () => {
     const message: string[] = [];
     
-    // Use selected agent's system prompt if available
-    if (selectedAgent) {
+    if (chat?.systemPrompt) {
+      message.push(chat.systemPrompt);
+    } else if (selectedAgent) {
+      // Use selected agent's system prompt if available
       message.push(selectedAgent.systemPrompt);
     } else {
       if (writingCharacter) message.push(`You are ${writingCharacter}.`);
@@ -87,86 +150,202 @@ export function ChatRoute() {
   const settings = useLiveQuery(async () => {
     return db.settings.where({ id: "general" }).first();
   });
-  const [model, setModel] = useState(config.defaultModel);
-  useEffect(() => {
-    if (settings?.openAiModel) {
-      setModel(settings.openAiModel);
+  // The chat's own provider wins over the agent's, then the default profile
+  const providerId = chat?.providerId ?? selectedAgent?.providerId;
+  const profile = getProviderProfile(settings, providerId);
+  const model = chat?.model ?? profile?.model ?? config.defaultModel;
+  const completionOptions = {
+    providerId,
+    model,
+    temperature: chat?.temperature,
+    topP: chat?.topP,
+    maxTokens: chat?.maxTokens,
+    tools: selectedAgent?.tools && getTools(selectedAgent.tools),
+    toolContext: { collectionIds },
+  };
+
+  const getRequestMessages = async (
+    history: Message[],
+    query: string,
+    followUp: ChatMessage[] = []
+  ): Promise<{ messages: ChatMessage[]; sources: MessageSource[] }> => {
+    // Get RAG context if enabled
+    let contextMessage = "";
+    let sources: MessageSource[] = [];
+    if (useRAG) {
+      const relevantContext = await getCitedContext(query, 3, collectionIds);
+      if (relevantContext.context) {
+        contextMessage = `\n\nRelevant context from your knowledge base:\n${relevantContext.context}\n\nPlease use this context to provide a more informed response. When you use a passage, cite its number in square brackets, e.g. [1].`;
+        sources = relevantContext.sources;
+      }
     }
-  });
 
-  const submit = async () => {
-    if (submitting) return;
+    const systemMessage = getSystemMessage();
+    const enhancedSystemMessage = contextMessage
+      ? `${systemMessage}\n\n${contextMessage}`
+      : systemMessage;
+
+    // Turns already folded into the rolling summary are replaced by it
+    const summaryIndex = chat?.summaryUpToId
+      ? history.findIndex((message) => message.id === chat.summaryUpToId)
+      : -1;
+    let summary = summaryIndex >= 0 ? chat?.summary : undefined;
+    let turns = history.slice(summaryIndex + 1);
+
+    const build = (): ChatMessage[] => [
+      {
+        role: "system",
+        content: enhancedSystemMessage,
+      },
+      ...(summary ? [getSummaryMessage(summary)] : []),
+      ...turns.map(toRequestMessage),
+      ...followUp,
+    ];
+
+    let budget = fitToContextWindow(build(), model, chat?.maxTokens);
+    const droppedCount = Math.min(budget.droppedCount, turns.length);
+    if (droppedCount > 0 && settings?.contextStrategy === "summarize") {
+      const dropped = turns.slice(0, droppedCount);
+      const result = await summarizeMessages(
+        providerId,
+        summary,
+        dropped.map(toRequestMessage)
+      );
+      summary = result.summary;
+      turns = turns.slice(droppedCount);
+
+      await db.chats.where({ id: chatId }).modify((chat) => {
+        chat.summary = result.summary;
+        chat.summaryUpToId = dropped[dropped.length - 1].id;
+        if (result.usage) {
+          chat.totalTokens = (chat.totalTokens ?? 0) + result.usage.totalTokens;
+        }
+      });
+
+      budget = fitToContextWindow(build(), model, chat?.maxTokens);
+    }
+
+    return { messages: budget.messages, sources };
+  };
+
+  const addAssistantMessage = async (parentId: string) => {
+    const messageId = nanoid();
+    await db.messages.add({
+      id: messageId,
+      chatId: chatId!,
+      parentId,
+      content: "█",
+      role: "assistant",
+      createdAt: new Date(),
+    });
+    await db.chats.update(chatId!, { activeLeafId: messageId });
+    return messageId;
+  };
+
+  // Take back the cursor of a reply that failed or got no content: a new
+  // reply is removed, a continued one gets its content back
+  const discardCursor = async (messageId: string, prefix: string) => {
+    if (prefix) {
+      await db.messages.update(messageId, { content: prefix });
+      return;
+    }
+    const message = await db.messages.get(messageId);
+    await db.messages.delete(messageId);
+    await db.chats.update(chatId!, {
+      activeLeafId: message?.parentId ?? undefined,
+    });
+  };
 
+  // The request is built once the cursor shows, as retrieval can take a while
+  const streamReply = async (
+    getRequest: () => Promise<{
+      messages: ChatMessage[];
+      sources: MessageSource[];
+    }>,
+    messageId: string,
+    prefix: string = ""
+  ) => {
+    let handle: ChatCompletionStream;
+    try {
+      const request = await getRequest();
+      // A continued reply keeps the sources its first part cited
+      if (!prefix) {
+        await db.messages.update(messageId, { sources: request.sources });
+      }
+      handle = await createStreamChatCompletion(
+        request.messages,
+        chatId!,
+        messageId,
+        { ...completionOptions, prefix }
+      );
+    } catch (error) {
+      await discardCursor(messageId, prefix);
+      throw error;
+    }
+    setStream(handle);
+    // A failed reply, or one stopped before its first token, would stay in
+    // the history as an empty turn that providers reject
+    let content: string;
+    try {
+      content = await handle.done;
+    } catch (error) {
+      await discardCursor(messageId, prefix);
+      throw error;
+    } finally {
+      setStream(null);
+    }
+    if (content === prefix) {
+      await discardCursor(messageId, prefix);
+    }
+    return content;
+  };
+
+  const canSubmit = () => {
     if (!chatId) {
       notifications.show({
         title: "Error",
         color: "red",
         message: "chatId is not defined. Please create a chat to get started.",
       });
-      return;
+      return false;
     }
 
-    if (!apiKey) {
+    if (!profile) {
       notifications.show({
         title: "Error",
         color: "red",
-        message: "OpenAI API Key is not defined. Please set your API Key",
+        message: "No model provider is configured. Please add one in Settings",
       });
-      return;
+      return false;
     }
 
+    return true;
+  };
+
+  const submit = async () => {
+    if (submitting || !canSubmit() || !chatId) return;
+
     try {
       setSubmitting(true);
 
       // Track user preferences
       await trackUserPreferences(chatId, content);
 
-      await db.messages.add({
+      const userMessage: Message = {
         id: nanoid(),
         chatId,
+        parentId: path[path.length - 1]?.id ?? null,
         content,
         role: "user",
         createdAt: new Date(),
-      });
+      };
+      await db.messages.add(userMessage);
       setContent("");
 
-      const messageId = nanoid();
-      await db.messages.add({
-        id: messageId,
-        chatId,
-        content: "█",
-        role: "assistant",
-        createdAt: new Date(),
-      });
+      const messageId = await addAssistantMessage(userMessage.id);
 
-      // Get RAG context if enabled
-      let contextMessage = "";
-      if (useRAG) {
-        const relevantContext = await getRelevantContext(content);
-        if (relevantContext) {
-          contextMessage = `\n\nRelevant context from your knowledge base:\n${relevantContext}\n\nPlease use this context to provide a more informed response.`;
-        }
-      }
-
-      const systemMessage = getSystemMessage();
-      const enhancedSystemMessage = contextMessage 
-        ? `${systemMessage}\n\n${contextMessage}`
-        : systemMessage;
-
-      await createStreamChatCompletion(
-        apiKey,
-        [
-          {
-            role: "system",
-            content: enhancedSystemMessage,
-          },
-          ...(messages ?? []).map((message) => ({
-            role: message.role,
-            content: message.content,
-          })),
-          { role: "user", content },
-        ],
-        chatId,
+      await streamReply(
+        () => getRequestMessages([...path, userMessage], content),
         messageId
       );
 
@@ -176,57 +355,171 @@ export function ChatRoute() {
         const messages = await db.messages
           .where({ chatId })
           .sortBy("createdAt");
-        const createChatDescription = await createChatCompletion(apiKey, [
-          {
-            role: "system",
-            content: getSystemMessage(),
-          },
-          ...(messages ?? []).map((message) => ({
-            role: message.role,
-            content: message.content,
-          })),
-          {
-            role: "user",
-            content:
-              "What would be a short and relevant title for this chat ? You must strictly answer with only the title, no other text is allowed.",
-          },
-        ]);
-        const chatDescription =
-          createChatDescription.data.choices[0].message?.content;
-
-        if (createChatDescription.data.usage) {
-          await db.chats.where({ id: chatId }).modify((chat) => {
-            chat.description = chatDescription ?? "New Chat";
-            if (chat.totalTokens) {
-              chat.totalTokens +=
-                createChatDescription.data.usage!.total_tokens;
-            } else {
-              chat.totalTokens = createChatDescription.data.usage!.total_tokens;
-            }
-          });
-        }
-      }
-    } catch (error: any) {
-      if (error.toJSON().message === "Network Error") {
-        notifications.show({
-          title: "Error",
-          color: "red",
-          message: "No internet connection.",
-        });
-      }
-      const message = error.response?.data?.error?.message;
-      if (message) {
-        notifications.show({
-          title: "Error",
-          color: "red",
-          message,
+        const createChatDescription = await createChatCompletion(
+          [
+            {
+              role: "system",
+              content: getSystemMessage(),
+            },
+            ...(messages ?? []).map((message) => ({
+              role: message.role,
+              content: message.content,
+            })),
+            {
+              role: "user",
+              content:
+                "What would be a short and relevant title for this chat ? You must strictly answer with only the title, no other text is allowed.",
+            },
+          ],
+          { providerId, model }
+        );
+        const chatDescription = createChatDescription.content;
+
+        await db.chats.where({ id: chatId }).modify((chat) => {
+          chat.description = chatDescription || "New Chat";
+          if (createChatDescription.usage) {
+            chat.totalTokens =
+              (chat.totalTokens ?? 0) + createChatDescription.usage.totalTokens;
+          }
         });
       }
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const editAndResend = async (message: Message, newContent: string) => {
+    if (submitting || !canSubmit() || !chatId) return;
+
+    const index = path.findIndex((m) => m.id === message.id);
+    const userMessage: Message = {
+      id: nanoid(),
+      chatId,
+      parentId: message.parentId ?? null,
+      content: newContent,
+      role: "user",
+      createdAt: new Date(),
+    };
+
+    try {
+      setSubmitting(true);
+      await db.messages.add(userMessage);
+      const messageId = await addAssistantMessage(userMessage.id);
+      await streamReply(
+        () =>
+          getRequestMessages(
+            [...path.slice(0, index), userMessage],
+            newContent
+          ),
+        messageId
+      );
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const regenerate = async (message: Message) => {
+    if (submitting || !canSubmit() || !message.parentId) return;
+
+    const index = path.findIndex((m) => m.id === message.id);
+    const history = path.slice(0, index);
+    const query =
+      [...history].reverse().find((m) => m.role === "user")?.content ?? "";
+
+    try {
+      setSubmitting(true);
+      const messageId = await addAssistantMessage(message.parentId);
+      await streamReply(() => getRequestMessages(history, query), messageId);
+    } catch (error: any) {
+      showError(error);
     } finally {
       setSubmitting(false);
     }
   };
 
+  const switchBranch = async (message: Message, offset: number) => {
+    if (!chatId || !messages) return;
+
+    const siblings = getSiblings(messages, message);
+    const target = siblings[siblings.indexOf(message) + offset];
+    if (!target) return;
+
+    const leaf = getLatestLeaf(messages, target.id);
+    await db.chats.update(chatId, { activeLeafId: leaf?.id ?? target.id });
+  };
+
+  const continueReply = async (message: Message) => {
+    if (submitting || !canSubmit()) return;
+
+    const index = path.findIndex((m) => m.id === message.id);
+    const history = path.slice(0, index + 1);
+    const query =
+      [...history].reverse().find((m) => m.role === "user")?.content ?? "";
+
+    try {
+      setSubmitting(true);
+      await db.messages.update(message.id, { content: message.content + "█" });
+      await streamReply(
+        () =>
+          getRequestMessages(history, query, [
+            { role: "user", content: CONTINUE_PROMPT },
+          ]),
+        message.id,
+        message.content
+      );
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const lastMessage = path[path.length - 1];
+
+  // Recounted once a reply settles rather than on every streamed token
+  const contextUsage = useMemo(() => {
+    const summaryIndex = chat?.summaryUpToId
+      ? path.findIndex((message) => message.id === chat.summaryUpToId)
+      : -1;
+    const summary = summaryIndex >= 0 ? chat?.summary : undefined;
+    const used = countMessageTokens([
+      { role: "system", content: getSystemMessage() },
+      ...(summary ? [getSummaryMessage(summary)] : []),
+      ...path.slice(summaryIndex + 1).map(toRequestMessage),
+    ]);
+    const contextWindow = getContextWindow(model);
+    return { used, contextWindow, percent: (used / contextWindow) * 100 };
+  }, [
+    submitting,
+    // The leaf changes with the branch, but not while a reply streams in
+    path[path.length - 1]?.id,
+    path.length,
+    model,
+    chat?.summary,
+    chat?.summaryUpToId,
+    chat?.systemPrompt,
+    selectedAgent,
+    writingCharacter,
+    writingTone,
+    writingStyle,
+    writingFormat,
+  ]);
+
+  const getBranch = (message: Message) => {
+    const siblings = getSiblings(messages ?? [], message);
+    if (siblings.length < 2) return undefined;
+    return {
+      index: siblings.indexOf(message),
+      count: siblings.length,
+      onPrevious: () => switchBranch(message, -1),
+      onNext: () => switchBranch(message, 1),
+    };
+  };
+
   const onUserMsgToggle = (event: KeyboardEvent<HTMLTextAreaElement>) => {
     const { selectionStart, selectionEnd } = event.currentTarget;
     if (
@@ -265,11 +558,25 @@ export function ChatRoute() {
     <>
       <Container pt="xl" pb={100}>
         <Stack spacing="xs">
-          {messages?.map((message) => (
-            <MessageItem key={message.id} message={message} />
+          {path.map((message) => (
+            <MessageItem
+              key={message.id}
+              message={message}
+              branch={getBranch(message)}
+              disabled={submitting}
+              {...(message.role === "user" && {
+                onEdit: (content: string) => editAndResend(message, content),
+              })}
+              {...(message === lastMessage &&
+                message.role === "assistant" &&
+                !submitting && {
+                  onRegenerate: () => regenerate(message),
+                  onContinue: () => continueReply(message),
+                })}
+            />
           ))}
         </Stack>
-        {submitting && (
+        {submitting && !stream && (
           <Card withBorder mt="xs">
             <Skeleton height={8} radius="xl" />
             <Skeleton height={8} mt={6} radius="xl" />
@@ -295,7 +602,7 @@ export function ChatRoute() {
               : theme.colors.gray[0],
         })}
       >
-        {messages?.length === 0 &&
+        {messages?.length === 0 && profile?.type === "openai" &&
           <Group position="center" my={40}>
             <SegmentedControl
               value={model}
@@ -311,48 +618,32 @@ export function ChatRoute() {
                 { label: 'GPT-4', value: 'gpt-4' },
                 { label: 'GPT-4o', value: 'gpt-4o' }
               ]}
-              onChange={async (value: 'gpt-3.5-turbo' | 'gpt-4') => {
-                const model = value;
-                try {
-                  await db.settings.update("general", {
-                    openAiModel: model ?? undefined,
-                  });
-                  notifications.show({
-                    title: "Saved",
-                    message: "Your OpenAI Model has been saved.",
-                  });
-                } catch (error: any) {
-                  if (error.toJSON().message === "Network Error") {
-                    notifications.show({
-                      title: "Error",
-                      color: "red",
-                      message: "No internet connection.",
-                    });
-                  }
-                  const message = error.response?.data?.error?.message;
-                  if (message) {
-                    notifications.show({
-                      title: "Error",
-                      color: "red",
-                      message,
-                    });
-                  }
-                }
-              }}
+              onChange={(model) => updateChat({ model })}
             />
           </Group>
         }
         <Container>
           {messages?.length === 0 && (
             <Stack spacing="xs">
-              {/* Agent and RAG Controls */}
+              {/* Provider, Agent and RAG Controls */}
               <Group spacing="xs">
+                <Select
+                  value={profile?.id ?? null}
+                  onChange={(value) =>
+                    updateChat({ providerId: value ?? undefined, model: undefined })
+                  }
+                  data={(settings?.providerProfiles ?? []).map((p) => ({
+                    value: p.id,
+                    label: p.name,
+                  }))}
+                  placeholder="Provider"
+                  variant="filled"
+                />
                 <Select
                   value={selectedAgent?.id || ''}
-                  onChange={(value) => {
-                    const agent = agents?.find(a => a.id === value);
-                    setSelectedAgent(agent || null);
-                  }}
+                  onChange={(value) =>
+                    updateChat({ agentId: value || undefined })
+                  }
                   data={agents?.map(agent => ({ value: agent.id, label: agent.name })) || []}
                   placeholder="Select Agent (Optional)"
                   variant="filled"
@@ -363,7 +654,7 @@ export function ChatRoute() {
                 <Button
                   variant={useRAG ? "filled" : "outline"}
                   size="sm"
-                  onClick={() => setUseRAG(!useRAG)}
+                  onClick={() => updateChat({ useRAG: !useRAG })}
                   color={useRAG ? "blue" : "gray"}
                 >
                   RAG {useRAG ? "ON" : "OFF"}
@@ -394,7 +685,9 @@ export function ChatRoute() {
               >
                 <Select
                   value={writingCharacter}
-                  onChange={setWritingCharacter}
+                  onChange={(value) =>
+                    updateChat({ writingCharacter: value ?? undefined })
+                  }
                   data={config.writingCharacters}
                   placeholder="Character"
                   variant="filled"
@@ -404,7 +697,9 @@ export function ChatRoute() {
                 />
                 <Select
                   value={writingTone}
-                  onChange={setWritingTone}
+                  onChange={(value) =>
+                    updateChat({ writingTone: value ?? undefined })
+                  }
                   data={config.writingTones}
                   placeholder="Tone"
                   variant="filled"
@@ -414,7 +709,9 @@ export function ChatRoute() {
                 />
                 <Select
                   value={writingStyle}
-                  onChange={setWritingStyle}
+                  onChange={(value) =>
+                    updateChat({ writingStyle: value ?? undefined })
+                  }
                   data={config.writingStyles}
                   placeholder="Style"
                   variant="filled"
@@ -424,7 +721,9 @@ export function ChatRoute() {
                 />
                 <Select
                   value={writingFormat}
-                  onChange={setWritingFormat}
+                  onChange={(value) =>
+                    updateChat({ writingFormat: value ?? undefined })
+                  }
                   data={config.writingFormats}
                   placeholder="Format"
                   variant="filled"
@@ -461,19 +760,74 @@ export function ChatRoute() {
                 }
               }}
             />
-            <MediaQuery largerThan="sm" styles={{ display: "none" }}>
+            <Tooltip label="Chat settings">
+              <ActionIcon
+                size="lg"
+                variant="default"
+                sx={{ alignSelf: "center" }}
+                onClick={() => setSettingsOpened(true)}
+              >
+                <IconAdjustments size={18} />
+              </ActionIcon>
+            </Tooltip>
+            {stream ? (
               <Button
                 h="auto"
-                onClick={() => {
-                  submit();
-                }}
+                color="red"
+                variant="light"
+                leftIcon={<IconPlayerStop size={16} />}
+                onClick={() => stream.abort()}
               >
-                <AiOutlineSend />
+                Stop
               </Button>
-            </MediaQuery>
+            ) : (
+              <MediaQuery largerThan="sm" styles={{ display: "none" }}>
+                <Button
+                  h="auto"
+                  onClick={() => {
+                    submit();
+                  }}
+                >
+                  <AiOutlineSend />
+                </Button>
+              </MediaQuery>
+            )}
           </Flex>
+          {(path.length > 0 || useRAG) && (
+            <Group spacing="xs" mt={6} noWrap>
+              {path.length > 0 && (
+                <>
+                  <Text size="xs" color="dimmed" sx={{ whiteSpace: "nowrap" }}>
+                    Context: {contextUsage.used.toLocaleString()} /{" "}
+                    {contextUsage.contextWindow.toLocaleString()} tokens
+                  </Text>
+                  <Progress
+                    size="xs"
+                    sx={{ flex: 1 }}
+                    value={Math.min(contextUsage.percent, 100)}
+                    color={
+                      contextUsage.percent > 90
+                        ? "red"
+                        : contextUsage.percent > 75
+                        ? "yellow"
+                        : "teal"
+                    }
+                  />
+                </>
+              )}
+              {useRAG && <RagStatusBadge />}
+            </Group>
+          )}
         </Container>
       </Box>
+      {chat && (
+        <ChatSettingsDrawer
+          key={chat.id}
+          chat={chat}
+          opened={settingsOpened}
+          onClose={() => setSettingsOpened(false)}
+        />
+      )}
     </>
   );
 }
@@ -23,7 +23,7 @@ import { config } from "../utils/config";
 
 export function IndexRoute() {
   const settings = useLiveQuery(() => db.settings.get("general"));
-  const { openAiApiKey } = settings ?? {};
+  const hasProvider = !!settings?.providerProfiles?.length;
 
   return (
     <>
@@ -61,10 +61,10 @@ export function IndexRoute() {
               <SettingsModal>
                 <Button
                   size="md"
-                  variant={openAiApiKey ? "light" : "filled"}
+                  variant={hasProvider ? "light" : "filled"}
                   leftIcon={<IconKey size={20} />}
                 >
-                  {openAiApiKey ? "Change OpenAI Key" : "Enter OpenAI Key"}
+                  {hasProvider ? "Manage Providers" : "Add a Provider"}
                 </Button>
               </SettingsModal>
             )}
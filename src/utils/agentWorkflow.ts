@@ -1,13 +1,108 @@
-import { Agent, db } from '../db';
+import { Agent, db, UserDocument } from '../db';
+import { CollaborationEvent } from './collaboration';
 import { createChatCompletion } from './openai';
+import { ChatUsage, ProviderError } from './providers';
+import { queryJsonPath } from './jsonPath';
+import { deleteDocumentChunks, getRelevantContext, processDocument } from './rag';
+import { getTools } from './tools';
+import { getRequestSettings, REQUEST_METHODS, sendWorkflowRequest, WorkflowRequestError } from './workflowRequest';
 
-export interface WorkflowStep {
+// Tests a piece of text. A regex condition gives "true" or "false", an LLM
+// condition gives the label the model picked.
+export interface WorkflowCondition {
+  type: 'regex' | 'llm';
+  pattern?: string;
+  flags?: string;
+  labels?: string[]; // ["yes", "no"] by default
+  instructions?: string; // what the model should decide
+}
+
+// Run a step only when another step's output equals a value
+export interface WorkflowBranch {
+  stepId: string;
+  equals: string;
+}
+
+// Repeat a step until its output meets a condition
+export interface WorkflowLoop {
+  until: WorkflowCondition;
+  equals?: string; // "true" for regex and the first label for LLM conditions by default
+  maxIterations: number;
+}
+
+// Search the knowledge base, with the step's input as the query
+export interface WorkflowRetrieval {
+  maxChunks?: number; // 3 by default
+  collectionIds?: string[]; // every document by default, none when empty
+}
+
+// Save the step's input as a new document in the knowledge base
+export interface WorkflowDocumentOutput {
+  title: string; // may contain placeholders, like the input
+  collectionId?: string;
+}
+
+// Call a web service, with the step's input as the body. The URL and header
+// values may contain placeholders, and {secrets.<name>} for the secrets set
+// in the settings.
+export interface WorkflowHttpRequest {
+  method: typeof REQUEST_METHODS[number];
+  url: string;
+  headers?: Record<string, string>;
+  extract?: string; // JSONPath into a JSON response, the whole body by default
+}
+
+// Kinds of failure a step can be retried on. Validation errors are the
+// request's own fault, so retrying them only bills the same mistake again.
+export type WorkflowErrorKind = 'rate_limit' | 'server' | 'network' | 'timeout' | 'validation';
+
+export interface WorkflowRetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number; // doubled after every failed attempt
+  retryOn: WorkflowErrorKind[];
+}
+
+export const DEFAULT_RETRY_POLICY: WorkflowRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 2000,
+  retryOn: ['rate_limit', 'server', 'network'],
+};
+
+// Longest wait between two attempts
+const MAX_RETRY_DELAY = 60000;
+
+// How a step is wired into the graph, shared by templates and workflows
+export interface WorkflowStepOptions {
+  // Approval steps wait for a person to approve, edit or reject their input.
+  // Retrieval and document steps read from and write to the knowledge base.
+  type?: 'agent' | 'condition' | 'approval' | 'retrieval' | 'document' | 'http';
+  dependsOn?: string[]; // step IDs that must finish first, besides the referenced ones
+  condition?: WorkflowCondition; // condition steps only
+  retrieval?: WorkflowRetrieval; // retrieval steps only
+  document?: WorkflowDocumentOutput; // document steps only
+  http?: WorkflowHttpRequest; // http steps only
+  when?: WorkflowBranch;
+  loop?: WorkflowLoop;
+  retry?: Partial<WorkflowRetryPolicy>; // merged over DEFAULT_RETRY_POLICY
+  timeoutMs?: number; // per attempt
+}
+
+export interface WorkflowStep extends WorkflowStepOptions {
   id: string;
-  agentId: string;
-  input: string;
+  agentId: string; // the agent's slug, empty for steps without an agent
+  input: string; // may contain {variable}, {previous_output} and {steps.<id>.output} placeholders
+  resolvedInput?: string; // input actually sent to the agent
   output?: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'awaiting_approval' | 'completed' | 'skipped' | 'failed';
   error?: string;
+  attempts?: number;
+  iterations?: number;
+  reviews?: WorkflowReview[]; // approval steps only
+  feedback?: string; // from a rejected review, sent with the step's next attempt
+  documentId?: string; // document steps only, the document saved by the run
+  startedAt?: Date;
+  completedAt?: Date;
+  usage?: ChatUsage;
   metadata?: Record<string, any>;
 }
 
@@ -15,23 +110,121 @@ export interface AgentWorkflow {
   id: string;
   name: string;
   description: string;
+  templateId?: string;
+  variables: Record<string, string>;
   steps: WorkflowStep[];
   status: 'draft' | 'active' | 'paused' | 'completed';
+  lastRunId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface WorkflowReview {
+  decision: Extract<CollaborationEvent['type'], 'approve' | 'reject'>;
+  edited?: boolean;
+  note?: string;
+  reviewedAt: Date;
+}
+
+// One execution of a workflow, kept as history
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  variables: Record<string, string>;
+  steps: WorkflowStep[];
+  status: 'running' | 'awaiting_approval' | 'paused' | 'cancelled' | 'completed' | 'failed';
+  totalTokens: number;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export type WorkflowTemplateStep = WorkflowStepOptions & {
+  id?: string; // needed for other steps to reference this one
+  agentId: string; // the agent's slug, so templates work with every database
+  inputTemplate: string;
+  description: string;
+  position?: { x: number; y: number }; // where the builder draws the step
+};
+
+// A {variable} a template asks for. Values are always stored as strings,
+// the type decides how they are entered and checked.
+export interface WorkflowVariable {
+  name: string;
+  type: 'string' | 'text' | 'number' | 'boolean' | 'select';
+  description?: string;
+  defaultValue?: string;
+  options?: string[]; // select only
+  required?: boolean; // true by default
+}
+
 export interface WorkflowTemplate {
   id: string;
   name: string;
   description: string;
-  steps: Array<{
-    agentId: string;
-    inputTemplate: string;
-    description: string;
-  }>;
+  variables?: WorkflowVariable[]; // undeclared variables are required strings
+  steps: WorkflowTemplateStep[];
+  createdAt?: Date;
+}
+
+export class WorkflowValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid workflow: ${issues.join(' ')}`);
+    this.name = 'WorkflowValidationError';
+    Object.setPrototypeOf(this, WorkflowValidationError.prototype);
+  }
+}
+
+class StepTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs / 1000}s`);
+    this.name = 'StepTimeoutError';
+    Object.setPrototypeOf(this, StepTimeoutError.prototype);
+  }
+}
+
+// What happens to a step while it runs. Only the final state of a step is
+// saved, so these are the way to follow its output as it streams in.
+export type WorkflowStepEvent =
+  | { type: 'started'; stepId: string; attempt: number }
+  | { type: 'delta'; stepId: string; content: string } // the output so far
+  | { type: 'completed'; stepId: string; output: string; usage?: ChatUsage }
+  | { type: 'failed'; stepId: string; error: string; willRetry: boolean };
+
+// Controllers of the runs in progress in this tab, used to cancel them
+const activeRuns = new Map<string, AbortController>();
+// Runs in this tab to pause before their next steps. Kept here, as the run
+// saves its workflow as active while it goes on.
+const pauseRequested = new Set<string>();
+
+const stepListeners = new Map<string, Set<(event: WorkflowStepEvent) => void>>();
+
+// Follow the steps of a workflow as they run; returns the unsubscribe function
+export function subscribeToStepEvents(workflowId: string, listener: (event: WorkflowStepEvent) => void): () => void {
+  const listeners = stepListeners.get(workflowId) ?? new Set();
+  listeners.add(listener);
+  stepListeners.set(workflowId, listeners);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stepListeners.delete(workflowId);
+  };
+}
+
+function emitStepEvent(workflowId: string, event: WorkflowStepEvent) {
+  stepListeners.get(workflowId)?.forEach(listener => listener(event));
 }
 
+// Filled in by the executor rather than by the user
+const PREVIOUS_OUTPUT = 'previous_output';
+const ITERATION = 'iteration';
+const LAST_OUTPUT = 'last_output';
+// Names have no spaces, braces or quotes, so JSON in an input, such as a
+// request body, is not mistaken for placeholders
+const PLACEHOLDER = /\{([^{}\s"']+)\}/g;
+const STEP_REFERENCE = /\{steps\.([^}]+)\.output\}/g;
+const SECRET_REFERENCE = /\{secrets\.([^}]+)\}/g;
+const SECRET_MASK = '••••••';
+
 // Predefined workflow templates
 export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
   {
@@ -85,11 +278,696 @@ export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
       },
     ],
   },
+  {
+    id: 'balanced-analysis',
+    name: 'Balanced Analysis',
+    description: 'Argue both sides of a question in parallel, then weigh them up',
+    steps: [
+      {
+        id: 'for',
+        agentId: 'research-assistant',
+        inputTemplate: 'Make the strongest case in favour of: {question}',
+        description: 'Argue in favour',
+      },
+      {
+        id: 'against',
+        agentId: 'research-assistant',
+        inputTemplate: 'Make the strongest case against: {question}',
+        description: 'Argue against',
+      },
+      {
+        id: 'verdict',
+        agentId: 'writing-coach',
+        inputTemplate:
+          'Weigh up these arguments about "{question}" and give a balanced conclusion.\n\n' +
+          'In favour:\n{steps.for.output}\n\nAgainst:\n{steps.against.output}',
+        description: 'Weigh both sides',
+      },
+    ],
+  },
+  {
+    id: 'research-knowledge-base',
+    name: 'Research into Knowledge Base',
+    description: 'Research a topic, building on your documents, and save the result as a new document',
+    steps: [
+      {
+        id: 'known',
+        type: 'retrieval',
+        agentId: '',
+        inputTemplate: '{topic}',
+        description: 'Look up your documents',
+      },
+      {
+        id: 'research',
+        agentId: 'research-assistant',
+        inputTemplate:
+          'Research the following topic thoroughly: {topic}\n\n' +
+          'Build on these notes from my documents and fill in what they miss:\n{steps.known.output}',
+        description: 'Research the topic',
+      },
+      {
+        id: 'save',
+        type: 'document',
+        agentId: '',
+        inputTemplate: '{steps.research.output}',
+        description: 'Save the research',
+        document: { title: 'Research: {topic}' },
+      },
+    ],
+  },
 ];
 
-export class WorkflowManager {
-  private workflows: Map<string, AgentWorkflow> = new Map();
+// Built-in templates followed by the ones saved by the user
+export async function getWorkflowTemplates(): Promise<WorkflowTemplate[]> {
+  const saved = await db.workflowTemplates.orderBy('createdAt').toArray();
+  return [...WORKFLOW_TEMPLATES, ...saved];
+}
+
+export async function getWorkflowTemplate(templateId: string): Promise<WorkflowTemplate | undefined> {
+  return WORKFLOW_TEMPLATES.find(t => t.id === templateId) ?? (await db.workflowTemplates.get(templateId));
+}
+
+// Steps of these types are carried out without an agent
+const STEPS_WITHOUT_AGENT: WorkflowStepOptions['type'][] = ['approval', 'retrieval', 'document', 'http'];
+
+export function usesAgent(step: WorkflowStepOptions): boolean {
+  return STEPS_WITHOUT_AGENT.indexOf(step.type) === -1;
+}
+
+// Every text of a step that may contain placeholders, its input first
+export function getStepTexts(input: string, options: WorkflowStepOptions): string[] {
+  const texts = [input];
+  if (options.document) {
+    texts.push(options.document.title);
+  }
+  if (options.http) {
+    const headers = options.http.headers ?? {};
+    texts.push(options.http.url, ...Object.keys(headers).map(name => headers[name]));
+  }
+  return texts;
+}
 
+// Variables used by a set of step inputs, in order of first use
+export function getTemplateVariables(inputs: string[]): string[] {
+  const variables = new Set<string>();
+  inputs.forEach(input => {
+    (input.match(PLACEHOLDER) ?? []).forEach(match => {
+      const variable = match.slice(1, -1);
+      if (
+        variable !== PREVIOUS_OUTPUT &&
+        variable !== ITERATION &&
+        variable !== LAST_OUTPUT &&
+        !/^steps\..+\.output$/.test(variable) &&
+        !/^secrets\..+$/.test(variable)
+      ) {
+        variables.add(variable);
+      }
+    });
+  });
+  return Array.from(variables);
+}
+
+// Declared variables of a template followed by the undeclared ones its steps use
+export function getTemplateVariableDefinitions(template: WorkflowTemplate): WorkflowVariable[] {
+  const declared = template.variables ?? [];
+  const texts = template.steps.reduce<string[]>((all, step) => all.concat(getStepTexts(step.inputTemplate, step)), []);
+  const undeclared = getTemplateVariables(texts)
+    .filter(name => !declared.some(variable => variable.name === name))
+    .map((name): WorkflowVariable => ({ name, type: 'string' }));
+  return [...declared, ...undeclared];
+}
+
+export function getDefaultVariables(definitions: WorkflowVariable[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  definitions.forEach(variable => {
+    if (variable.defaultValue !== undefined) {
+      values[variable.name] = variable.defaultValue;
+    }
+  });
+  return values;
+}
+
+// Describe the values that do not fit their variable's type
+export function validateVariableValues(definitions: WorkflowVariable[], values: Record<string, string>): string[] {
+  const issues: string[] = [];
+  definitions.forEach(variable => {
+    const value = values[variable.name]?.trim() ?? '';
+    if (!value) {
+      if (variable.required !== false) {
+        issues.push(`{${variable.name}} needs a value.`);
+      }
+      return;
+    }
+    if (variable.type === 'number' && isNaN(Number(value))) {
+      issues.push(`{${variable.name}} must be a number.`);
+    } else if (variable.type === 'boolean' && value !== 'true' && value !== 'false') {
+      issues.push(`{${variable.name}} must be true or false.`);
+    } else if (variable.type === 'select' && (variable.options ?? []).indexOf(value) === -1) {
+      issues.push(`{${variable.name}} must be one of ${(variable.options ?? []).join(', ')}.`);
+    }
+  });
+  return issues;
+}
+
+// IDs of the steps a step waits for: declared ones, referenced ones, the
+// branch it depends on and, for {previous_output}, the step before it
+export function getStepDependencies(step: WorkflowStep, steps: WorkflowStep[]): string[] {
+  const dependencies = new Set(step.dependsOn ?? []);
+  const texts = getStepTexts(step.input, step);
+  texts.forEach(text => {
+    let match: RegExpExecArray | null;
+    const reference = new RegExp(STEP_REFERENCE.source, 'g');
+    while ((match = reference.exec(text))) {
+      dependencies.add(match[1]);
+    }
+  });
+  if (step.when) {
+    dependencies.add(step.when.stepId);
+  }
+  const index = steps.indexOf(step);
+  if (index > 0 && texts.some(text => text.includes(`{${PREVIOUS_OUTPUT}}`))) {
+    dependencies.add(steps[index - 1].id);
+  }
+  return Array.from(dependencies);
+}
+
+// A cycle in the step graph as a list of step IDs, if there is one
+function findCycle(steps: WorkflowStep[]): string[] | undefined {
+  const state: Record<string, 'visiting' | 'done'> = {};
+  const path: string[] = [];
+
+  const visit = (step: WorkflowStep): string[] | undefined => {
+    if (state[step.id] === 'done') return undefined;
+    if (state[step.id] === 'visiting') {
+      return [...path.slice(path.indexOf(step.id)), step.id];
+    }
+    state[step.id] = 'visiting';
+    path.push(step.id);
+    for (const id of getStepDependencies(step, steps)) {
+      const dependency = steps.find(s => s.id === id);
+      const cycle = dependency && visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state[step.id] = 'done';
+    return undefined;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+function validateCondition(condition: WorkflowCondition, label: string, issues: string[]) {
+  if (condition.type === 'regex') {
+    try {
+      new RegExp(condition.pattern ?? '', condition.flags);
+    } catch (error) {
+      issues.push(`${label} has an invalid pattern: ${condition.pattern}`);
+    }
+  } else if (condition.labels && condition.labels.length < 2) {
+    issues.push(`${label} needs at least two labels.`);
+  }
+}
+
+// Describe everything that would stop a workflow from running
+export function validateWorkflow(workflow: AgentWorkflow, variables: Record<string, string> = workflow.variables): string[] {
+  const issues: string[] = [];
+  const ids = workflow.steps.map(step => step.id);
+
+  if (!workflow.name.trim()) {
+    issues.push('The workflow needs a name.');
+  }
+  if (workflow.steps.length === 0) {
+    issues.push('The workflow has no steps.');
+  }
+  workflow.steps.forEach((step, index) => {
+    const label = `Step ${index + 1}`;
+    if (ids.indexOf(step.id) !== index) {
+      issues.push(`${label} reuses the ID "${step.id}".`);
+    }
+    if (step.type === 'condition') {
+      if (!step.condition) {
+        issues.push(`${label} is a condition without a condition.`);
+      } else {
+        validateCondition(step.condition, label, issues);
+      }
+    } else if (step.type === 'retrieval') {
+      if (step.retrieval?.maxChunks !== undefined && !(step.retrieval.maxChunks >= 1)) {
+        issues.push(`${label} needs to retrieve at least one chunk.`);
+      }
+    } else if (step.type === 'document') {
+      if (!step.document?.title.trim()) {
+        issues.push(`${label} needs a title for the document.`);
+      }
+    } else if (step.type === 'http') {
+      if (!step.http?.url.trim()) {
+        issues.push(`${label} needs a URL.`);
+      }
+      if (step.http && REQUEST_METHODS.indexOf(step.http.method) === -1) {
+        issues.push(`${label} uses the unknown method ${step.http.method}.`);
+      }
+      if (step.http?.extract) {
+        try {
+          queryJsonPath(null, step.http.extract);
+        } catch (error) {
+          issues.push(`${label} has an invalid JSONPath: ${step.http.extract}`);
+        }
+      }
+    } else if (step.type !== 'approval' && !step.agentId) {
+      issues.push(`${label} has no agent.`);
+    }
+    if (step.loop && !usesAgent(step)) {
+      issues.push(`${label} is ${step.type === 'approval' ? 'an approval' : `a ${step.type} step`} and cannot loop.`);
+    }
+    // The input of a request is its body, which is optional
+    if (!step.input.trim() && step.type !== 'http') {
+      issues.push(`${label} has no input.`);
+    }
+    if (index === 0 && getStepTexts(step.input, step).some(text => text.includes(`{${PREVIOUS_OUTPUT}}`))) {
+      issues.push('The first step cannot use {previous_output}.');
+    }
+    getStepDependencies(step, workflow.steps)
+      .filter(id => ids.indexOf(id) === -1)
+      .forEach(id => issues.push(`${label} refers to a missing step "${id}".`));
+    if (step.retry?.maxAttempts !== undefined && !(step.retry.maxAttempts >= 1)) {
+      issues.push(`${label} needs at least one attempt.`);
+    }
+    if (step.timeoutMs !== undefined && !(step.timeoutMs > 0)) {
+      issues.push(`${label} has an invalid timeout.`);
+    }
+    if (step.loop) {
+      validateCondition(step.loop.until, `${label}'s loop`, issues);
+      if (!(step.loop.maxIterations >= 1)) {
+        issues.push(`${label}'s loop needs at least one iteration.`);
+      }
+    }
+  });
+
+  const cycle = findCycle(workflow.steps);
+  if (cycle) {
+    issues.push(`Steps depend on each other in a cycle: ${cycle.join(' -> ')}.`);
+  }
+
+  const texts = workflow.steps.reduce<string[]>((all, step) => all.concat(getStepTexts(step.input, step)), []);
+  const missing = getTemplateVariables(texts).filter(
+    variable => variables[variable] === undefined
+  );
+  if (missing.length > 0) {
+    issues.push(`Missing values for ${missing.map(variable => `{${variable}}`).join(', ')}.`);
+  }
+
+  return issues;
+}
+
+// Describe everything wrong with a template, without needing variable values
+export function validateTemplate(template: WorkflowTemplate): string[] {
+  const issues: string[] = [];
+  const names = (template.variables ?? []).map(variable => variable.name);
+  (template.variables ?? []).forEach((variable, index) => {
+    if (!/^\w+$/.test(variable.name)) {
+      issues.push(`The variable "${variable.name}" may only use letters, digits and underscores.`);
+    } else if (variable.name === PREVIOUS_OUTPUT || variable.name === ITERATION || variable.name === LAST_OUTPUT) {
+      issues.push(`{${variable.name}} is filled in by the workflow and cannot be a variable.`);
+    } else if (names.indexOf(variable.name) !== index) {
+      issues.push(`The variable {${variable.name}} is declared twice.`);
+    }
+    if (variable.type === 'select' && !variable.options?.length) {
+      issues.push(`The variable {${variable.name}} needs options to select from.`);
+    }
+  });
+
+  // Any value will do, only the structure of the steps is checked here
+  const variables: Record<string, string> = {};
+  getTemplateVariableDefinitions(template).forEach(variable => {
+    variables[variable.name] = '';
+  });
+  const workflow: AgentWorkflow = {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    variables,
+    steps: getTemplateSteps(template),
+    status: 'draft',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  return [...issues, ...validateWorkflow(workflow).map(issue => issue.replace('The workflow', 'The template'))];
+}
+
+// The template's steps as they start out in a workflow
+export function getTemplateSteps(template: WorkflowTemplate): WorkflowStep[] {
+  return template.steps.map(({ id, agentId, inputTemplate, description, position, ...options }, index) => ({
+    ...options,
+    id: id ?? crypto.randomUUID(),
+    agentId,
+    input: inputTemplate,
+    status: 'pending',
+    metadata: {
+      description,
+      stepIndex: index,
+    },
+  }));
+}
+
+// Describe the agents `source` uses that do not exist (any more)
+async function validateAgents(steps: (WorkflowStepOptions & { agentId: string })[], source: string): Promise<string[]> {
+  const slugs = Array.from(
+    new Set(steps.filter(step => usesAgent(step) && step.agentId).map(step => step.agentId))
+  );
+  const agents = await db.agents.where('slug').anyOf(slugs).toArray();
+  return slugs
+    .filter(slug => !agents.some(agent => agent.slug === slug))
+    .map(slug => `${source} uses the agent "${slug}", which does not exist.`);
+}
+
+// Every agent of a template has to exist before a workflow is made from it
+export function validateTemplateAgents(template: WorkflowTemplate): Promise<string[]> {
+  return validateAgents(template.steps, `The template "${template.name}"`);
+}
+
+// Name the template a workflow came from, that is where its agents were picked
+async function validateWorkflowAgents(workflow: AgentWorkflow): Promise<string[]> {
+  const template = workflow.templateId ? await getWorkflowTemplate(workflow.templateId) : undefined;
+  return validateAgents(
+    workflow.steps,
+    template ? `The workflow "${workflow.name}" (from the template "${template.name}")` : `The workflow "${workflow.name}"`
+  );
+}
+
+function replaceVariables(template: string, variables: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (match, name) => (name in variables ? variables[name] : match));
+}
+
+function addUsage(total: ChatUsage | undefined, usage: ChatUsage | undefined): ChatUsage | undefined {
+  if (!usage) return total;
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens,
+  };
+}
+
+function matchesValue(value: string | undefined, expected: string): boolean {
+  return (value ?? '').trim().toLowerCase() === expected.trim().toLowerCase();
+}
+
+async function evaluateCondition(
+  condition: WorkflowCondition,
+  text: string,
+  agent?: Agent,
+  signal?: AbortSignal
+): Promise<{ label: string; usage?: ChatUsage }> {
+  if (condition.type === 'regex') {
+    return { label: String(new RegExp(condition.pattern ?? '', condition.flags).test(text)) };
+  }
+
+  const labels = condition.labels?.length ? condition.labels : ['yes', 'no'];
+  const response = await createChatCompletion(
+    [
+      {
+        role: 'system',
+        content:
+          `Classify the text sent by the user. ${condition.instructions ?? ''}\n` +
+          `Answer with exactly one of: ${labels.join(', ')}.`,
+      },
+      {
+        role: 'user',
+        content: text,
+      },
+    ],
+    { providerId: agent?.providerId, maxTokens: 16, signal }
+  );
+
+  const answer = response.content.trim().toLowerCase();
+  const label =
+    labels.find(l => answer === l.toLowerCase()) ?? labels.find(l => answer.includes(l.toLowerCase()));
+  if (!label) {
+    throw new Error(`Expected one of ${labels.join(', ')} but the model answered "${response.content.trim()}"`);
+  }
+  return { label, usage: response.usage };
+}
+
+function conditionHolds(condition: WorkflowCondition, label: string, equals?: string): boolean {
+  const expected = equals ?? (condition.type === 'regex' ? 'true' : condition.labels?.[0] ?? 'yes');
+  return matchesValue(label, expected);
+}
+
+// Placeholder values available to a step once its dependencies are done
+function getStepValues(step: WorkflowStep, steps: WorkflowStep[], variables: Record<string, string>) {
+  const values: Record<string, string> = { ...variables };
+  steps.forEach((s, index) => {
+    values[`steps.${s.id}.output`] = s.output ?? '';
+    if (steps[index + 1] === step) {
+      values[PREVIOUS_OUTPUT] = s.output ?? '';
+    }
+  });
+  return values;
+}
+
+// Steps that depend on the given ones, directly or through other steps
+function getDependents(stepIds: string[], steps: WorkflowStep[]): WorkflowStep[] {
+  const ids = [...stepIds];
+  const dependents: WorkflowStep[] = [];
+  let found = true;
+  while (found) {
+    found = false;
+    steps.forEach(step => {
+      if (ids.indexOf(step.id) === -1 && getStepDependencies(step, steps).some(id => ids.indexOf(id) !== -1)) {
+        ids.push(step.id);
+        dependents.push(step);
+        found = true;
+      }
+    });
+  }
+  return dependents;
+}
+
+export function getErrorKind(error: unknown): WorkflowErrorKind {
+  if (error instanceof StepTimeoutError) return 'timeout';
+  if ((error instanceof ProviderError || error instanceof WorkflowRequestError) && error.status) {
+    if (error.status === 429) return 'rate_limit';
+    return error.status >= 500 ? 'server' : 'validation';
+  }
+  // fetch rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) return 'network';
+  return 'validation';
+}
+
+// Run a task with its own signal, aborted by `signal` or after `timeoutMs`
+async function withTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  signal: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal.addEventListener('abort', abort);
+  let timedOut = false;
+  const timer = timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  try {
+    return await task(controller.signal);
+  } catch (error) {
+    throw timedOut ? new StepTimeoutError(timeoutMs!) : error;
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', abort);
+  }
+}
+
+// Wait, unless `signal` is aborted first
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+// Settle with the task, or reject as soon as `signal` is aborted, for work
+// that cannot be cancelled itself
+function abortable<T>(task: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return task;
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(new Error('Aborted'));
+    if (signal.aborted) abort();
+    signal.addEventListener('abort', abort);
+    task.then(resolve, reject).then(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+// Store the step's input as a document and index it for retrieval. A document
+// that could not be indexed is removed again, so a retry does not save it twice.
+async function saveDocument(step: WorkflowStep, content: string, values: Record<string, string>) {
+  const document: UserDocument = {
+    id: crypto.randomUUID(),
+    title: replaceVariables(step.document!.title, values).trim(),
+    content,
+    type: 'text',
+    source: 'Workflow',
+    collectionId: step.document!.collectionId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  await db.userDocuments.add(document);
+  try {
+    await processDocument(document);
+  } catch (error) {
+    await db.userDocuments.delete(document.id);
+    await deleteDocumentChunks(document.id);
+    throw error;
+  }
+  return document;
+}
+
+// Send the request of an http step. Secrets are filled in in the same pass as
+// the other placeholders, so a step output that contains {secrets.<name>} is
+// sent as it is. The input the run history shows has the secrets masked.
+async function sendRequest(step: WorkflowStep, values: Record<string, string>, signal?: AbortSignal) {
+  const request = step.http!;
+  const settings = await getRequestSettings();
+  const secrets: Record<string, string> = {};
+  const masked: Record<string, string> = {};
+  getStepTexts(step.input, step).forEach(text => {
+    let match: RegExpExecArray | null;
+    const reference = new RegExp(SECRET_REFERENCE.source, 'g');
+    while ((match = reference.exec(text))) {
+      if (!(match[1] in settings.secrets)) {
+        throw new WorkflowRequestError(`The secret "${match[1]}" is not set`);
+      }
+      secrets[`secrets.${match[1]}`] = settings.secrets[match[1]];
+      masked[`secrets.${match[1]}`] = SECRET_MASK;
+    }
+  });
+
+  const fill = (text: string, secretValues: Record<string, string>) =>
+    replaceVariables(text, { ...values, ...secretValues });
+  const headers: Record<string, string> = {};
+  const shownHeaders: string[] = [];
+  Object.keys(request.headers ?? {}).forEach(name => {
+    headers[name] = fill(request.headers![name], secrets);
+    shownHeaders.push(`${name}: ${fill(request.headers![name], masked)}`);
+  });
+  const body = fill(step.input, secrets);
+  step.resolvedInput = [
+    `${request.method} ${fill(request.url, masked)}`,
+    ...shownHeaders,
+    ...(body.trim() ? ['', fill(step.input, masked)] : []),
+  ].join('\n');
+
+  step.output = await sendWorkflowRequest(
+    { method: request.method, url: fill(request.url, secrets).trim(), headers, body },
+    settings,
+    request.extract,
+    signal
+  );
+}
+
+// Run one step, looping if it has to, and store its output on it
+async function executeStep(
+  step: WorkflowStep,
+  steps: WorkflowStep[],
+  variables: Record<string, string>,
+  signal?: AbortSignal,
+  onContent?: (content: string) => void
+) {
+  const values = getStepValues(step, steps, variables);
+
+  const agent = step.agentId ? await db.agents.where('slug').equals(step.agentId).first() : undefined;
+  if (step.agentId && !agent) {
+    throw new Error(`Agent ${step.agentId} not found`);
+  }
+
+  if (step.type === 'condition') {
+    step.resolvedInput = replaceVariables(step.input, values);
+    const { label, usage } = await evaluateCondition(step.condition!, step.resolvedInput, agent, signal);
+    step.output = label;
+    step.usage = addUsage(step.usage, usage);
+    return;
+  }
+
+  // The retrieved chunks, with their sources, are the step's output
+  if (step.type === 'retrieval') {
+    step.resolvedInput = replaceVariables(step.input, values);
+    step.output = await abortable(
+      getRelevantContext(step.resolvedInput, step.retrieval?.maxChunks, step.retrieval?.collectionIds),
+      signal
+    );
+    return;
+  }
+
+  if (step.type === 'http') {
+    await sendRequest(step, values, signal);
+    return;
+  }
+
+  // Passes its input on, so later steps can use what was saved
+  if (step.type === 'document') {
+    step.resolvedInput = replaceVariables(step.input, values);
+    const document = await saveDocument(step, step.resolvedInput, values);
+    step.documentId = document.id;
+    step.output = step.resolvedInput;
+    return;
+  }
+
+  let output = '';
+  let iteration = 0;
+  // Keeps the tokens of attempts rejected by a reviewer
+  let usage = step.usage;
+  for (;;) {
+    iteration++;
+    step.resolvedInput = replaceVariables(step.input, {
+      ...values,
+      [ITERATION]: String(iteration),
+      [LAST_OUTPUT]: output,
+    });
+    if (step.feedback) {
+      step.resolvedInput += `\n\n${step.feedback}`;
+    }
+
+    const response = await createChatCompletion(
+      [
+        {
+          role: 'system',
+          content: agent!.systemPrompt,
+        },
+        {
+          role: 'user',
+          content: step.resolvedInput,
+        },
+      ],
+      { providerId: agent!.providerId, tools: agent!.tools && getTools(agent!.tools), signal, onContent }
+    );
+    output = response.content;
+    usage = addUsage(usage, response.usage);
+
+    if (!step.loop || iteration >= step.loop.maxIterations) break;
+    const check = await evaluateCondition(step.loop.until, output, agent, signal);
+    usage = addUsage(usage, check.usage);
+    if (conditionHolds(step.loop.until, check.label, step.loop.equals)) break;
+  }
+
+  step.output = output;
+  step.usage = usage;
+  if (step.loop) {
+    step.iterations = iteration;
+  }
+}
+
+// Workflows and their runs are stored in the database, so they survive reloads
+export class WorkflowManager {
   // Create a new workflow from template
   async createWorkflowFromTemplate(
     templateId: string,
@@ -97,122 +975,451 @@ export class WorkflowManager {
     description: string,
     variables: Record<string, string>
   ): Promise<AgentWorkflow> {
-    const template = WORKFLOW_TEMPLATES.find(t => t.id === templateId);
+    const template = await getWorkflowTemplate(templateId);
     if (!template) {
       throw new Error(`Workflow template ${templateId} not found`);
     }
 
+    // Defaults fill the gaps, optional variables left empty become ""
+    const definitions = getTemplateVariableDefinitions(template);
+    const values: Record<string, string> = { ...getDefaultVariables(definitions), ...variables };
+    const templateIssues = [
+      ...(await validateTemplateAgents(template)),
+      ...validateVariableValues(definitions, values),
+    ];
+    if (templateIssues.length > 0) {
+      throw new WorkflowValidationError(templateIssues);
+    }
+    definitions.forEach(variable => {
+      values[variable.name] = values[variable.name]?.trim() ?? '';
+    });
+
     const workflow: AgentWorkflow = {
       id: crypto.randomUUID(),
       name,
       description,
-      steps: template.steps.map((step, index) => ({
-        id: crypto.randomUUID(),
-        agentId: step.agentId,
-        input: this.replaceVariables(step.inputTemplate, variables),
-        status: 'pending',
-        metadata: {
-          description: step.description,
-          stepIndex: index,
-        },
-      })),
-      status: 'active',
+      templateId,
+      variables: values,
+      steps: getTemplateSteps(template),
+      status: 'draft',
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    this.workflows.set(workflow.id, workflow);
+    const issues = validateWorkflow(workflow);
+    if (issues.length > 0) {
+      throw new WorkflowValidationError(issues);
+    }
+
+    await db.workflows.add(workflow);
     return workflow;
   }
 
-  // Execute a workflow
-  async executeWorkflow(workflowId: string, apiKey: string): Promise<AgentWorkflow> {
-    const workflow = this.workflows.get(workflowId);
+  // Execute a workflow, recording the run in the history. `variables`
+  // defaults to the ones the workflow was created with. Steps start as soon
+  // as the steps they depend on are done, so independent branches run in
+  // parallel.
+  async executeWorkflow(
+    workflowId: string,
+    variables?: Record<string, string>,
+    onProgress?: (workflow: AgentWorkflow, run: WorkflowRun) => void
+  ): Promise<WorkflowRun> {
+    const workflow = await db.workflows.get(workflowId);
     if (!workflow) {
       throw new Error(`Workflow ${workflowId} not found`);
     }
 
-    let previousOutput = '';
+    const runVariables = variables ?? workflow.variables;
+    const issues = [...validateWorkflow(workflow, runVariables), ...(await validateWorkflowAgents(workflow))];
+    if (issues.length > 0) {
+      throw new WorkflowValidationError(issues);
+    }
 
-    for (const step of workflow.steps) {
-      try {
-        step.status = 'running';
+    // Every run starts from a clean copy of the steps
+    workflow.steps = workflow.steps.map(
+      ({ output, resolvedInput, error, attempts, iterations, reviews, feedback, documentId, startedAt, completedAt, usage, ...step }) => ({
+        ...step,
+        status: 'pending',
+      })
+    );
+    const run: WorkflowRun = {
+      id: crypto.randomUUID(),
+      workflowId,
+      workflowName: workflow.name,
+      variables: runVariables,
+      steps: workflow.steps,
+      status: 'running',
+      totalTokens: 0,
+      startedAt: new Date(),
+    };
+    workflow.lastRunId = run.id;
+
+    return this.continueRun(workflow, run, onProgress);
+  }
+
+  // Start every step whose dependencies are done, until the workflow
+  // finishes, fails, is paused or waits for an approval
+  private async continueRun(
+    workflow: AgentWorkflow,
+    run: WorkflowRun,
+    onProgress?: (workflow: AgentWorkflow, run: WorkflowRun) => void
+  ): Promise<WorkflowRun> {
+    if (activeRuns.has(workflow.id)) {
+      throw new Error(`${workflow.name} is already running`);
+    }
+    const controller = new AbortController();
+    activeRuns.set(workflow.id, controller);
+    pauseRequested.delete(workflow.id);
+
+    try {
+      run.steps = workflow.steps;
+      run.status = 'running';
+      workflow.status = 'active';
+
+      const save = async () => {
         workflow.updatedAt = new Date();
+        run.totalTokens = workflow.steps.reduce((total, s) => total + (s.usage?.totalTokens ?? 0), 0);
+        // A workflow deleted while it runs stays deleted
+        const saved = await db.transaction('rw', db.workflows, db.workflowRuns, async () => {
+          if (!(await db.workflows.get(workflow.id))) return false;
+          await db.workflows.put(workflow);
+          await db.workflowRuns.put(run);
+          return true;
+        });
+        if (saved) onProgress?.(workflow, run);
+      };
+      await save();
+
+      const dependencies: Record<string, WorkflowStep[]> = {};
+      workflow.steps.forEach(step => {
+        dependencies[step.id] = getStepDependencies(step, workflow.steps).map(
+          id => workflow.steps.find(s => s.id === id)!
+        );
+      });
+      const isDone = (step: WorkflowStep) => step.status === 'completed' || step.status === 'skipped';
+
+      // A step is skipped when its branch was not taken or when everything it
+      // depends on was skipped
+      const shouldSkip = (step: WorkflowStep) => {
+        if (step.when) {
+          const source = workflow.steps.find(s => s.id === step.when!.stepId)!;
+          if (source.status === 'skipped' || !matchesValue(source.output, step.when.equals)) return true;
+        }
+        const stepDependencies = dependencies[step.id];
+        return stepDependencies.length > 0 && stepDependencies.every(s => s.status === 'skipped');
+      };
+
+      const runStep = async (step: WorkflowStep) => {
+        const policy = { ...DEFAULT_RETRY_POLICY, ...step.retry };
+        step.status = 'running';
+        step.startedAt = new Date();
+        await save();
+
+        for (let attempt = 1; ; attempt++) {
+          // A cancelled step starts over when the workflow is resumed
+          if (controller.signal.aborted) {
+            step.status = 'pending';
+            step.error = 'Cancelled';
+            return;
+          }
+          step.attempts = attempt;
+          emitStepEvent(workflow.id, { type: 'started', stepId: step.id, attempt });
+          try {
+            await withTimeout(
+              signal =>
+                executeStep(step, workflow.steps, run.variables, signal, content =>
+                  emitStepEvent(workflow.id, { type: 'delta', stepId: step.id, content })
+                ),
+              step.timeoutMs,
+              controller.signal
+            );
+            step.status = 'completed';
+            delete step.error;
+            emitStepEvent(workflow.id, { type: 'completed', stepId: step.id, output: step.output ?? '', usage: step.usage });
+            break;
+          } catch (error) {
+            step.error = error instanceof Error ? error.message : 'Unknown error';
+            if (controller.signal.aborted) continue;
+            const willRetry = attempt < policy.maxAttempts && policy.retryOn.indexOf(getErrorKind(error)) !== -1;
+            emitStepEvent(workflow.id, { type: 'failed', stepId: step.id, error: step.error, willRetry });
+            if (!willRetry) {
+              step.status = 'failed';
+              break;
+            }
+            await save();
+            await delay(Math.min(policy.initialDelayMs * Math.pow(2, attempt - 1), MAX_RETRY_DELAY), controller.signal);
+          }
+        }
+        step.completedAt = new Date();
+      };
+
+      const running: Record<string, Promise<void>> = {};
+
+      for (;;) {
+        // Pausing takes effect before the next steps start
+        if (run.status === 'running' && pauseRequested.has(workflow.id)) {
+          run.status = 'paused';
+        }
+        if (controller.signal.aborted) {
+          run.status = 'cancelled';
+        }
+
+        if (run.status === 'running') {
+          const ready = workflow.steps.filter(
+            step => step.status === 'pending' && dependencies[step.id].every(isDone)
+          );
+          const skipped = ready.filter(shouldSkip);
+          skipped.forEach(step => {
+            step.status = 'skipped';
+            step.completedAt = new Date();
+          });
+          if (skipped.length > 0) continue;
 
-        // Get the agent for this step
-        const agent = await db.agents.get(step.agentId);
-        if (!agent) {
-          throw new Error(`Agent ${step.agentId} not found`);
+          ready.forEach(step => {
+            if (step.type === 'approval') {
+              step.status = 'awaiting_approval';
+              step.startedAt = new Date();
+              step.resolvedInput = replaceVariables(step.input, getStepValues(step, workflow.steps, run.variables));
+              step.output = step.resolvedInput;
+              return;
+            }
+            running[step.id] = runStep(step).then(() => {
+              delete running[step.id];
+            });
+          });
         }
 
-        // Prepare the input with previous output if available
-        let input = step.input;
-        if (previousOutput && input.includes('{previous_output}')) {
-          input = input.replace('{previous_output}', previousOutput);
+        const inFlight = Object.keys(running).map(id => running[id]);
+        if (inFlight.length === 0) break;
+        await Promise.race(inFlight);
+
+        // Let steps that are already running finish, but start no new ones
+        if (run.status === 'running' && workflow.steps.some(step => step.status === 'failed')) {
+          run.status = 'failed';
         }
+        await save();
+      }
 
-        // Execute the step
-        const response = await createChatCompletion(apiKey, [
-          {
-            role: 'system',
-            content: agent.systemPrompt,
-          },
-          {
-            role: 'user',
-            content: input,
-          },
-        ]);
-
-        step.output = response.data.choices[0].message?.content || '';
-        step.status = 'completed';
-        previousOutput = step.output;
-
-      } catch (error) {
-        step.status = 'failed';
-        step.error = error instanceof Error ? error.message : 'Unknown error';
-        workflow.status = 'paused';
-        break;
+      if (run.status === 'running') {
+        run.status = workflow.steps.every(isDone) ? 'completed' : 'awaiting_approval';
       }
+      workflow.status = run.status === 'completed' ? 'completed' : 'paused';
+      if (run.status === 'completed' || run.status === 'failed') {
+        run.completedAt = new Date();
+      }
+      await save();
+
+      return run;
+    } finally {
+      activeRuns.delete(workflow.id);
+      pauseRequested.delete(workflow.id);
     }
+  }
 
-    if (workflow.steps.every(step => step.status === 'completed')) {
-      workflow.status = 'completed';
+  // The latest run of a workflow, with a step waiting for approval
+  private async getApproval(workflowId: string, stepId: string) {
+    const workflow = await db.workflows.get(workflowId);
+    const run = workflow?.lastRunId ? await db.workflowRuns.get(workflow.lastRunId) : undefined;
+    const step = workflow?.steps.find(s => s.id === stepId);
+    if (!workflow || !run || !step) {
+      throw new Error(`Workflow ${workflowId} has no step ${stepId}`);
     }
+    if (step.status !== 'awaiting_approval' || run.status !== 'awaiting_approval') {
+      throw new Error(`Step ${stepId} is not waiting for approval`);
+    }
+    return { workflow, run, step };
+  }
 
-    return workflow;
+  // Approve a step's input, optionally edited, and pass it on to the next steps
+  async approveStep(
+    workflowId: string,
+    stepId: string,
+    output?: string,
+    onProgress?: (workflow: AgentWorkflow, run: WorkflowRun) => void
+  ): Promise<WorkflowRun> {
+    const { workflow, run, step } = await this.getApproval(workflowId, stepId);
+
+    const edited = output !== undefined && output !== step.output;
+    step.output = output ?? step.output;
+    step.reviews = [...(step.reviews ?? []), { decision: 'approve', edited, reviewedAt: new Date() }];
+    step.status = 'completed';
+    step.completedAt = new Date();
+
+    return this.continueRun(workflow, run, onProgress);
+  }
+
+  // Reject a step's input: the steps that produced it run again with the
+  // reviewer's note, then the approval is asked for again
+  async rejectStep(
+    workflowId: string,
+    stepId: string,
+    note: string,
+    onProgress?: (workflow: AgentWorkflow, run: WorkflowRun) => void
+  ): Promise<WorkflowRun> {
+    const { workflow, run, step } = await this.getApproval(workflowId, stepId);
+
+    const sources = getStepDependencies(step, workflow.steps).map(id => workflow.steps.find(s => s.id === id)!);
+    const feedback =
+      `A reviewer rejected your previous answer:\n${step.output}\n\n` +
+      `Their feedback: ${note}\nTake the feedback into account in your new answer.`;
+    step.reviews = [...(step.reviews ?? []), { decision: 'reject', note, reviewedAt: new Date() }];
+
+    // Everything downstream of the rejected output has to be redone
+    [...sources, ...getDependents(sources.map(s => s.id), workflow.steps)].forEach(s => {
+      if (sources.indexOf(s) !== -1 && s.type !== 'condition' && s.type !== 'approval') {
+        s.feedback = feedback;
+      }
+      s.status = 'pending';
+      delete s.output;
+      delete s.error;
+      delete s.completedAt;
+    });
+
+    return this.continueRun(workflow, run, onProgress);
+  }
+
+  // Run a workflow again with the variables of an earlier run
+  async rerun(runId: string, onProgress?: (workflow: AgentWorkflow, run: WorkflowRun) => void): Promise<WorkflowRun> {
+    const run = await db.workflowRuns.get(runId);
+    if (!run) {
+      throw new Error(`Workflow run ${runId} not found`);
+    }
+    return this.executeWorkflow(run.workflowId, run.variables, onProgress);
+  }
+
+  // Continue the latest run from the steps that have not completed yet,
+  // or start a new run when there is nothing to continue
+  async resumeWorkflow(
+    workflowId: string,
+    onProgress?: (workflow: AgentWorkflow, run: WorkflowRun) => void
+  ): Promise<WorkflowRun> {
+    const workflow = await db.workflows.get(workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+    const run = workflow.lastRunId ? await db.workflowRuns.get(workflow.lastRunId) : undefined;
+    if (!run || run.status === 'completed') {
+      return this.executeWorkflow(workflowId, undefined, onProgress);
+    }
+
+    const issues = [...validateWorkflow(workflow, run.variables), ...(await validateWorkflowAgents(workflow))];
+    if (issues.length > 0) {
+      throw new WorkflowValidationError(issues);
+    }
+
+    workflow.steps.forEach(step => {
+      if (step.status === 'failed' || step.status === 'running') {
+        step.status = 'pending';
+      }
+    });
+    return this.continueRun(workflow, run, onProgress);
+  }
+
+  isRunning(workflowId: string): boolean {
+    return activeRuns.has(workflowId);
+  }
+
+  // Stop a workflow now, aborting the requests of its running steps
+  async cancelWorkflow(workflowId: string): Promise<void> {
+    const controller = activeRuns.get(workflowId);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+
+    // Not running in this tab: only the stored state has to change
+    await this.markInterrupted(workflowId, 'cancelled');
+  }
+
+  // Runs left "running" by a closed or reloaded tab can never finish;
+  // mark them paused so they can be resumed
+  async recoverInterruptedRuns(): Promise<void> {
+    const workflows = await db.workflows.where('status').equals('active').toArray();
+    for (const workflow of workflows.filter(w => !activeRuns.has(w.id))) {
+      await this.markInterrupted(workflow.id, 'paused');
+    }
+  }
+
+  private async markInterrupted(workflowId: string, status: 'paused' | 'cancelled') {
+    await db.transaction('rw', db.workflows, db.workflowRuns, async () => {
+      const workflow = await db.workflows.get(workflowId);
+      if (!workflow) return;
+      workflow.steps.forEach(step => {
+        if (step.status === 'running') step.status = 'pending';
+      });
+      workflow.status = 'paused';
+      workflow.updatedAt = new Date();
+      await db.workflows.put(workflow);
+
+      const run = workflow.lastRunId ? await db.workflowRuns.get(workflow.lastRunId) : undefined;
+      if (run?.status === 'running') {
+        await db.workflowRuns.put({ ...run, steps: workflow.steps, status });
+      }
+    });
+  }
+
+  // Pausing stops the workflow before its next step
+  async pauseWorkflow(workflowId: string): Promise<void> {
+    if (activeRuns.has(workflowId)) {
+      pauseRequested.add(workflowId);
+      return;
+    }
+    await db.workflows.update(workflowId, { status: 'paused', updatedAt: new Date() });
   }
 
   // Get workflow by ID
-  getWorkflow(workflowId: string): AgentWorkflow | undefined {
-    return this.workflows.get(workflowId);
+  getWorkflow(workflowId: string): Promise<AgentWorkflow | undefined> {
+    return db.workflows.get(workflowId);
   }
 
   // Get all workflows
-  getAllWorkflows(): AgentWorkflow[] {
-    return Array.from(this.workflows.values());
+  getAllWorkflows(): Promise<AgentWorkflow[]> {
+    return db.workflows.orderBy('createdAt').toArray();
   }
 
-  // Delete workflow
-  deleteWorkflow(workflowId: string): boolean {
-    return this.workflows.delete(workflowId);
+  // Runs of a workflow, newest first
+  getRuns(workflowId: string): Promise<WorkflowRun[]> {
+    return db.workflowRuns.where('workflowId').equals(workflowId).reverse().sortBy('startedAt');
   }
 
-  // Replace variables in template strings
-  private replaceVariables(template: string, variables: Record<string, string>): string {
-    let result = template;
-    for (const [key, value] of Object.entries(variables)) {
-      result = result.replace(new RegExp(`{${key}}`, 'g'), value);
+  // Save a template made in the builder or imported from a file
+  async saveTemplate(template: WorkflowTemplate): Promise<WorkflowTemplate> {
+    if (WORKFLOW_TEMPLATES.some(t => t.id === template.id)) {
+      throw new Error(`${template.name} is a built-in template and cannot be changed`);
     }
-    return result;
+    const issues = validateTemplate(template);
+    if (issues.length > 0) {
+      throw new WorkflowValidationError(issues);
+    }
+
+    const existing = await db.workflowTemplates.get(template.id);
+    const saved = { ...template, createdAt: existing?.createdAt ?? new Date() };
+    await db.workflowTemplates.put(saved);
+    return saved;
+  }
+
+  // Workflows created from the template keep their own copy of its steps
+  async deleteTemplate(templateId: string): Promise<void> {
+    await db.workflowTemplates.delete(templateId);
+  }
+
+  // Delete a workflow together with its run history
+  // A running workflow is cancelled, its steps stop making requests
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    activeRuns.get(workflowId)?.abort();
+    await db.transaction('rw', db.workflows, db.workflowRuns, async () => {
+      await db.workflowRuns.where('workflowId').equals(workflowId).delete();
+      await db.workflows.delete(workflowId);
+    });
   }
 }
 
 // Workflow execution with progress tracking
 export class WorkflowExecutor {
   private workflowManager: WorkflowManager;
-  private onProgress?: (workflow: AgentWorkflow) => void;
+  private onProgress?: (workflow: AgentWorkflow, run: WorkflowRun) => void;
 
-  constructor(onProgress?: (workflow: AgentWorkflow) => void) {
+  constructor(onProgress?: (workflow: AgentWorkflow, run: WorkflowRun) => void) {
     this.workflowManager = new WorkflowManager();
     this.onProgress = onProgress;
   }
@@ -221,9 +1428,8 @@ export class WorkflowExecutor {
     templateId: string,
     name: string,
     description: string,
-    variables: Record<string, string>,
-    apiKey: string
-  ): Promise<AgentWorkflow> {
+    variables: Record<string, string>
+  ): Promise<WorkflowRun> {
     // Create workflow
     const workflow = await this.workflowManager.createWorkflowFromTemplate(
       templateId,
@@ -232,18 +1438,8 @@ export class WorkflowExecutor {
       variables
     );
 
-    if (this.onProgress) {
-      this.onProgress(workflow);
-    }
-
     // Execute workflow
-    const result = await this.workflowManager.executeWorkflow(workflow.id, apiKey);
-
-    if (this.onProgress) {
-      this.onProgress(result);
-    }
-
-    return result;
+    return this.workflowManager.executeWorkflow(workflow.id, undefined, this.onProgress);
   }
 
   getWorkflowManager(): WorkflowManager {
@@ -253,23 +1449,35 @@ export class WorkflowExecutor {
 
 // Workflow builder for custom workflows
 export class WorkflowBuilder {
-  private steps: Array<{
-    agentId: string;
-    inputTemplate: string;
-    description: string;
-  }> = [];
-
-  addStep(agentId: string, inputTemplate: string, description: string): WorkflowBuilder {
-    this.steps.push({ agentId, inputTemplate, description });
+  private steps: WorkflowTemplateStep[] = [];
+  private variables: WorkflowVariable[] = [];
+
+  addStep(
+    agentId: string,
+    inputTemplate: string,
+    description: string,
+    options: Omit<WorkflowTemplateStep, 'agentId' | 'inputTemplate' | 'description'> = {}
+  ): WorkflowBuilder {
+    this.steps.push({ ...options, agentId, inputTemplate, description });
     return this;
   }
 
-  build(name: string, description: string): WorkflowTemplate {
-    return {
-      id: crypto.randomUUID(),
+  addVariable(variable: WorkflowVariable): WorkflowBuilder {
+    this.variables.push(variable);
+    return this;
+  }
+
+  // Pass the ID of an existing template to build a new version of it
+  build(name: string, description: string, id: string = crypto.randomUUID()): WorkflowTemplate {
+    const template: WorkflowTemplate = {
+      id,
       name,
       description,
       steps: this.steps,
     };
+    if (this.variables.length > 0) {
+      template.variables = this.variables;
+    }
+    return template;
   }
-}
\ No newline at end of file
+}
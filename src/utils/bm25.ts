@@ -0,0 +1,57 @@
+// Okapi BM25 helpers for the keyword index kept next to the document chunks
+
+export const BM25_K1 = 1.2;
+export const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  // English
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with',
+  // Portuguese
+  'ao', 'aos', 'com', 'da', 'das', 'de', 'do', 'dos', 'e', 'em', 'na', 'nas', 'no', 'nos', 'o', 'os',
+  'ou', 'para', 'pela', 'pelo', 'por', 'que', 'se', 'um', 'uma',
+]);
+
+// Lowercase words without accents. Identifiers such as "2023/1234" or
+// "art.5" are kept whole and also split into their parts, so both the exact
+// reference and its pieces can match.
+export function tokenize(text: string): string[] {
+  const normalized = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+  const tokens: string[] = [];
+
+  (normalized.match(/[a-z0-9]+(?:[./-][a-z0-9]+)*/g) ?? []).forEach(word => {
+    const parts = word.split(/[./-]/);
+    if (parts.length > 1) tokens.push(word);
+    parts.forEach(part => {
+      if (!STOP_WORDS.has(part)) tokens.push(part);
+    });
+  });
+
+  return tokens;
+}
+
+export function getTermFrequencies(text: string): { frequencies: Record<string, number>; length: number } {
+  const tokens = tokenize(text);
+  // Without a prototype, so terms such as "constructor" count from zero
+  const frequencies: Record<string, number> = Object.create(null);
+  tokens.forEach(token => {
+    frequencies[token] = (frequencies[token] ?? 0) + 1;
+  });
+  return { frequencies, length: tokens.length };
+}
+
+// Score of one term for one chunk
+export function bm25Score(
+  frequency: number,
+  documentFrequency: number,
+  chunkLength: number,
+  chunkCount: number,
+  averageLength: number
+): number {
+  const idf = Math.log(1 + (chunkCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  const norm = 1 - BM25_B + BM25_B * (chunkLength / (averageLength || 1));
+  return (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm);
+}
@@ -21,6 +21,7 @@ interface Config {
 interface AvailableModel {
     value: string;
     label: string;
+    contextWindow?: number;
 }
   
 interface WritingCharacter {
@@ -0,0 +1,100 @@
+// Five-field cron expressions: minute hour day-of-month month day-of-week.
+// Fields take *, numbers, names (mon, jan), ranges (1-5), lists (1,3) and
+// steps (*/15, 9-17/2). Times are local.
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  days: number[];
+  months: number[];
+  weekdays: number[]; // 0 is Sunday
+  // When both days and weekdays are restricted, matching either is enough
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// How far ahead to look before deciding an expression never matches, e.g. 30 2 31 2 *
+const MAX_YEARS_AHEAD = 5;
+
+function parseValue(value: string, names: string[] | undefined, offset: number): number {
+  const index = names ? names.indexOf(value.toLowerCase()) : -1;
+  return index !== -1 ? index + offset : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+}
+
+function parseField(field: string, min: number, max: number, label: string, names?: string[]): number[] {
+  const values: number[] = [];
+  field.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseValue(stepText, undefined, 0);
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseValue(from, names, min);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseValue(to, names, min);
+    }
+    if (isNaN(start) || isNaN(end) || isNaN(step) || step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${label} "${part}", expected values from ${min} to ${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      if (values.indexOf(value) === -1) values.push(value);
+    }
+  });
+  return values.sort((a, b) => a - b);
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('A schedule needs five fields: minute hour day month weekday');
+  }
+  const [minute, hour, day, month, weekday] = fields;
+  return {
+    minutes: parseField(minute, 0, 59, 'minute'),
+    hours: parseField(hour, 0, 23, 'hour'),
+    days: parseField(day, 1, 31, 'day'),
+    months: parseField(month, 1, 12, 'month', MONTH_NAMES),
+    // 7 is Sunday too
+    weekdays: parseField(weekday, 0, 7, 'weekday', WEEKDAY_NAMES).map(value => value % 7),
+    anyDay: day === '*',
+    anyWeekday: weekday === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.indexOf(date.getDate()) !== -1;
+  const weekday = schedule.weekdays.indexOf(date.getDay()) !== -1;
+  if (!schedule.anyDay && !schedule.anyWeekday) return day || weekday;
+  return day && weekday;
+}
+
+// The first time after `after` the expression matches, to the minute
+export function getNextRun(expression: string, after: Date): Date {
+  const schedule = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_YEARS_AHEAD);
+
+  // Skip whole months, days and hours that cannot match
+  while (date <= limit) {
+    if (schedule.months.indexOf(date.getMonth() + 1) === -1) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (schedule.hours.indexOf(date.getHours()) === -1) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (schedule.minutes.indexOf(date.getMinutes()) === -1) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  throw new Error(`The schedule "${expression}" never runs`);
+}
@@ -0,0 +1,157 @@
+import { db, DocumentChunk } from '../db';
+import {
+  createVectorStore,
+  getActiveEmbeddingSignature,
+  getChunkIdsBySignature,
+  getVectorStoreManager,
+  reembedChunks,
+} from './rag';
+import { VectorStoreOptions, VectorStoreType } from './vectorStore';
+
+// Re-embeds the knowledge base, or copies it into another vector store, in
+// batches while the app is open. One job runs at a time.
+
+export interface EmbeddingJobProgress {
+  kind: 'reembed' | 'copy';
+  target?: string; // the store copied to
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  done: number;
+  total: number;
+  etaMs?: number; // once the first batch is done
+  error?: string;
+}
+
+const BATCH_SIZE = 20;
+
+class EmbeddingJob {
+  progress: EmbeddingJobProgress;
+  private cancelled = false;
+  private paused: Promise<void> | null = null;
+  private resumePaused?: () => void;
+  private runningMs = 0; // pauses left out, for the ETA
+
+  constructor(
+    kind: EmbeddingJobProgress['kind'],
+    private chunkIds: string[],
+    private processBatch: (chunks: DocumentChunk[]) => Promise<void>,
+    target?: string
+  ) {
+    this.progress = { kind, target, status: 'running', done: 0, total: chunkIds.length };
+  }
+
+  async run() {
+    try {
+      for (let i = 0; i < this.chunkIds.length; i += BATCH_SIZE) {
+        if (this.paused) await this.paused;
+        if (this.cancelled) {
+          this.update({ status: 'cancelled', etaMs: undefined });
+          return;
+        }
+
+        const started = Date.now();
+        const chunks = await db.documentChunks.bulkGet(this.chunkIds.slice(i, i + BATCH_SIZE));
+        await this.processBatch(chunks.filter((chunk): chunk is DocumentChunk => !!chunk));
+        this.runningMs += Date.now() - started;
+
+        const done = Math.min(i + BATCH_SIZE, this.progress.total);
+        this.update({ done, etaMs: (this.runningMs / done) * (this.progress.total - done) });
+      }
+      this.update({ status: 'completed', etaMs: undefined });
+    } catch (error) {
+      console.error('Embedding job failed:', error);
+      this.update({
+        status: 'failed',
+        etaMs: undefined,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Takes effect after the batch in progress
+  pause() {
+    if (this.progress.status !== 'running' || this.paused) return;
+    this.paused = new Promise(resolve => (this.resumePaused = resolve));
+    this.update({ status: 'paused' });
+  }
+
+  resume() {
+    if (!this.paused) return;
+    this.paused = null;
+    this.resumePaused?.();
+    this.update({ status: 'running' });
+  }
+
+  cancel() {
+    this.cancelled = true;
+    this.resume();
+  }
+
+  private update(changes: Partial<EmbeddingJobProgress>) {
+    this.progress = { ...this.progress, ...changes };
+    jobListeners.forEach(listener => listener(this.progress));
+  }
+}
+
+let currentJob: EmbeddingJob | null = null;
+const jobListeners = new Set<(progress: EmbeddingJobProgress) => void>();
+
+// The progress of the current or last job
+export function getEmbeddingJobProgress(): EmbeddingJobProgress | null {
+  return currentJob?.progress ?? null;
+}
+
+// Follow the progress of jobs; returns the unsubscribe function
+export function subscribeToEmbeddingJob(listener: (progress: EmbeddingJobProgress) => void): () => void {
+  jobListeners.add(listener);
+  return () => {
+    jobListeners.delete(listener);
+  };
+}
+
+function assertNoJobRunning() {
+  const status = currentJob?.progress.status;
+  if (status === 'running' || status === 'paused') {
+    throw new Error('Another embedding job is still running');
+  }
+}
+
+function startJob(job: EmbeddingJob) {
+  assertNoJobRunning();
+  currentJob = job;
+  job.run();
+}
+
+// Re-embed the chunks embedded differently than the current embeddings make
+// them. Stopped jobs pick up where they left off when started again. When
+// nothing matches yet the store is cleared first, a remote collection may
+// have been created for the old dimensions.
+export async function startReembedJob(): Promise<void> {
+  assertNoJobRunning();
+  const { matching, other } = await getChunkIdsBySignature(await getActiveEmbeddingSignature());
+  if (matching.length === 0 && other.length > 0) {
+    await (await getVectorStoreManager()).clear();
+  }
+  startJob(new EmbeddingJob('reembed', other, reembedChunks));
+}
+
+// Copy the chunks embedded with the current embeddings into another store,
+// such as a remote one before switching to it, or the local one when
+// switching back. Throws when the store configuration is incomplete.
+export async function startCopyJob(storeType: VectorStoreType, config?: VectorStoreOptions): Promise<void> {
+  assertNoJobRunning();
+  const target = await createVectorStore(storeType, config);
+  const { matching } = await getChunkIdsBySignature(await getActiveEmbeddingSignature());
+  startJob(new EmbeddingJob('copy', matching, chunks => target.addChunks(chunks), target.getName()));
+}
+
+export function pauseEmbeddingJob() {
+  currentJob?.pause();
+}
+
+export function resumeEmbeddingJob() {
+  currentJob?.resume();
+}
+
+export function cancelEmbeddingJob() {
+  currentJob?.cancel();
+}
@@ -2,16 +2,25 @@ import { config } from './config';
 
 export interface EmbeddingProvider {
   name: string;
+  model: string;
   dimensions: number;
   generateEmbeddings(text: string): Promise<number[]>;
 }
 
+// What made an embedding. Embeddings only compare to ones with the same
+// signature; dimensions is the length of the embedding itself.
+export interface EmbeddingSignature {
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
 // OpenAI Embeddings Provider
 export class OpenAIEmbeddings implements EmbeddingProvider {
   name = 'openai';
   dimensions = 1536;
 
-  constructor(private apiKey: string, private model: string = 'text-embedding-3-small') {}
+  constructor(private apiKey: string, public model: string = 'text-embedding-3-small') {}
 
   async generateEmbeddings(text: string): Promise<number[]> {
     try {
@@ -45,7 +54,7 @@ export class CohereEmbeddings implements EmbeddingProvider {
   name = 'cohere';
   dimensions = 1024;
 
-  constructor(private apiKey: string, private model: string = 'embed-english-v3.0') {}
+  constructor(private apiKey: string, public model: string = 'embed-english-v3.0') {}
 
   async generateEmbeddings(text: string): Promise<number[]> {
     try {
@@ -81,7 +90,7 @@ export class LocalEmbeddings implements EmbeddingProvider {
   dimensions = 384;
   private pipeline: any = null;
 
-  constructor(private model: string = 'sentence-transformers/all-MiniLM-L6-v2') {}
+  constructor(public model: string = 'sentence-transformers/all-MiniLM-L6-v2') {}
 
   async initialize(): Promise<void> {
     if (this.pipeline) return;
@@ -114,37 +123,70 @@ export class LocalEmbeddings implements EmbeddingProvider {
 // Simple Hash-based Embeddings (fallback)
 export class SimpleEmbeddings implements EmbeddingProvider {
   name = 'simple';
+  model = 'word-hash';
   dimensions = 384;
 
   async generateEmbeddings(text: string): Promise<number[]> {
-    const words = text.toLowerCase().split(/\s+/);
-    const embedding = new Array(this.dimensions).fill(0);
-    
-    words.forEach((word) => {
-      const hash = word.split('').reduce((a, b) => {
-        a = ((a << 5) - a) + b.charCodeAt(0);
-        return a & a;
-      }, 0);
-      const position = Math.abs(hash) % this.dimensions;
-      embedding[position] += 1;
-    });
-
-    // Normalize
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    return embedding.map(val => val / magnitude);
+    return getWordHashEmbeddings(text, this.dimensions);
+  }
+}
+
+// Synchronous, so database upgrades can recompute them
+function getWordHashEmbeddings(text: string, dimensions: number): number[] {
+  const words = text.toLowerCase().split(/\s+/);
+  const embedding = new Array(dimensions).fill(0);
+
+  words.forEach((word) => {
+    const hash = word.split('').reduce((a, b) => {
+      a = ((a << 5) - a) + b.charCodeAt(0);
+      return a & a;
+    }, 0);
+    const position = Math.abs(hash) % dimensions;
+    embedding[position] += 1;
+  });
+
+  // Normalize
+  const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
+  return embedding.map(val => val / magnitude);
+}
+
+// The signature of embeddings stored without one. Simple embeddings, which
+// the app used by default and as the fallback, are recognized by making
+// them again; anything else is unknown.
+export function inferEmbeddingSignature(text: string, embeddings: number[] = []): EmbeddingSignature {
+  const simple = new SimpleEmbeddings();
+  if (embeddings.length === simple.dimensions) {
+    const expected = getWordHashEmbeddings(text, simple.dimensions);
+    if (embeddings.every((value, i) => Math.abs(value - expected[i]) < 1e-6)) {
+      return getSignature(simple, embeddings);
+    }
   }
+  return { provider: 'unknown', model: 'unknown', dimensions: embeddings.length };
+}
+
+function getSignature(provider: EmbeddingProvider, embeddings: number[]): EmbeddingSignature {
+  return { provider: provider.name, model: provider.model, dimensions: embeddings.length };
 }
 
 // Embeddings Manager
 export class EmbeddingsManager {
   private provider: EmbeddingProvider;
-  private cache = new Map<string, number[]>();
+  private cache = new Map<string, { embeddings: number[]; signature: EmbeddingSignature }>();
 
   constructor(provider: EmbeddingProvider) {
     this.provider = provider;
   }
 
   async getEmbeddings(text: string, useCache: boolean = true): Promise<number[]> {
+    return (await this.embed(text, useCache)).embeddings;
+  }
+
+  // Embeddings with the signature of what made them, the simple fallback
+  // when the provider fails
+  async embed(
+    text: string,
+    useCache: boolean = true
+  ): Promise<{ embeddings: number[]; signature: EmbeddingSignature }> {
     const cacheKey = `${text.substring(0, 100)}_${text.length}`;
     
     if (useCache && this.cache.has(cacheKey)) {
@@ -153,17 +195,19 @@ export class EmbeddingsManager {
 
     try {
       const embeddings = await this.provider.generateEmbeddings(text);
+      const result = { embeddings, signature: getSignature(this.provider, embeddings) };
       
       if (useCache) {
-        this.cache.set(cacheKey, embeddings);
+        this.cache.set(cacheKey, result);
       }
       
-      return embeddings;
+      return result;
     } catch (error) {
       console.error('Embeddings generation failed:', error);
       // Fallback to simple embeddings
       const simpleProvider = new SimpleEmbeddings();
-      return simpleProvider.generateEmbeddings(text);
+      const embeddings = await simpleProvider.generateEmbeddings(text);
+      return { embeddings, signature: getSignature(simpleProvider, embeddings) };
     }
   }
 
@@ -175,6 +219,10 @@ export class EmbeddingsManager {
     return this.provider.name;
   }
 
+  getModelName(): string {
+    return this.provider.model;
+  }
+
   clearCache(): void {
     this.cache.clear();
   }
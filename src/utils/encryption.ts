@@ -0,0 +1,70 @@
+import Dexie, { Table } from 'dexie';
+import { EncryptedValue } from '../db';
+
+// Encrypts API keys stored in the settings. The AES-GCM key is created once
+// as non-extractable and kept in a database of its own: the browser can use
+// it but not hand it out, and database exports do not include it. Values
+// restored in another browser cannot be decrypted and have to be entered
+// again.
+
+class KeyDatabase extends Dexie {
+  keys!: Table<{ id: string; key: CryptoKey }>;
+
+  constructor() {
+    super('chatpad-keys');
+    this.version(1).stores({
+      keys: 'id',
+    });
+  }
+}
+
+let encryptionKey: Promise<CryptoKey> | null = null;
+
+function getEncryptionKey(): Promise<CryptoKey> {
+  if (!encryptionKey) {
+    encryptionKey = (async () => {
+      const keys = new KeyDatabase();
+      const stored = await keys.keys.get('settings');
+      if (stored) return stored.key;
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+      await keys.keys.put({ id: 'settings', key });
+      return key;
+    })().catch(error => {
+      encryptionKey = null;
+      throw error;
+    });
+  }
+  return encryptionKey;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export async function encryptText(text: string): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getEncryptionKey(),
+    new TextEncoder().encode(text)
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+export async function decryptText(value: EncryptedValue): Promise<string> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(value.iv) },
+    await getEncryptionKey(),
+    fromBase64(value.data)
+  );
+  return new TextDecoder().decode(data);
+}
@@ -0,0 +1,217 @@
+import { Readability } from '@mozilla/readability';
+import mammoth from 'mammoth';
+import { getDocument } from 'pdfjs-dist';
+// Registers the pdf.js worker on the main thread, so no separate worker file
+// has to be served
+import 'pdfjs-dist/build/pdf.worker.entry';
+import { DocumentMetadata, DocumentSection, UserDocument } from '../db';
+import { parseCsv } from './csv';
+
+export interface ExtractedDocument {
+  title: string;
+  type: UserDocument['type'];
+  content: string;
+  metadata: DocumentMetadata;
+}
+
+interface TextPart {
+  text: string;
+  page?: number;
+  heading?: string;
+}
+
+export async function extractDocument(file: File): Promise<ExtractedDocument> {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  const title = file.name;
+
+  switch (extension) {
+    case '.pdf':
+      return extractPdf(file);
+    case '.docx': {
+      const { value } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+      const parts = htmlToParts(value);
+      return {
+        title,
+        type: 'doc',
+        ...joinParts(parts),
+        metadata: withSections({ format: 'docx', fileName: file.name }, parts),
+      };
+    }
+    case '.doc':
+      throw new Error('Legacy .doc files are not supported. Save the file as .docx and upload it again.');
+    case '.html':
+    case '.htm': {
+      const html = new DOMParser().parseFromString(await file.text(), 'text/html');
+      const article = new Readability(html).parse();
+      const parts = htmlToParts(article?.content ?? html.body.innerHTML);
+      return {
+        title: article?.title || title,
+        type: 'webpage',
+        ...joinParts(parts),
+        metadata: withSections({ format: 'html', fileName: file.name }, parts),
+      };
+    }
+    case '.md':
+    case '.markdown': {
+      const text = await file.text();
+      return {
+        title,
+        type: 'text',
+        content: text,
+        metadata: { format: 'markdown', fileName: file.name, sections: markdownSections(text) },
+      };
+    }
+    case '.csv': {
+      const raw = await file.text();
+      return {
+        title,
+        type: 'text',
+        content: csvToText(parseCsv(raw)),
+        metadata: { format: 'csv', fileName: file.name, raw },
+      };
+    }
+    case '.json': {
+      const raw = await file.text();
+      return {
+        title,
+        type: 'text',
+        content: jsonToText(JSON.parse(raw)),
+        metadata: { format: 'json', fileName: file.name, raw },
+      };
+    }
+    default:
+      return {
+        title,
+        type: 'text',
+        content: await file.text(),
+        metadata: { format: 'text', fileName: file.name },
+      };
+  }
+}
+
+async function extractPdf(file: File): Promise<ExtractedDocument> {
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const parts: TextPart[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const { items } = await page.getTextContent();
+    const text = items
+      .map((item: any) => (item.str ?? '') + (item.hasEOL ? '\n' : ''))
+      .join('')
+      .replace(/[ \t]+/g, ' ');
+    parts.push({ text, page: pageNumber });
+  }
+
+  // pdfjs types the document information dictionary as a plain Object
+  const info: { Title?: string } | undefined = await pdf.getMetadata().then(
+    ({ info }) => info,
+    () => undefined
+  );
+  const metadata: DocumentMetadata = { format: 'pdf', fileName: file.name, pageCount: pdf.numPages };
+  await pdf.destroy();
+
+  return {
+    title: info?.Title || file.name,
+    type: 'pdf',
+    ...joinParts(parts),
+    metadata: withSections(metadata, parts),
+  };
+}
+
+// Concatenate parts, remembering where each one starts
+function joinParts(parts: TextPart[]): { content: string; sections: DocumentSection[] } {
+  let content = '';
+  const sections: DocumentSection[] = [];
+
+  parts.forEach(part => {
+    const text = part.text.trim();
+    if (!text) return;
+    if (content) content += '\n\n';
+    sections.push({ offset: content.length, page: part.page, heading: part.heading });
+    content += text;
+  });
+
+  return { content, sections };
+}
+
+function withSections(metadata: DocumentMetadata, parts: TextPart[]): DocumentMetadata {
+  return { ...metadata, sections: joinParts(parts).sections };
+}
+
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, tr, dt, dd, figcaption';
+
+// Group the text blocks of an HTML fragment under their heading
+function htmlToParts(html: string): TextPart[] {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const headings: string[] = [];
+  const parts: TextPart[] = [];
+  let current: TextPart = { text: '' };
+
+  Array.from(body.querySelectorAll(BLOCK_SELECTOR))
+    // Nested blocks are part of their outermost block's text
+    .filter(element => !element.parentElement?.closest(BLOCK_SELECTOR))
+    .forEach(element => {
+      const match = /^H([1-6])$/.exec(element.tagName);
+      if (match) {
+        const level = Number(match[1]);
+        headings.length = level - 1;
+        headings[level - 1] = element.textContent?.trim() ?? '';
+        parts.push(current);
+        const heading = headings.filter(Boolean).join(' > ');
+        current = { text: `${'#'.repeat(level)} ${headings[level - 1]}\n`, heading };
+        return;
+      }
+
+      const text =
+        element.tagName === 'TR'
+          ? Array.from(element.children).map(cell => cell.textContent?.trim()).join(' | ')
+          : element.textContent?.trim();
+      if (text) {
+        current.text += `${element.tagName === 'LI' ? '- ' : ''}${text}\n`;
+      }
+    });
+  parts.push(current);
+
+  return parts.filter(part => part.text.trim());
+}
+
+function markdownSections(text: string): DocumentSection[] {
+  const headings: string[] = [];
+  const sections: DocumentSection[] = [{ offset: 0 }];
+  let offset = 0;
+
+  text.split('\n').forEach(line => {
+    const match = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (match) {
+      const level = match[1].length;
+      headings.length = level - 1;
+      headings[level - 1] = match[2];
+      sections.push({ offset, heading: headings.filter(Boolean).join(' > ') });
+    }
+    offset += line.length + 1;
+  });
+
+  return sections;
+}
+
+// One line per record, each value labelled with its column
+function csvToText(rows: string[][]): string {
+  const [columns = [], ...records] = rows;
+  return records
+    .map((record, index) =>
+      `Row ${index + 1}: ` + record.map((value, column) => `${columns[column] ?? `Column ${column + 1}`}: ${value}`).join('; ')
+    )
+    .join('\n');
+}
+
+// One "path: value" line per leaf value
+function jsonToText(value: any, path: string = ''): string {
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .map(key => jsonToText(value[key], path ? `${path}.${key}` : key))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return `${path || 'value'}: ${value}`;
+}
@@ -0,0 +1,119 @@
+// The part of JSONPath needed to pick values out of API responses: $, .name,
+// ['name'], [0], [-1] (from the end), * and [*], unions such as [0,2] or
+// ['a','b'], and recursive descent (..name). Filters and slices are not
+// supported.
+
+interface Segment {
+  recursive: boolean;
+  selectors: (string | number)[] | '*';
+}
+
+function parsePath(path: string): Segment[] {
+  const text = path.trim();
+  if (text[0] !== '$') {
+    throw new Error(`A JSONPath starts with $: ${path}`);
+  }
+
+  const segments: Segment[] = [];
+  let i = 1;
+  const invalid = () => new Error(`Invalid JSONPath at position ${i + 1}: ${path}`);
+  const skipSpaces = () => {
+    while (text[i] === ' ') i++;
+  };
+
+  while (i < text.length) {
+    let recursive = false;
+    if (text.slice(i, i + 2) === '..') {
+      recursive = true;
+      i += 2;
+    } else if (text[i] === '.') {
+      i++;
+    } else if (text[i] !== '[') {
+      throw invalid();
+    }
+
+    if (text[i] !== '[') {
+      const match = /^(\*|[\w$-]+)/.exec(text.slice(i));
+      if (!match) throw invalid();
+      i += match[0].length;
+      segments.push({ recursive, selectors: match[0] === '*' ? '*' : [match[0]] });
+      continue;
+    }
+
+    i++;
+    const selectors: (string | number)[] = [];
+    let wildcard = false;
+    for (;;) {
+      skipSpaces();
+      const char = text[i];
+      if (char === '*') {
+        wildcard = true;
+        i++;
+      } else if (char === "'" || char === '"') {
+        const close = text.indexOf(char, i + 1);
+        if (close === -1) throw invalid();
+        selectors.push(text.slice(i + 1, close));
+        i = close + 1;
+      } else {
+        const match = /^-?\d+/.exec(text.slice(i));
+        if (!match) throw invalid();
+        selectors.push(parseInt(match[0], 10));
+        i += match[0].length;
+      }
+      skipSpaces();
+      if (text[i] === ',') {
+        i++;
+      } else if (text[i] === ']') {
+        i++;
+        break;
+      } else {
+        throw invalid();
+      }
+    }
+    segments.push({ recursive, selectors: wildcard ? '*' : selectors });
+  }
+  return segments;
+}
+
+function getChildren(value: unknown, selectors: Segment['selectors']): unknown[] {
+  if (value === null || typeof value !== 'object') return [];
+  const object = value as Record<string, unknown>;
+  if (selectors === '*') {
+    return Array.isArray(value) ? value : Object.keys(object).map(key => object[key]);
+  }
+
+  const children: unknown[] = [];
+  selectors.forEach(selector => {
+    if (Array.isArray(value)) {
+      // $.items.0 works like $.items[0]
+      const index = typeof selector === 'number' ? selector : /^\d+$/.test(selector) ? Number(selector) : NaN;
+      const position = index < 0 ? value.length + index : index;
+      if (position >= 0 && position < value.length) children.push(value[position]);
+    } else if (Object.prototype.hasOwnProperty.call(object, String(selector))) {
+      children.push(object[String(selector)]);
+    }
+  });
+  return children;
+}
+
+// A value followed by everything nested in it
+function getDescendants(value: unknown): unknown[] {
+  const all = [value];
+  getChildren(value, '*').forEach(child => {
+    all.push(...getDescendants(child));
+  });
+  return all;
+}
+
+// Every value in `value` the path matches, in document order
+export function queryJsonPath(value: unknown, path: string): unknown[] {
+  return parsePath(path).reduce<unknown[]>((matches, segment) => {
+    const result: unknown[] = [];
+    matches.forEach(match => {
+      (segment.recursive ? getDescendants(match) : [match]).forEach(item => {
+        result.push(...getChildren(item, segment.selectors));
+      });
+    });
+    return result;
+  }, [value]);
+}
@@ -0,0 +1,50 @@
+import { Message } from '../db';
+
+// Messages of a chat form a tree: editing a user message or regenerating an
+// answer adds a sibling under the same parent instead of overwriting it.
+
+// Get the messages sharing the same parent, oldest first
+export function getSiblings(messages: Message[], message: Message): Message[] {
+  return messages
+    .filter(m => (m.parentId ?? null) === (message.parentId ?? null))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+// Follow the most recent child of each message down to a leaf
+export function getLatestLeaf(messages: Message[], messageId: string): Message | undefined {
+  let current = messages.find(m => m.id === messageId);
+
+  while (current) {
+    const parentId = current.id;
+    const children = messages
+      .filter(m => m.parentId === parentId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    if (children.length === 0) break;
+    current = children[0];
+  }
+
+  return current;
+}
+
+// Get the root-to-leaf path ending at `leafId`, or at the newest message
+// when the leaf is unknown
+export function getActivePath(messages: Message[], leafId?: string): Message[] {
+  if (messages.length === 0) return [];
+
+  const byId = new Map(messages.map(m => [m.id, m]));
+  let leaf = leafId ? byId.get(leafId) : undefined;
+  if (!leaf) {
+    leaf = messages.reduce((latest, m) =>
+      m.createdAt.getTime() > latest.createdAt.getTime() ? m : latest
+    );
+  }
+
+  const path: Message[] = [];
+  let current: Message | undefined = leaf;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
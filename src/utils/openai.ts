@@ -1,55 +1,201 @@
 import { encode } from "gpt-token-utils";
-import { ChatCompletionRequestMessage, Configuration, OpenAIApi } from "openai";
-import { OpenAIExt } from "openai-ext";
-import { db } from "../db";
+import { db, Message, ProviderProfile } from "../db";
 import { config } from "./config";
+import {
+  ChatCompletionResult,
+  ChatMessage,
+  ChatRequest,
+  ChatUsage,
+  createChatProvider,
+  getProviderProfile,
+  ToolCall,
+} from "./providers";
+import { executeToolCall, getToolDefinitions, Tool, ToolContext } from "./tools";
 
-function getClient(
-  apiKey: string,
-  apiType: string,
-  apiAuth: string,
-  basePath: string
+export interface CompletionOptions {
+  // Provider profile to use, the default profile when omitted
+  providerId?: string;
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  // Tools the model may call; their results are fed back until it answers
+  tools?: Tool[];
+  toolContext?: ToolContext;
+  signal?: AbortSignal;
+  // Streams the answer when given; receives the content of the current round so far
+  onContent?: (content: string) => void;
+}
+
+// Rounds of tool calls before the model must answer. The tools stay in the
+// request, providers reject tool calls in the history without them.
+const MAX_TOOL_ROUNDS = 5;
+
+export interface ChatCompletionStream {
+  // Resolves with the final message content once the stream finishes or is
+  // aborted, rejects if the request fails.
+  done: Promise<string>;
+  abort: () => void;
+}
+
+async function resolveProvider(options: CompletionOptions) {
+  const settings = await db.settings.get("general");
+  const profile = getProviderProfile(settings, options.providerId);
+  if (!profile) {
+    throw new Error("No model provider is configured. Add one in Settings.");
+  }
+  return {
+    provider: createChatProvider(profile),
+    model: options.model ?? profile.model ?? config.defaultModel,
+  };
+}
+
+function toChatRequest(
+  messages: ChatMessage[],
+  model: string,
+  options: CompletionOptions,
+  round: number = 0
+): ChatRequest {
+  const tools = options.tools?.length
+    ? getToolDefinitions(options.tools)
+    : undefined;
+  return {
+    model,
+    messages,
+    temperature: options.temperature,
+    topP: options.topP,
+    maxTokens: options.maxTokens,
+    tools,
+    toolChoice: tools && round >= MAX_TOOL_ROUNDS ? "none" : undefined,
+  };
+}
+
+// Run the requested tools and append the call and its results to the
+// conversation
+async function runToolCalls(
+  conversation: ChatMessage[],
+  content: string,
+  toolCalls: ToolCall[],
+  tools: Tool[],
+  context: ToolContext | undefined,
+  onResult: (call: ToolCall, result?: string) => void
 ) {
-  const configuration = new Configuration({
-    ...((apiType === "openai" ||
-      (apiType === "custom" && apiAuth === "bearer-token")) && {
-      apiKey: apiKey,
-    }),
-    ...(apiType === "custom" && { basePath: basePath }),
-  });
-  return new OpenAIApi(configuration);
+  conversation.push({ role: "assistant", content, toolCalls });
+  for (const call of toolCalls) {
+    onResult(call);
+    const result = await executeToolCall(call, tools, context);
+    onResult(call, result);
+    conversation.push({ role: "tool", toolCallId: call.id, content: result });
+  }
 }
 
 export async function createStreamChatCompletion(
-  apiKey: string,
-  messages: ChatCompletionRequestMessage[],
+  messages: ChatMessage[],
   chatId: string,
-  messageId: string
-) {
-  const settings = await db.settings.get("general");
-  const model = settings?.openAiModel ?? config.defaultModel;
+  messageId: string,
+  options: CompletionOptions & { prefix?: string } = {}
+): Promise<ChatCompletionStream> {
+  const { provider, model } = await resolveProvider(options);
+  const prefix = options.prefix ?? "";
+  const controller = new AbortController();
 
-  return OpenAIExt.streamClientChatCompletion(
-    {
-      model,
-      messages,
-    },
-    {
-      apiKey: apiKey,
-      handler: {
-        onContent(content, isFinal, stream) {
-          setStreamContent(messageId, content, isFinal);
-          if (isFinal) {
-            setTotalTokens(chatId, content);
+  let latest = "";
+  let settled = false;
+  let resolveDone: (content: string) => void = () => {};
+  let rejectDone: (error: Error) => void = () => {};
+  const done = new Promise<string>((resolve, reject) => {
+    resolveDone = resolve;
+    rejectDone = reject;
+  });
+
+  // Always write the last known content without the cursor, whether the
+  // stream completed, was aborted or failed half-way.
+  const finish = (error?: Error) => {
+    if (settled) return;
+    settled = true;
+    setStreamContent(messageId, prefix + latest, true);
+    if (latest) {
+      setTotalTokens(chatId, latest);
+    }
+    if (error) {
+      rejectDone(error);
+    } else {
+      resolveDone(prefix + latest);
+    }
+  };
+
+  // Tool call updates are written in order, and before the stream settles
+  let savingToolCalls = Promise.resolve();
+
+  // Text written before a round of tool calls stays above the next round
+  const run = async () => {
+    const conversation = [...messages];
+    const toolCalls: NonNullable<Message["toolCalls"]> = [];
+    let text = "";
+
+    for (let round = 0; ; round++) {
+      const result = await provider.streamChatCompletion(
+        toChatRequest(conversation, model, options, round),
+        (content) => {
+          latest = text + content;
+          if (!settled) {
+            setStreamContent(messageId, prefix + latest, false);
           }
         },
-        onDone(stream) {},
-        onError(error, stream) {
-          console.error(error);
-        },
-      },
+        controller.signal
+      );
+      if (
+        !result.toolCalls?.length ||
+        round >= MAX_TOOL_ROUNDS ||
+        controller.signal.aborted
+      ) {
+        return;
+      }
+
+      text = result.content ? `${text}${result.content}\n\n` : text;
+      await runToolCalls(
+        conversation,
+        result.content,
+        result.toolCalls,
+        options.tools ?? [],
+        options.toolContext,
+        (call, result) => {
+          const index = toolCalls.findIndex((c) => c.id === call.id);
+          if (index === -1) {
+            toolCalls.push({ ...call, result });
+          } else {
+            toolCalls[index] = { ...call, result };
+          }
+          const saved = [...toolCalls];
+          savingToolCalls = savingToolCalls.then(async () => {
+            try {
+              await db.messages.update(messageId, { toolCalls: saved });
+            } catch (error) {
+              console.error("Failed to save tool calls:", error);
+            }
+          });
+        }
+      );
+      if (controller.signal.aborted) return;
     }
-  );
+  };
+
+  run()
+    .then(() => savingToolCalls)
+    .then(() => finish())
+    .catch((error) => {
+      if (controller.signal.aborted) return;
+      console.error(error);
+      finish(error);
+    });
+
+  return {
+    done,
+    abort: () => {
+      finish();
+      controller.abort();
+    },
+  };
 }
 
 function setStreamContent(
@@ -72,41 +218,72 @@ function setTotalTokens(chatId: string, content: string) {
   });
 }
 
+function addUsage(
+  total: ChatUsage | undefined,
+  usage: ChatUsage | undefined
+): ChatUsage | undefined {
+  if (!usage) return total;
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens,
+  };
+}
+
+// Streams from OpenAI-compatible APIs do not report usage, count it locally
+function estimateUsage(messages: ChatMessage[], content: string): ChatUsage {
+  const promptTokens = messages.reduce(
+    (total, message) => total + encode(message.content).length,
+    0
+  );
+  const completionTokens = encode(content).length;
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
 export async function createChatCompletion(
-  apiKey: string,
-  messages: ChatCompletionRequestMessage[]
-) {
-  const settings = await db.settings.get("general");
-  const model = settings?.openAiModel ?? config.defaultModel;
-  const type = settings?.openAiApiType ?? config.defaultType;
-  const auth = settings?.openAiApiAuth ?? config.defaultAuth;
-  const base = settings?.openAiApiBase ?? config.defaultBase;
-  const version = settings?.openAiApiVersion ?? config.defaultVersion;
-
-  const client = getClient(apiKey, type, auth, base);
-  return client.createChatCompletion(
-    {
-      model,
-      stream: false,
-      messages,
-    },
-    {
-      headers: {
-        "Content-Type": "application/json",
-        ...(type === "custom" && auth === "api-key" && { "api-key": apiKey }),
-      },
-      params: {
-        ...(type === "custom" && { "api-version": version }),
-      },
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<ChatCompletionResult> {
+  const { provider, model } = await resolveProvider(options);
+  const conversation = [...messages];
+  let usage: ChatUsage | undefined;
+
+  for (let round = 0; ; round++) {
+    const request = toChatRequest(conversation, model, options, round);
+    const result = options.onContent
+      ? await provider.streamChatCompletion(request, options.onContent, options.signal)
+      : await provider.createChatCompletion(request, options.signal);
+    // Usage covers every round, including the ones spent on tool calls
+    usage = addUsage(
+      usage,
+      result.usage ?? (options.onContent ? estimateUsage(conversation, result.content) : undefined)
+    );
+    // A provider ignoring the tool choice gets no more rounds
+    if (!result.toolCalls?.length || round >= MAX_TOOL_ROUNDS) {
+      return { ...result, usage };
     }
-  );
+
+    await runToolCalls(
+      conversation,
+      result.content,
+      result.toolCalls,
+      options.tools ?? [],
+      options.toolContext,
+      () => {}
+    );
+  }
 }
 
-export async function checkOpenAIKey(apiKey: string) {
-  return createChatCompletion(apiKey, [
-    {
-      role: "user",
-      content: "hello",
-    },
-  ]);
+export async function checkProvider(profile: ProviderProfile) {
+  const request: ChatRequest = {
+    model: profile.model ?? config.defaultModel,
+    messages: [
+      {
+        role: "user",
+        content: "hello",
+      },
+    ],
+    maxTokens: 16,
+  };
+  return createChatProvider(profile).createChatCompletion(request);
 }
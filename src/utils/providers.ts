@@ -0,0 +1,514 @@
+import type { ProviderProfile, Settings } from '../db';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // JSON encoded arguments, as produced by the model
+  arguments: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema of the arguments object
+  parameters: Record<string, any>;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: ToolCall[]; // assistant messages requesting tools
+  toolCallId?: string; // tool messages answering a call
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  model: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  tools?: ToolDefinition[];
+  // 'none' keeps the tools, which the conversation may already use, but
+  // asks for a text answer
+  toolChoice?: 'auto' | 'none';
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  toolCalls?: ToolCall[];
+  usage?: ChatUsage;
+}
+
+export interface ChatProvider {
+  name: string;
+  createChatCompletion(request: ChatRequest, signal?: AbortSignal): Promise<ChatCompletionResult>;
+  // onContent receives the full content received so far
+  streamChatCompletion(
+    request: ChatRequest,
+    onContent: (content: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResult>;
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    Object.setPrototypeOf(this, ProviderError.prototype);
+  }
+}
+
+export const PROVIDER_TYPES: Array<{ value: ProviderProfile['type']; label: string }> = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'azure', label: 'Azure OpenAI' },
+  { value: 'anthropic', label: 'Anthropic' },
+  { value: 'ollama', label: 'Ollama / llama.cpp (OpenAI-compatible)' },
+];
+
+async function postJson(url: string, headers: Record<string, string>, body: any, signal?: AbortSignal) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    let message = response.statusText || `Request failed with status ${response.status}`;
+    try {
+      const data = await response.json();
+      message = data.error?.message ?? data.error ?? message;
+    } catch (error) {
+      // Not a JSON error body
+    }
+    throw new ProviderError(message, response.status);
+  }
+
+  return response;
+}
+
+// Call onData with the payload of every `data:` line of a server-sent event stream
+async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new ProviderError('Streaming is not supported by this response');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+
+    for (const event of events) {
+      const data = event
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+      if (data) onData(data);
+    }
+  }
+}
+
+// Shared implementation for the OpenAI chat completions wire format
+abstract class OpenAICompatibleProvider implements ChatProvider {
+  abstract name: string;
+
+  constructor(protected profile: ProviderProfile) {}
+
+  protected abstract getUrl(): string;
+
+  protected abstract getHeaders(): Record<string, string>;
+
+  protected getBody(request: ChatRequest, stream: boolean): Record<string, any> {
+    return {
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      stream,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.topP !== undefined && { top_p: request.topP }),
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: tool,
+        })),
+        ...(request.toolChoice && { tool_choice: request.toolChoice }),
+      }),
+    };
+  }
+
+  async createChatCompletion(request: ChatRequest, signal?: AbortSignal): Promise<ChatCompletionResult> {
+    const response = await postJson(this.getUrl(), this.getHeaders(), this.getBody(request, false), signal);
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+
+    return {
+      content: message?.content ?? '',
+      toolCalls: message?.tool_calls?.map((call: any) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments ?? '',
+      })),
+      usage: data.usage && {
+        promptTokens: data.usage.prompt_tokens,
+        completionTokens: data.usage.completion_tokens,
+        totalTokens: data.usage.total_tokens,
+      },
+    };
+  }
+
+  async streamChatCompletion(
+    request: ChatRequest,
+    onContent: (content: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResult> {
+    const response = await postJson(this.getUrl(), this.getHeaders(), this.getBody(request, true), signal);
+    let content = '';
+    let usage: ChatUsage | undefined;
+    // Tool call names and arguments arrive in fragments keyed by index
+    const toolCalls: ToolCall[] = [];
+
+    await readEventStream(response, (data) => {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data);
+      if (chunk.error) {
+        throw new ProviderError(chunk.error.message ?? 'Stream error');
+      }
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        content += delta.content;
+        onContent(content);
+      }
+      delta?.tool_calls?.forEach((fragment: any) => {
+        const index = fragment.index ?? 0;
+        const call = toolCalls[index] ?? (toolCalls[index] = { id: '', name: '', arguments: '' });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      });
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+    });
+
+    return { content, toolCalls: toolCalls.length ? toolCalls : undefined, usage };
+  }
+}
+
+function toOpenAIMessage(message: ChatMessage): Record<string, any> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  name = 'openai';
+
+  protected getUrl(): string {
+    return `${trimSlash(this.profile.baseUrl || 'https://api.openai.com/v1')}/chat/completions`;
+  }
+
+  // Some OpenAI-compatible gateways take the key in an api-key header
+  protected getHeaders(): Record<string, string> {
+    if (!this.profile.apiKey) return {};
+    return this.profile.authHeader === 'api-key'
+      ? { 'api-key': this.profile.apiKey }
+      : { Authorization: `Bearer ${this.profile.apiKey}` };
+  }
+}
+
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+  name = 'azure';
+
+  protected getUrl(): string {
+    if (!this.profile.baseUrl || !this.profile.deployment) {
+      throw new ProviderError('Azure OpenAI requires an endpoint and a deployment name');
+    }
+    const version = this.profile.apiVersion || '2024-02-01';
+    return `${trimSlash(this.profile.baseUrl)}/openai/deployments/${encodeURIComponent(
+      this.profile.deployment
+    )}/chat/completions?api-version=${encodeURIComponent(version)}`;
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return this.profile.apiKey ? { 'api-key': this.profile.apiKey } : {};
+  }
+
+  // The deployment decides the model
+  protected getBody(request: ChatRequest, stream: boolean): Record<string, any> {
+    const { model, ...body } = super.getBody(request, stream);
+    return body;
+  }
+}
+
+export class OllamaProvider extends OpenAICompatibleProvider {
+  name = 'ollama';
+
+  protected getUrl(): string {
+    return `${trimSlash(this.profile.baseUrl || 'http://localhost:11434/v1')}/chat/completions`;
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return this.profile.apiKey ? { Authorization: `Bearer ${this.profile.apiKey}` } : {};
+  }
+}
+
+export class AnthropicProvider implements ChatProvider {
+  name = 'anthropic';
+
+  constructor(private profile: ProviderProfile) {}
+
+  private getUrl(): string {
+    return `${trimSlash(this.profile.baseUrl || 'https://api.anthropic.com')}/v1/messages`;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.profile.apiKey ?? '',
+      'anthropic-version': this.profile.apiVersion || '2023-06-01',
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  // System prompts go in a separate field, turns must alternate roles and
+  // tool results are sent back inside user turns
+  private getBody(request: ChatRequest, stream: boolean): Record<string, any> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const messages: Array<{ role: 'user' | 'assistant'; content: any[] }> = [];
+    request.messages
+      .filter(message => message.role !== 'system')
+      .forEach(message => {
+        const role = message.role === 'assistant' ? 'assistant' : 'user';
+        const last = messages[messages.length - 1];
+        if (last && last.role === role) {
+          last.content.push(...toAnthropicBlocks(message));
+        } else {
+          messages.push({ role, content: toAnthropicBlocks(message) });
+        }
+      });
+
+    return {
+      model: request.model,
+      messages,
+      max_tokens: request.maxTokens ?? 4096,
+      stream,
+      ...(system && { system }),
+      // Chats may keep a temperature set for another provider
+      ...(request.temperature !== undefined && { temperature: Math.min(request.temperature, 1) }),
+      ...(request.topP !== undefined && { top_p: request.topP }),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters,
+        })),
+        ...(request.toolChoice && { tool_choice: { type: request.toolChoice } }),
+      }),
+    };
+  }
+
+  async createChatCompletion(request: ChatRequest, signal?: AbortSignal): Promise<ChatCompletionResult> {
+    const response = await postJson(this.getUrl(), this.getHeaders(), this.getBody(request, false), signal);
+    const data = await response.json();
+    const blocks: any[] = data.content ?? [];
+    const toolCalls: ToolCall[] = blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) }));
+
+    return {
+      content: blocks
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join(''),
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+      usage: data.usage && toAnthropicUsage(data.usage.input_tokens, data.usage.output_tokens),
+    };
+  }
+
+  async streamChatCompletion(
+    request: ChatRequest,
+    onContent: (content: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResult> {
+    const response = await postJson(this.getUrl(), this.getHeaders(), this.getBody(request, true), signal);
+    let content = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+    const toolCalls: ToolCall[] = [];
+    const toolCallsByIndex: Record<number, ToolCall> = {};
+
+    await readEventStream(response, (data) => {
+      const event = JSON.parse(data);
+      switch (event.type) {
+        case 'message_start':
+          inputTokens = event.message?.usage?.input_tokens ?? 0;
+          break;
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            const call = { id: event.content_block.id, name: event.content_block.name, arguments: '' };
+            toolCalls.push(call);
+            toolCallsByIndex[event.index] = call;
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            content += event.delta.text;
+            onContent(content);
+          } else if (event.delta?.type === 'input_json_delta' && toolCallsByIndex[event.index]) {
+            toolCallsByIndex[event.index].arguments += event.delta.partial_json;
+          }
+          break;
+        case 'message_delta':
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+        case 'error':
+          throw new ProviderError(event.error?.message ?? 'Stream error');
+      }
+    });
+
+    return {
+      content,
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+      usage: toAnthropicUsage(inputTokens, outputTokens),
+    };
+  }
+}
+
+function toAnthropicBlocks(message: ChatMessage): any[] {
+  if (message.role === 'tool') {
+    return [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }];
+  }
+  const blocks: any[] = message.content ? [{ type: 'text', text: message.content }] : [];
+  message.toolCalls?.forEach(call => {
+    blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: parseToolArguments(call.arguments) });
+  });
+  return blocks;
+}
+
+function toAnthropicUsage(inputTokens: number, outputTokens: number): ChatUsage {
+  return {
+    promptTokens: inputTokens,
+    completionTokens: outputTokens,
+    totalTokens: inputTokens + outputTokens,
+  };
+}
+
+// Models occasionally send empty or malformed arguments
+export function parseToolArguments(args: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    return {};
+  }
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+export function createChatProvider(profile: ProviderProfile): ChatProvider {
+  switch (profile.type) {
+    case 'azure':
+      return new AzureOpenAIProvider(profile);
+    case 'anthropic':
+      return new AnthropicProvider(profile);
+    case 'ollama':
+      return new OllamaProvider(profile);
+    case 'openai':
+    default:
+      return new OpenAIProvider(profile);
+  }
+}
+
+// Pick the requested profile, falling back to the default and then the first one
+export function getProviderProfile(
+  settings: Settings | undefined,
+  providerId?: string
+): ProviderProfile | undefined {
+  const profiles = settings?.providerProfiles ?? [];
+  return (
+    profiles.find(profile => profile.id === providerId) ??
+    profiles.find(profile => profile.id === settings?.defaultProviderId) ??
+    profiles[0]
+  );
+}
+
+// Build a profile from the openAi* fields settings used before provider profiles
+export function profileFromLegacySettings(legacy: {
+  openAiApiKey?: string;
+  openAiModel?: string;
+  openAiApiType?: 'openai' | 'custom';
+  openAiApiAuth?: 'none' | 'bearer-token' | 'api-key';
+  openAiApiBase?: string;
+  openAiApiVersion?: string;
+}): ProviderProfile {
+  const profile: ProviderProfile = {
+    id: crypto.randomUUID(),
+    name: 'OpenAI',
+    type: 'openai',
+    apiKey: legacy.openAiApiKey,
+    model: legacy.openAiModel,
+  };
+
+  if (legacy.openAiApiType !== 'custom') {
+    return profile;
+  }
+
+  // Custom endpoints authenticated with an api-key header were Azure deployments
+  const azure = legacy.openAiApiBase?.match(/^(.*)\/openai\/deployments\/([^/?]+)/);
+  if (legacy.openAiApiAuth === 'api-key' && azure) {
+    return {
+      ...profile,
+      name: 'Azure OpenAI',
+      type: 'azure',
+      baseUrl: azure[1],
+      deployment: azure[2],
+      apiVersion: legacy.openAiApiVersion,
+    };
+  }
+
+  return {
+    ...profile,
+    name: 'Custom',
+    baseUrl: legacy.openAiApiBase,
+    apiKey: legacy.openAiApiAuth === 'none' ? undefined : legacy.openAiApiKey,
+    ...(legacy.openAiApiAuth === 'api-key' && { authHeader: 'api-key' as const }),
+  };
+}
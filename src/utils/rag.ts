@@ -1,33 +1,243 @@
-import { UserDocument, DocumentChunk, db } from '../db';
-import { createEmbeddingsManager, EmbeddingsManager } from './embeddings';
+import {
+  UserDocument,
+  DocumentChunk,
+  DocumentSection,
+  KeywordPosting,
+  MessageSource,
+  RetrievalSettings,
+  EncryptedValue,
+  Settings,
+  db,
+} from '../db';
+import { WorkflowStepOptions } from './agentWorkflow';
+import { bm25Score, getTermFrequencies, tokenize } from './bm25';
+import { createEmbeddingsManager, EmbeddingSignature, EmbeddingsManager } from './embeddings';
+import { decryptText, encryptText } from './encryption';
+import {
+  createVectorStoreManager,
+  ScoredChunk,
+  VectorStoreManager,
+  VectorStoreOptions,
+  VectorStoreType,
+} from './vectorStore';
 
 // Global embeddings manager
 let embeddingsManager: EmbeddingsManager | null = null;
 
+// Global vector store, created from these options with the current embeddings
+let vectorStoreOptions: { storeType: VectorStoreType; config?: VectorStoreOptions } = { storeType: 'local' };
+let vectorStoreManager: VectorStoreManager | null = null;
+
+// Applying the saved configuration, started at most once
+let savedRagConfigLoad: Promise<void> | null = null;
+const ragConfigListeners = new Set<() => void>();
+
+export type EmbeddingsProviderType = 'openai' | 'cohere' | 'local' | 'simple';
+
+// The saved configuration with its API keys decrypted
+export interface SavedRagConfig {
+  embeddings: { provider: EmbeddingsProviderType; apiKey?: string; model?: string };
+  vectorStore: VectorStoreOptions & { provider: VectorStoreType };
+}
+
+export interface RagStatus {
+  configuredProvider: EmbeddingsProviderType;
+  signature: EmbeddingSignature; // of what embeds queries now
+  vectorStore: string;
+}
+
 // Initialize embeddings manager
 export async function initializeEmbeddings(
-  providerType: 'openai' | 'cohere' | 'local' | 'simple' = 'simple',
+  providerType: EmbeddingsProviderType = 'simple',
   apiKey?: string,
   model?: string
 ): Promise<void> {
   try {
-    embeddingsManager = await createEmbeddingsManager(providerType, apiKey, model);
-    console.log(`Initialized embeddings with provider: ${embeddingsManager.getProviderName()}`);
+    setEmbeddingsManager(await createEmbeddingsManager(providerType, apiKey, model));
+    console.log(`Initialized embeddings with provider: ${embeddingsManager!.getProviderName()}`);
   } catch (error) {
     console.error('Failed to initialize embeddings:', error);
     // Fallback to simple embeddings
-    embeddingsManager = await createEmbeddingsManager('simple');
+    setEmbeddingsManager(await createEmbeddingsManager('simple'));
   }
 }
 
+function setEmbeddingsManager(manager: EmbeddingsManager) {
+  embeddingsManager = manager;
+  // Recreated with the new embeddings on next use
+  vectorStoreManager = null;
+  ragConfigListeners.forEach(listener => listener());
+}
+
 // Get current embeddings manager
 export function getEmbeddingsManager(): EmbeddingsManager | null {
   return embeddingsManager;
 }
 
+// The current embeddings manager, the saved ones if none was initialized
+async function getInitializedEmbeddings(): Promise<EmbeddingsManager> {
+  if (!embeddingsManager) {
+    await loadSavedRagConfig();
+  }
+  if (!embeddingsManager) {
+    await initializeEmbeddings('simple');
+  }
+  return embeddingsManager!;
+}
+
+// Switch the store chunk embeddings are kept and searched in. Throws, keeping
+// the current store, when the configuration is incomplete.
+export async function initializeVectorStore(storeType: VectorStoreType, config?: VectorStoreOptions): Promise<void> {
+  vectorStoreManager = await createVectorStore(storeType, config);
+  vectorStoreOptions = { storeType, config };
+  console.log(`Initialized vector store: ${vectorStoreManager.getName()}`);
+  ragConfigListeners.forEach(listener => listener());
+}
+
+// A vector store using the current embeddings, without switching to it
+export async function createVectorStore(
+  storeType: VectorStoreType,
+  config?: VectorStoreOptions
+): Promise<VectorStoreManager> {
+  return createVectorStoreManager(storeType, await getInitializedEmbeddings(), config);
+}
+
+// Get the current vector store, the saved one or else the local one
+export async function getVectorStoreManager(): Promise<VectorStoreManager> {
+  if (!vectorStoreManager) {
+    await loadSavedRagConfig();
+  }
+  if (!vectorStoreManager) {
+    await initializeVectorStore(vectorStoreOptions.storeType, vectorStoreOptions.config);
+  }
+  return vectorStoreManager!;
+}
+
+// Follow changes of the embeddings or vector store; returns the unsubscribe function
+export function subscribeToRagConfig(listener: () => void): () => void {
+  ragConfigListeners.add(listener);
+  return () => {
+    ragConfigListeners.delete(listener);
+  };
+}
+
+// A key that cannot be decrypted, such as one restored from a backup made in
+// another browser, counts as not set
+async function readSavedKey(value?: EncryptedValue): Promise<string | undefined> {
+  if (!value) return undefined;
+  try {
+    return await decryptText(value);
+  } catch (error) {
+    console.error('Failed to decrypt a saved API key:', error);
+    return undefined;
+  }
+}
+
+// OpenAI embeddings without a key of their own use the OpenAI provider's
+function getEmbeddingsApiKey(settings: Settings | undefined, provider: EmbeddingsProviderType, apiKey?: string) {
+  if (apiKey || provider !== 'openai') return apiKey;
+  return settings?.providerProfiles?.find(p => p.type === 'openai' && !p.baseUrl)?.apiKey;
+}
+
+export async function getSavedRagConfig(): Promise<SavedRagConfig> {
+  const settings = await db.settings.get('general');
+  const embeddings = settings?.embeddingsConfig;
+  const vectorStore = settings?.vectorStoreConfig;
+  return {
+    embeddings: {
+      provider: embeddings?.provider ?? 'simple',
+      model: embeddings?.model,
+      apiKey: await readSavedKey(embeddings?.apiKey),
+    },
+    vectorStore: {
+      ...vectorStore?.options,
+      provider: vectorStore?.provider ?? 'local',
+      apiKey: await readSavedKey(vectorStore?.apiKey),
+    },
+  };
+}
+
+// Initialize embeddings and the vector store from the settings. Runs once,
+// at startup or when RAG is first used, so nothing is embedded or searched
+// with the defaults before. A vector store that fails leaves the local one.
+export function loadSavedRagConfig(): Promise<void> {
+  if (!savedRagConfigLoad) {
+    savedRagConfigLoad = (async () => {
+      const settings = await db.settings.get('general');
+      const { embeddings, vectorStore } = await getSavedRagConfig();
+      await initializeEmbeddings(
+        embeddings.provider,
+        getEmbeddingsApiKey(settings, embeddings.provider, embeddings.apiKey),
+        embeddings.model
+      );
+
+      const { provider, ...config } = vectorStore;
+      if (provider !== 'local') {
+        try {
+          await initializeVectorStore(provider, config);
+        } catch (error) {
+          console.error('Failed to initialize the saved vector store:', error);
+        }
+      }
+    })().catch(error => console.error('Failed to load the saved RAG configuration:', error));
+  }
+  return savedRagConfigLoad;
+}
+
+// Switch embeddings and save the choice with its key encrypted. Throws,
+// keeping the current embeddings and saving nothing, when the provider
+// cannot be initialized.
+export async function saveEmbeddingsConfig(
+  provider: EmbeddingsProviderType,
+  apiKey?: string,
+  model?: string
+): Promise<void> {
+  await loadSavedRagConfig();
+  const settings = await db.settings.get('general');
+  const manager = await createEmbeddingsManager(provider, getEmbeddingsApiKey(settings, provider, apiKey), model);
+  await db.settings.update('general', {
+    embeddingsConfig: { provider, model, apiKey: apiKey ? await encryptText(apiKey) : undefined },
+  });
+  setEmbeddingsManager(manager);
+  console.log(`Initialized embeddings with provider: ${manager.getProviderName()}`);
+}
+
+// Switch the vector store and save the choice with its key encrypted.
+// Throws, saving nothing, when the configuration is incomplete.
+export async function saveVectorStoreConfig(storeType: VectorStoreType, config: VectorStoreOptions = {}): Promise<void> {
+  await loadSavedRagConfig();
+  await initializeVectorStore(storeType, config);
+  const { apiKey, ...options } = config;
+  await db.settings.update('general', {
+    vectorStoreConfig: { provider: storeType, options, apiKey: apiKey ? await encryptText(apiKey) : undefined },
+  });
+}
+
+// What RAG actually uses, next to the embeddings provider that was chosen.
+// The signature shows when the chosen provider fails and the simple
+// embeddings are used instead.
+export async function getRagStatus(): Promise<RagStatus> {
+  const settings = await db.settings.get('general');
+  return {
+    configuredProvider: settings?.embeddingsConfig?.provider ?? 'simple',
+    signature: await getActiveEmbeddingSignature(),
+    vectorStore: (await getVectorStoreManager()).getName(),
+  };
+}
+
 // Simple text chunking utility
 export function chunkText(text: string, chunkSize: number = 1000, overlap: number = 200): string[] {
-  const chunks: string[] = [];
+  return chunkTextWithOffsets(text, chunkSize, overlap).map(chunk => chunk.content);
+}
+
+// Chunk text, keeping where each chunk starts so it can be traced back to
+// its page or heading
+export function chunkTextWithOffsets(
+  text: string,
+  chunkSize: number = 1000,
+  overlap: number = 200
+): Array<{ content: string; offset: number }> {
+  const chunks: Array<{ content: string; offset: number }> = [];
   let start = 0;
 
   while (start < text.length) {
@@ -46,11 +256,32 @@ export function chunkText(text: string, chunkSize: number = 1000, overlap: numbe
       }
     }
 
-    chunks.push(chunk.trim());
+    chunks.push({ content: chunk.trim(), offset: start });
+    if (end === text.length) break;
     start = end - overlap;
   }
 
-  return chunks.filter(chunk => chunk.length > 50); // Filter out very short chunks
+  return chunks.filter(chunk => chunk.content.length > 50); // Filter out very short chunks
+}
+
+// Find the page and heading a chunk starting at `offset` belongs to
+export function getSectionAt(metadata: UserDocument['metadata'], offset: number): DocumentSection | undefined {
+  const sections: DocumentSection[] = metadata?.sections ?? [];
+  let found: DocumentSection | undefined;
+  for (const section of sections) {
+    if (section.offset > offset) break;
+    found = section;
+  }
+  return found;
+}
+
+// Label a chunk with its document and, when known, its page and heading
+export function formatChunkSource(title: string | undefined, chunk: DocumentChunk): string {
+  const location = [
+    chunk.page !== undefined ? `page ${chunk.page}` : '',
+    chunk.heading ?? '',
+  ].filter(Boolean);
+  return [title || 'Unknown Document', ...location].join(', ');
 }
 
 // Simple similarity search using cosine similarity
@@ -73,91 +304,386 @@ export function calculateCosineSimilarity(vecA: number[], vecB: number[]): numbe
 
 // Generate embeddings using the current embeddings manager
 export async function generateEmbeddings(text: string): Promise<number[]> {
-  if (!embeddingsManager) {
-    // Initialize with simple embeddings if not set
-    await initializeEmbeddings('simple');
+  return (await getInitializedEmbeddings()).getEmbeddings(text);
+}
+
+// What embeddings are made with right now: the initialized provider, or
+// the simple fallback while it fails
+export async function getActiveEmbeddingSignature(): Promise<EmbeddingSignature> {
+  return (await (await getInitializedEmbeddings()).embed('embedding signature')).signature;
+}
+
+function toChunkSignature(
+  signature: EmbeddingSignature
+): Pick<DocumentChunk, 'embeddingProvider' | 'embeddingModel' | 'embeddingDimensions'> {
+  return {
+    embeddingProvider: signature.provider,
+    embeddingModel: signature.model,
+    embeddingDimensions: signature.dimensions,
+  };
+}
+
+function hasSignature(chunk: DocumentChunk, signature: EmbeddingSignature): boolean {
+  return (
+    chunk.embeddingProvider === signature.provider &&
+    chunk.embeddingModel === signature.model &&
+    chunk.embeddingDimensions === signature.dimensions
+  );
+}
+
+// The ids of the chunks embedded with `signature`, or with anything else
+export async function getChunkIdsBySignature(
+  signature: EmbeddingSignature
+): Promise<{ matching: string[]; other: string[] }> {
+  const matching = (await db.documentChunks
+    .where('[embeddingProvider+embeddingModel+embeddingDimensions]')
+    .equals([signature.provider, signature.model, signature.dimensions])
+    .primaryKeys()) as string[];
+  const isMatching: Record<string, boolean> = {};
+  matching.forEach(id => (isMatching[id] = true));
+  const all = (await db.documentChunks.toCollection().primaryKeys()) as string[];
+  return { matching, other: all.filter(id => !isMatching[id]) };
+}
+
+// Embed chunks again with the current embeddings, in the database and the
+// vector store. Chunks deleted in the meantime stay deleted.
+export async function reembedChunks(chunks: DocumentChunk[]): Promise<void> {
+  const manager = await getInitializedEmbeddings();
+  const embedded: DocumentChunk[] = [];
+  for (const chunk of chunks) {
+    const { embeddings, signature } = await manager.embed(chunk.content, false);
+    embedded.push({ ...chunk, embeddings, ...toChunkSignature(signature) });
   }
-  
-  return embeddingsManager!.getEmbeddings(text);
+
+  const updated: DocumentChunk[] = [];
+  await db.transaction('rw', db.documentChunks, async () => {
+    for (const chunk of embedded) {
+      const { id, ...changes } = chunk;
+      if (await db.documentChunks.update(id, changes)) updated.push(chunk);
+    }
+  });
+  await (await getVectorStoreManager()).addChunks(updated);
 }
 
 // Process document and create chunks
 export async function processDocument(document: UserDocument): Promise<void> {
   try {
     // Create chunks from document content
-    const chunks = chunkText(document.content);
+    const chunks = chunkTextWithOffsets(document.content);
     
     // Delete existing chunks for this document
-    await db.documentChunks.where('documentId').equals(document.id).delete();
+    await deleteDocumentChunks(document.id);
     
     // Create new chunks with embeddings
+    const records: DocumentChunk[] = [];
+    const manager = await getInitializedEmbeddings();
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i];
-      const embeddings = await generateEmbeddings(chunk);
-      
-      await db.documentChunks.add({
+      const { embeddings, signature } = await manager.embed(chunk.content);
+      const section = getSectionAt(document.metadata, chunk.offset);
+      const record: DocumentChunk = {
         id: crypto.randomUUID(),
         documentId: document.id,
-        content: chunk,
+        collectionId: document.collectionId,
+        content: chunk.content,
+        page: section?.page,
+        heading: section?.heading,
         embeddings,
+        ...toChunkSignature(signature),
         chunkIndex: i,
         createdAt: new Date(),
-      });
+      };
+      
+      await db.documentChunks.add(record);
+      records.push(record);
     }
+
+    await (await getVectorStoreManager()).addChunks(records);
+    await indexChunkKeywords(records);
   } catch (error) {
     console.error('Error processing document:', error);
     throw error;
   }
 }
 
-// Search for relevant chunks
-export async function searchChunks(query: string, limit: number = 5): Promise<DocumentChunk[]> {
+// Delete the chunks of a document and their keyword postings
+export async function deleteDocumentChunks(documentId: string): Promise<void> {
+  await db.transaction('rw', db.documentChunks, db.keywordIndex, db.keywordStats, async () => {
+    const postings = await db.keywordIndex.where('documentId').equals(documentId).toArray();
+    const lengths: Record<string, number> = {};
+    postings.forEach(posting => {
+      lengths[posting.chunkId] = posting.chunkLength;
+    });
+    const chunkIds = Object.keys(lengths);
+
+    await db.keywordIndex.where('documentId').equals(documentId).delete();
+    await db.documentChunks.where('documentId').equals(documentId).delete();
+    await updateKeywordStats(
+      -chunkIds.length,
+      -chunkIds.reduce((total, chunkId) => total + lengths[chunkId], 0)
+    );
+  });
+  await (await getVectorStoreManager()).deleteChunks(documentId);
+}
+
+// Add the BM25 postings of freshly created chunks
+async function indexChunkKeywords(chunks: DocumentChunk[]): Promise<void> {
+  const postings: KeywordPosting[] = [];
+  let chunkCount = 0;
+  let totalLength = 0;
+
+  chunks.forEach(chunk => {
+    const { frequencies, length } = getTermFrequencies(chunk.content);
+    if (length === 0) return;
+    chunkCount++;
+    totalLength += length;
+    Object.keys(frequencies).forEach(term => {
+      postings.push({
+        term,
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        collectionId: chunk.collectionId,
+        frequency: frequencies[term],
+        chunkLength: length,
+      });
+    });
+  });
+
+  await db.transaction('rw', db.keywordIndex, db.keywordStats, async () => {
+    await db.keywordIndex.bulkPut(postings);
+    await updateKeywordStats(chunkCount, totalLength);
+  });
+}
+
+async function updateKeywordStats(chunkCount: number, totalLength: number): Promise<void> {
+  const stats = await db.keywordStats.get('corpus');
+  await db.keywordStats.put({
+    id: 'corpus',
+    chunkCount: Math.max(0, (stats?.chunkCount ?? 0) + chunkCount),
+    totalLength: Math.max(0, (stats?.totalLength ?? 0) + totalLength),
+  });
+}
+
+// Rank chunks by similarity to the query in the vector store. Chunks
+// embedded differently than the query cannot be compared to it and are left
+// out. A store that fails leaves the keyword ranking to answer on its own.
+async function searchVectors(query: string, limit: number, collectionIds?: string[]): Promise<ScoredChunk[]> {
   try {
-    const queryEmbedding = await generateEmbeddings(query);
-    const allChunks = await db.documentChunks.toArray();
-    
-    // Calculate similarities
-    const chunksWithSimilarity = await Promise.all(allChunks.map(async chunk => ({
-      ...chunk,
-      similarity: chunk.embeddings ? calculateCosineSimilarity(queryEmbedding, chunk.embeddings) : 0
-    })));
-    
-    // Sort by similarity and return top results
-    return chunksWithSimilarity
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit)
-      .map(({ similarity, ...chunk }) => chunk);
+    const documentIds = collectionIds?.length
+      ? ((await db.userDocuments.where('collectionId').anyOf(collectionIds).primaryKeys()) as string[])
+      : undefined;
+    if (documentIds?.length === 0) return [];
+    // Cached, the store embeds the query with the same manager
+    const { signature } = await (await getInitializedEmbeddings()).embed(query);
+    const results = await (await getVectorStoreManager()).searchChunks(query, limit, documentIds);
+
+    const chunks = await db.documentChunks.bulkGet(results.map(result => result.chunkId));
+    const comparable = results.filter((_, index) => chunks[index] && hasSignature(chunks[index]!, signature));
+    if (comparable.length < results.length) {
+      console.warn(
+        `Skipped ${results.length - comparable.length} chunks embedded with another model than ` +
+          `${signature.provider}/${signature.model}. Re-embed the knowledge base to search them.`
+      );
+    }
+    return comparable;
+  } catch (error) {
+    console.error('Vector search failed:', error);
+    return [];
+  }
+}
+
+// Rank chunks by BM25 over the keyword index. Term statistics cover the
+// whole corpus, the collection filter only limits which chunks are scored.
+export async function searchKeywordIndex(
+  query: string,
+  limit: number,
+  collectionIds?: string[]
+): Promise<ScoredChunk[]> {
+  const terms = Array.from(new Set(tokenize(query)));
+  const stats = await db.keywordStats.get('corpus');
+  if (terms.length === 0 || !stats?.chunkCount) return [];
+
+  const averageLength = stats.totalLength / stats.chunkCount;
+  const scores: Record<string, number> = Object.create(null);
+  for (const term of terms) {
+    const postings = await db.keywordIndex.where('term').equals(term).toArray();
+    postings.forEach(posting => {
+      if (collectionIds?.length && collectionIds.indexOf(posting.collectionId ?? '') === -1) return;
+      scores[posting.chunkId] =
+        (scores[posting.chunkId] ?? 0) +
+        bm25Score(posting.frequency, postings.length, posting.chunkLength, stats.chunkCount, averageLength);
+    });
+  }
+
+  return Object.keys(scores)
+    .map(chunkId => ({ chunkId, score: scores[chunkId] }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  fusion: 'rrf',
+  vectorWeight: 1,
+  keywordWeight: 1,
+};
+
+// Rank constant of reciprocal rank fusion, damps the weight of the top ranks
+const RRF_K = 60;
+
+// Combine rankings either by reciprocal rank or by weighted max-normalized score
+export function fuseRankings(
+  rankings: Array<{ results: ScoredChunk[]; weight: number }>,
+  fusion: RetrievalSettings['fusion']
+): ScoredChunk[] {
+  const scores: Record<string, number> = {};
+
+  rankings.forEach(({ results, weight }) => {
+    const max = results[0]?.score || 1;
+    results.forEach((result, rank) => {
+      const score = fusion === 'rrf' ? 1 / (RRF_K + rank + 1) : result.score / max;
+      scores[result.chunkId] = (scores[result.chunkId] ?? 0) + weight * score;
+    });
+  });
+
+  return Object.keys(scores)
+    .map(chunkId => ({ chunkId, score: scores[chunkId] }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Search for relevant chunks, within the given collections when any. An
+// empty list is a scope whose collections were all deleted, it finds nothing.
+export async function searchChunks(
+  query: string,
+  limit: number = 5,
+  collectionIds?: string[]
+): Promise<DocumentChunk[]> {
+  if (collectionIds?.length === 0) return [];
+  try {
+    const settings = await db.settings.get('general');
+    const retrieval = settings?.retrieval ?? DEFAULT_RETRIEVAL_SETTINGS;
+    const candidates = limit * 4;
+
+    const [vectorResults, keywordResults] = await Promise.all([
+      retrieval.vectorWeight > 0 ? searchVectors(query, candidates, collectionIds) : Promise.resolve([]),
+      retrieval.keywordWeight > 0 ? searchKeywordIndex(query, candidates, collectionIds) : Promise.resolve([]),
+    ]);
+    const ranked = fuseRankings(
+      [
+        { results: vectorResults, weight: retrieval.vectorWeight },
+        { results: keywordResults, weight: retrieval.keywordWeight },
+      ],
+      retrieval.fusion
+    ).slice(0, limit);
+
+    const chunks = await db.documentChunks.bulkGet(ranked.map(result => result.chunkId));
+    return chunks.filter((chunk): chunk is DocumentChunk => !!chunk);
   } catch (error) {
     console.error('Error searching chunks:', error);
     return [];
   }
 }
 
-// Get context from relevant documents
-export async function getRelevantContext(query: string, maxChunks: number = 3): Promise<string> {
+// Get numbered passages from relevant documents. The numbers let the model
+// cite a passage as [1] and the UI link the citation back to its chunk.
+export async function getCitedContext(
+  query: string,
+  maxChunks: number = 3,
+  collectionIds?: string[]
+): Promise<{ context: string; sources: MessageSource[] }> {
   try {
-    const relevantChunks = await searchChunks(query, maxChunks);
+    const relevantChunks = await searchChunks(query, maxChunks, collectionIds);
     
     if (relevantChunks.length === 0) {
-      return '';
+      return { context: '', sources: [] };
     }
     
     // Get document titles for context
-    const documentIds = [...new Set(relevantChunks.map(chunk => chunk.documentId))];
+    const documentIds = Array.from(new Set(relevantChunks.map(chunk => chunk.documentId)));
     const documents = await db.userDocuments.where('id').anyOf(documentIds).toArray();
     const documentMap = new Map(documents.map(doc => [doc.id, doc]));
     
+    const sources: MessageSource[] = relevantChunks.map((chunk, index) => ({
+      number: index + 1,
+      chunkId: chunk.id,
+      documentId: chunk.documentId,
+      title: documentMap.get(chunk.documentId)?.title || 'Unknown Document',
+      page: chunk.page,
+      heading: chunk.heading,
+    }));
+
     // Build context string
-    const contextParts = relevantChunks.map(chunk => {
-      const document = documentMap.get(chunk.documentId);
-      return `[From: ${document?.title || 'Unknown Document'}]\n${chunk.content}`;
-    });
+    const contextParts = relevantChunks.map((chunk, index) =>
+      `[${index + 1}] (${formatChunkSource(sources[index].title, chunk)})\n${chunk.content}`
+    );
     
-    return contextParts.join('\n\n');
+    return { context: contextParts.join('\n\n'), sources };
   } catch (error) {
     console.error('Error getting relevant context:', error);
-    return '';
+    return { context: '', sources: [] };
+  }
+}
+
+// Get context from relevant documents
+export async function getRelevantContext(
+  query: string,
+  maxChunks: number = 3,
+  collectionIds?: string[]
+): Promise<string> {
+  return (await getCitedContext(query, maxChunks, collectionIds)).context;
+}
+
+// Move a document, its chunks and its keyword postings to another collection
+export async function setDocumentCollection(documentId: string, collectionId?: string): Promise<void> {
+  await db.transaction('rw', db.userDocuments, db.documentChunks, db.keywordIndex, async () => {
+    await db.userDocuments.update(documentId, { collectionId });
+    await db.documentChunks.where('documentId').equals(documentId).modify({ collectionId });
+    await db.keywordIndex.where('documentId').equals(documentId).modify({ collectionId });
+  });
+}
+
+// Whether deleting the collection leaves a scope searching nothing
+function isOnlyCollection(collectionIds: string[] | undefined, collectionId: string): boolean {
+  return collectionIds?.length === 1 && collectionIds[0] === collectionId;
+}
+
+// The chats, agents and workflows only searching this collection, which
+// search nothing once it is deleted
+export async function getCollectionDependents(
+  collectionId: string
+): Promise<{ chats: number; agents: number; workflows: number }> {
+  const searchesOnly = (item: { collectionIds?: string[] }) => isOnlyCollection(item.collectionIds, collectionId);
+  const hasStep = (item: { steps: WorkflowStepOptions[] }) =>
+    item.steps.some(step => isOnlyCollection(step.retrieval?.collectionIds, collectionId));
+  return {
+    chats: await db.chats.filter(searchesOnly).count(),
+    agents: await db.agents.filter(searchesOnly).count(),
+    workflows: (await db.workflows.filter(hasStep).count()) + (await db.workflowTemplates.filter(hasStep).count()),
+  };
+}
+
+// Delete a collection, leaving its documents unfiled. Scopes keep the other
+// collections, or stay empty and search nothing rather than everything.
+export async function deleteCollection(collectionId: string): Promise<void> {
+  const documents = await db.userDocuments.where('collectionId').equals(collectionId).toArray();
+  for (const document of documents) {
+    await setDocumentCollection(document.id, undefined);
   }
+
+  const withoutCollection = (item: { collectionIds?: string[] }) => {
+    if (item.collectionIds) item.collectionIds = item.collectionIds.filter(id => id !== collectionId);
+  };
+  await db.chats.toCollection().modify(withoutCollection);
+  await db.agents.toCollection().modify(withoutCollection);
+  // Retrieval steps stop searching the collection, document steps save unfiled
+  const withoutStepCollection = (item: { steps: WorkflowStepOptions[] }) => {
+    item.steps.forEach(step => {
+      if (step.retrieval) withoutCollection(step.retrieval);
+      if (step.document?.collectionId === collectionId) step.document.collectionId = undefined;
+    });
+  };
+  await db.workflows.toCollection().modify(withoutStepCollection);
+  await db.workflowTemplates.toCollection().modify(withoutStepCollection);
+  await db.collections.delete(collectionId);
 }
 
 // Process all documents in the database
@@ -0,0 +1,19 @@
+// Lowercase words without accents joined by dashes, e.g. "Research Assistant"
+// becomes "research-assistant"
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// `slug`, or `slug-2`, `slug-3`... when it is already taken
+export function uniqueSlug(slug: string, taken: string[]): string {
+  let candidate = slug;
+  for (let number = 2; taken.indexOf(candidate) !== -1; number++) {
+    candidate = `${slug}-${number}`;
+  }
+  return candidate;
+}
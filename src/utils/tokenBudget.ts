@@ -0,0 +1,125 @@
+import { encode } from "gpt-token-utils";
+import { config } from "./config";
+import { createChatCompletion } from "./openai";
+import { ChatMessage } from "./providers";
+
+const DEFAULT_CONTEXT_WINDOW = 4096;
+const MAX_REPLY_RESERVE = 1024;
+
+// Tokens the chat format adds around every message and to prime the reply
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+export interface ContextBudget {
+  messages: ChatMessage[];
+  // Number of oldest non-system messages that did not fit
+  droppedCount: number;
+  usedTokens: number;
+  contextWindow: number;
+}
+
+export function getContextWindow(model: string): number {
+  return (
+    config.availableModels.find((m) => m.value === model)?.contextWindow ??
+    DEFAULT_CONTEXT_WINDOW
+  );
+}
+
+// Room left free for the model's reply, at most half the window when the
+// chat asks for a specific max_tokens
+export function getReplyReserve(
+  contextWindow: number,
+  maxTokens?: number
+): number {
+  if (maxTokens) {
+    return Math.min(maxTokens, Math.floor(contextWindow / 2));
+  }
+  return Math.min(MAX_REPLY_RESERVE, Math.floor(contextWindow / 4));
+}
+
+export function countMessageTokens(
+  messages: ChatMessage[]
+): number {
+  return messages.reduce(
+    (total, message) =>
+      total + TOKENS_PER_MESSAGE + encode(message.content).length,
+    TOKENS_PER_REPLY
+  );
+}
+
+// Keep the leading system messages and the newest message, then as many of
+// the most recent turns as fit next to the reply reserve
+export function fitToContextWindow(
+  messages: ChatMessage[],
+  model: string,
+  maxTokens?: number
+): ContextBudget {
+  const contextWindow = getContextWindow(model);
+  const budget = contextWindow - getReplyReserve(contextWindow, maxTokens);
+
+  let systemCount = 0;
+  while (
+    systemCount < messages.length &&
+    messages[systemCount].role === "system"
+  ) {
+    systemCount++;
+  }
+  const system = messages.slice(0, systemCount);
+  const turns = messages.slice(systemCount);
+
+  let usedTokens = countMessageTokens(messages);
+  let droppedCount = 0;
+  while (usedTokens > budget && droppedCount < turns.length - 1) {
+    usedTokens -= countMessageTokens([turns[droppedCount]]) - TOKENS_PER_REPLY;
+    droppedCount++;
+  }
+
+  return {
+    messages: [...system, ...turns.slice(droppedCount)],
+    droppedCount,
+    usedTokens,
+    contextWindow,
+  };
+}
+
+export function getSummaryMessage(
+  summary: string
+): ChatMessage {
+  return {
+    role: "system",
+    content: `Summary of the earlier conversation:\n${summary}`,
+  };
+}
+
+// Fold turns that no longer fit into the rolling summary of the chat
+export async function summarizeMessages(
+  providerId: string | undefined,
+  previousSummary: string | undefined,
+  messages: ChatMessage[]
+) {
+  const transcript = messages
+    .map((message) => `${message.role}: ${message.content}`)
+    .join("\n\n");
+
+  const response = await createChatCompletion(
+    [
+      {
+        role: "system",
+        content:
+          "You maintain a running summary of a conversation. Keep every fact, decision, name and open question needed to continue it. Answer with the summary only.",
+      },
+      {
+        role: "user",
+        content: `${
+          previousSummary ? `Current summary:\n${previousSummary}\n\n` : ""
+        }New messages:\n${transcript}`,
+      },
+    ],
+    { providerId }
+  );
+
+  return {
+    summary: response.content.trim(),
+    usage: response.usage,
+  };
+}
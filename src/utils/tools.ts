@@ -0,0 +1,304 @@
+import { db } from '../db';
+import { parseCsv } from './csv';
+import { parseToolArguments, ToolCall, ToolDefinition } from './providers';
+import { formatChunkSource, searchChunks } from './rag';
+
+// What a tool may know about the conversation it runs in
+export interface ToolContext {
+  collectionIds?: string[]; // knowledge base collections the chat may read
+}
+
+export interface Tool extends ToolDefinition {
+  label: string;
+  execute(args: Record<string, any>, context: ToolContext): Promise<string>;
+}
+
+// Tool results are sent back to the model, keep them within a sane size
+const MAX_RESULT_LENGTH = 8000;
+
+const registry = new Map<string, Tool>();
+
+export function registerTool(tool: Tool) {
+  registry.set(tool.name, tool);
+}
+
+export function getTool(name: string): Tool | undefined {
+  return registry.get(name);
+}
+
+// Get the registered tools, restricted to `names` when given
+export function getTools(names?: string[]): Tool[] {
+  const tools = Array.from(registry.values());
+  return names ? tools.filter(tool => names.indexOf(tool.name) !== -1) : tools;
+}
+
+export function getToolDefinitions(tools: Tool[]): ToolDefinition[] {
+  return tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+// Run a tool call requested by the model. Failures are returned as text so the
+// model can see what went wrong and recover.
+export async function executeToolCall(
+  call: ToolCall,
+  tools: Tool[],
+  context: ToolContext = {}
+): Promise<string> {
+  const tool = tools.find(t => t.name === call.name);
+  if (!tool) {
+    return `Error: the tool "${call.name}" is not available.`;
+  }
+
+  try {
+    const result = await tool.execute(parseToolArguments(call.arguments), context);
+    return result.length > MAX_RESULT_LENGTH
+      ? `${result.slice(0, MAX_RESULT_LENGTH)}\n... (truncated)`
+      : result;
+  } catch (error) {
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+registerTool({
+  name: 'search_knowledge_base',
+  label: 'Knowledge base search',
+  description: 'Search the documents uploaded by the user and return the most relevant passages.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'What to search for' },
+      limit: { type: 'integer', description: 'Maximum number of passages, 5 by default', minimum: 1, maximum: 20 },
+    },
+    required: ['query'],
+  },
+  async execute({ query, limit }, { collectionIds }) {
+    const chunks = await searchChunks(String(query ?? ''), toCount(limit, 5, 20), collectionIds);
+    if (chunks.length === 0) {
+      return 'No relevant passages found.';
+    }
+
+    const documents = await db.userDocuments
+      .where('id')
+      .anyOf(chunks.map(chunk => chunk.documentId))
+      .toArray();
+    return chunks
+      .map(chunk => {
+        const document = documents.find(doc => doc.id === chunk.documentId);
+        return `[From: ${formatChunkSource(document?.title, chunk)}]\n${chunk.content}`;
+      })
+      .join('\n\n');
+  },
+});
+
+registerTool({
+  name: 'calculator',
+  label: 'Calculator',
+  description:
+    'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, the constants pi and e, ' +
+    'and the functions sqrt, abs, round, floor, ceil, min, max, log (base 10), ln, exp, sin, cos, tan.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression, e.g. "(12.5 * 4) ^ 2 / 3"' },
+    },
+    required: ['expression'],
+  },
+  async execute({ expression }) {
+    return String(evaluateExpression(String(expression ?? '')));
+  },
+});
+
+registerTool({
+  name: 'current_datetime',
+  label: 'Current date and time',
+  description: 'Get the current date and time, optionally in a given IANA time zone.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone such as "Europe/Lisbon", the user\'s local zone by default' },
+    },
+  },
+  async execute({ timeZone }) {
+    const now = new Date();
+    const local = now.toLocaleString('en-US', {
+      dateStyle: 'full',
+      timeStyle: 'long',
+      ...(timeZone && { timeZone: String(timeZone) }),
+    } as Intl.DateTimeFormatOptions);
+    return `${local} (ISO ${now.toISOString()})`;
+  },
+});
+
+registerTool({
+  name: 'inspect_document',
+  label: 'JSON / CSV inspection',
+  description:
+    'Inspect an uploaded JSON or CSV document. For JSON, returns the structure or the value at a path. ' +
+    'For CSV, returns the columns, the row count and sample rows.',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Title or id of the document' },
+      path: { type: 'string', description: 'JSON only: dot path of the value to return, e.g. "items.0.name"' },
+      rows: { type: 'integer', description: 'CSV only: number of sample rows, 5 by default', minimum: 1, maximum: 100 },
+    },
+    required: ['title'],
+  },
+  async execute({ title, path, rows }, { collectionIds }) {
+    const documents = collectionIds
+      ? await db.userDocuments.where('collectionId').anyOf(collectionIds).toArray()
+      : await db.userDocuments.toArray();
+    const wanted = String(title ?? '').toLowerCase();
+    const document = documents.find(doc => doc.id === title || doc.title.toLowerCase() === wanted);
+    if (!document) {
+      return `No document named "${title}". Available documents: ${documents.map(doc => doc.title).join(', ') || 'none'}.`;
+    }
+
+    // Uploaded CSV and JSON files keep their original data next to the text
+    const data: string = document.metadata?.raw ?? document.content;
+    const json = tryParseJson(data);
+    if (json !== undefined) {
+      if (path) {
+        return JSON.stringify(getAtPath(json, String(path)), null, 2) ?? 'undefined';
+      }
+      return describeJson(json);
+    }
+
+    const table = parseCsv(data);
+    if (table.length > 1 && table[0].length > 1) {
+      const [columns, ...records] = table;
+      const sample = records.slice(0, toCount(rows, 5, 100)).map(record => record.join(', '));
+      return [`Columns: ${columns.join(', ')}`, `Rows: ${records.length}`, 'Sample rows:', ...sample].join('\n');
+    }
+
+    return `"${document.title}" is neither JSON nor CSV.`;
+  },
+});
+
+// A whole number within the bounds of the schema, models do not always keep to them
+function toCount(value: unknown, fallback: number, max: number): number {
+  return Math.min(Math.max(Math.floor(Number(value)) || fallback, 1), max);
+}
+
+function tryParseJson(content: string): any {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function getAtPath(value: any, path: string): any {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+// Outline the shape of a JSON value a couple of levels deep
+function describeJson(value: any, depth: number = 0): string {
+  const indent = '  '.repeat(depth);
+  if (Array.isArray(value)) {
+    const item = value.length > 0 && depth < 2 ? `\n${describeJson(value[0], depth + 1)}` : '';
+    return `${indent}array of ${value.length}${item}`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value);
+    if (depth >= 2) return `${indent}object with keys ${keys.join(', ')}`;
+    return [`${indent}object`, ...keys.map(key => `${indent}  ${key}:\n${describeJson(value[key], depth + 2)}`)].join('\n');
+  }
+  return `${indent}${typeof value}`;
+}
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  log: (x: number) => Math.log(x) / Math.LN10,
+  ln: Math.log,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+};
+
+// Recursive descent evaluator, so model input never reaches eval()
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_]+|[-+*/%^(),]/gi) ?? [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error(`Invalid expression: ${expression}`);
+  }
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in ${expression}`);
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error(`Unexpected end of ${expression}`);
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (token === '-') return -parsePower();
+    if (token === '+') return parsePower();
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    // Own keys only, inherited ones such as "constructor" are unknown names
+    if (Object.prototype.hasOwnProperty.call(CONSTANTS, name)) return CONSTANTS[name];
+    if (Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) {
+      expect('(');
+      const args = [parseSum()];
+      while (peek() === ',') {
+        next();
+        args.push(parseSum());
+      }
+      expect(')');
+      return FUNCTIONS[name](...args);
+    }
+    throw new Error(`Unknown name "${token}"`);
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+
+  const parseProduct = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parsePower();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${peek()}" in ${expression}`);
+  }
+  return result;
+}
@@ -0,0 +1,351 @@
+import Dexie, { Table } from 'dexie';
+import type { ScoredChunk } from './vectorStore';
+
+// An HNSW (hierarchical navigable small world) graph over chunk embeddings,
+// kept in its own IndexedDB database. It runs in the vector index worker, or
+// on the main thread where workers are not available.
+
+// A chunk embedding to index
+export interface VectorIndexItem {
+  id: string; // chunk id
+  documentId: string;
+  vector: number[];
+}
+
+export type VectorIndexRequest =
+  | { type: 'ids' } // of the indexed chunks
+  | { type: 'add'; items: VectorIndexItem[] }
+  | { type: 'search'; vector: number[]; limit: number; documentIds?: string[] }
+  | { type: 'delete'; ids: string[] }
+  | { type: 'deleteDocument'; documentId: string }
+  | { type: 'clear' };
+
+interface IndexNode {
+  id: string;
+  documentId: string;
+  vector: Float32Array; // normalized, so the dot product is the cosine similarity
+  level: number;
+  neighbors: string[][]; // per level, 0 to `level`
+}
+
+interface Candidate {
+  node: IndexNode;
+  score: number;
+}
+
+class VectorIndexDatabase extends Dexie {
+  nodes!: Table<IndexNode>;
+
+  constructor() {
+    super('chatpad-vector-index');
+    this.version(1).stores({
+      nodes: 'id, documentId',
+    });
+  }
+}
+
+// Neighbors kept per node above level 0 and on level 0
+const M = 16;
+const M0 = 2 * M;
+const EF_CONSTRUCTION = 100;
+const EF_SEARCH = 64;
+const LEVEL_FACTOR = 1 / Math.log(M);
+// A filter matching this few chunks is scanned, which is exact and about as
+// fast as a graph search that has to skip most of what it finds
+const SCAN_LIMIT = 2000;
+
+function normalize(vector: number[]): Float32Array {
+  const result = new Float32Array(vector);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) norm += result[i] * result[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= norm;
+  }
+  return result;
+}
+
+// Vectors of another dimensionality are as unrelated as calculateCosineSimilarity makes them
+function similarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+function byScore(a: Candidate, b: Candidate): number {
+  return b.score - a.score;
+}
+
+// Insert into a list sorted by `compare`
+function insertSorted(list: Candidate[], item: Candidate, compare: (a: Candidate, b: Candidate) => number) {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (compare(list[middle], item) <= 0) low = middle + 1;
+    else high = middle;
+  }
+  list.splice(low, 0, item);
+}
+
+class HnswIndex {
+  private db = new VectorIndexDatabase();
+  private nodes = new Map<string, IndexNode>();
+  private byDocument = new Map<string, string[]>();
+  private entryPoint?: IndexNode;
+  // Nodes to write and delete on the next save
+  private changed: Record<string, boolean> = {};
+  private removed: Record<string, boolean> = {};
+
+  async load(): Promise<void> {
+    const nodes = await this.db.nodes.toArray();
+    this.nodes.clear();
+    this.byDocument.clear();
+    this.entryPoint = undefined;
+    nodes.forEach(node => {
+      this.nodes.set(node.id, node);
+      this.addToDocument(node);
+      if (!this.entryPoint || node.level > this.entryPoint.level) this.entryPoint = node;
+    });
+  }
+
+  ids(): string[] {
+    return Array.from(this.nodes.keys());
+  }
+
+  async save(): Promise<void> {
+    const removed = Object.keys(this.removed);
+    const changed = Object.keys(this.changed)
+      .map(id => this.nodes.get(id))
+      .filter((node): node is IndexNode => !!node);
+    this.changed = {};
+    this.removed = {};
+    await this.db.transaction('rw', this.db.nodes, async () => {
+      await this.db.nodes.bulkDelete(removed);
+      await this.db.nodes.bulkPut(changed);
+    });
+  }
+
+  async clear(): Promise<void> {
+    this.nodes.clear();
+    this.byDocument.clear();
+    this.entryPoint = undefined;
+    this.changed = {};
+    this.removed = {};
+    await this.db.nodes.clear();
+  }
+
+  add(item: VectorIndexItem) {
+    if (this.nodes.has(item.id)) this.remove(item.id);
+
+    const vector = normalize(item.vector);
+    const level = Math.floor(-Math.log(1 - Math.random()) * LEVEL_FACTOR);
+    const node: IndexNode = { id: item.id, documentId: item.documentId, vector, level, neighbors: [] };
+    for (let l = 0; l <= level; l++) node.neighbors.push([]);
+    this.nodes.set(node.id, node);
+    this.addToDocument(node);
+    this.changed[node.id] = true;
+
+    const entryPoint = this.entryPoint;
+    if (!entryPoint) {
+      this.entryPoint = node;
+      return;
+    }
+
+    let entries = this.descend(vector, entryPoint, level);
+    for (let l = Math.min(level, entryPoint.level); l >= 0; l--) {
+      const found = this.searchLayer(vector, entries, EF_CONSTRUCTION, l);
+      node.neighbors[l] = this.selectNeighbors(found, M).map(candidate => candidate.node.id);
+      node.neighbors[l].forEach(id => this.connect(this.nodes.get(id)!, node, l));
+      entries = found.map(candidate => candidate.node);
+    }
+    if (level > entryPoint.level) this.entryPoint = node;
+  }
+
+  // Unlink a node, reconnecting its neighbors through each other so the
+  // graph stays navigable
+  remove(id: string) {
+    const node = this.nodes.get(id);
+    if (!node) return;
+    this.nodes.delete(id);
+    this.removeFromDocument(node);
+    delete this.changed[id];
+    this.removed[id] = true;
+
+    node.neighbors.forEach((ids, level) => {
+      ids.forEach(neighborId => {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || !neighbor.neighbors[level]) return;
+        const linked: Record<string, boolean> = { [neighborId]: true };
+        const candidates: Candidate[] = [];
+        neighbor.neighbors[level].concat(ids).forEach(candidateId => {
+          const candidate = this.nodes.get(candidateId);
+          if (!candidate || linked[candidateId]) return;
+          linked[candidateId] = true;
+          candidates.push({ node: candidate, score: similarity(neighbor.vector, candidate.vector) });
+        });
+        neighbor.neighbors[level] = this.selectNeighbors(candidates.sort(byScore), level === 0 ? M0 : M).map(
+          candidate => candidate.node.id
+        );
+        this.changed[neighborId] = true;
+      });
+    });
+
+    if (this.entryPoint === node) {
+      this.entryPoint = undefined;
+      this.nodes.forEach(other => {
+        if (!this.entryPoint || other.level > this.entryPoint.level) this.entryPoint = other;
+      });
+    }
+  }
+
+  removeDocument(documentId: string) {
+    (this.byDocument.get(documentId) ?? []).slice().forEach(id => this.remove(id));
+  }
+
+  // The closest chunks, only among the chunks of `documentIds` when given
+  search(vector: number[], limit: number, documentIds?: string[]): ScoredChunk[] {
+    const query = normalize(vector);
+    const toResult = (candidate: Candidate) => ({ chunkId: candidate.node.id, score: candidate.score });
+    if (!this.entryPoint || limit <= 0) return [];
+
+    if (documentIds) {
+      const ids = documentIds.reduce<string[]>((all, documentId) => all.concat(this.byDocument.get(documentId) ?? []), []);
+      if (ids.length <= SCAN_LIMIT) {
+        return ids
+          .map(id => this.nodes.get(id)!)
+          .map(node => ({ node, score: similarity(query, node.vector) }))
+          .sort(byScore)
+          .slice(0, limit)
+          .map(toResult);
+      }
+    }
+
+    const allowed: Record<string, boolean> = {};
+    documentIds?.forEach(documentId => (allowed[documentId] = true));
+    // Chunks outside the filter still lead the way, so look at more of them
+    const ef = Math.max(EF_SEARCH, documentIds ? limit * 4 : limit);
+    return this.searchLayer(query, this.descend(query, this.entryPoint, 0), ef, 0)
+      .filter(candidate => !documentIds || allowed[candidate.node.documentId])
+      .slice(0, limit)
+      .map(toResult);
+  }
+
+  // Greedy search from the top level down to just above `level`
+  private descend(query: Float32Array, entryPoint: IndexNode, level: number): IndexNode[] {
+    let entries = [entryPoint];
+    for (let l = entryPoint.level; l > level; l--) {
+      entries = [this.searchLayer(query, entries, 1, l)[0].node];
+    }
+    return entries;
+  }
+
+  // The `ef` closest nodes found on one level, best first
+  private searchLayer(query: Float32Array, entries: IndexNode[], ef: number, level: number): Candidate[] {
+    const visited: Record<string, boolean> = {};
+    const candidates: Candidate[] = []; // to expand, best last
+    const results: Candidate[] = []; // best first
+    const worst = (a: Candidate, b: Candidate) => a.score - b.score;
+
+    entries.forEach(node => {
+      visited[node.id] = true;
+      const candidate = { node, score: similarity(query, node.vector) };
+      insertSorted(candidates, candidate, worst);
+      insertSorted(results, candidate, byScore);
+    });
+
+    while (candidates.length > 0) {
+      const current = candidates.pop()!;
+      if (results.length >= ef && current.score < results[results.length - 1].score) break;
+      (current.node.neighbors[level] ?? []).forEach(id => {
+        if (visited[id]) return;
+        visited[id] = true;
+        const node = this.nodes.get(id);
+        if (!node) return;
+        const score = similarity(query, node.vector);
+        if (results.length < ef || score > results[results.length - 1].score) {
+          const candidate = { node, score };
+          insertSorted(candidates, candidate, worst);
+          insertSorted(results, candidate, byScore);
+          if (results.length > ef) results.pop();
+        }
+      });
+    }
+    return results;
+  }
+
+  // Prefer neighbors in different directions: skip a candidate closer to an
+  // already selected neighbor than to the base node, unless too few are left
+  private selectNeighbors(candidates: Candidate[], count: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+    candidates.forEach(candidate => {
+      if (selected.length >= count) return;
+      const diverse = selected.every(other => similarity(candidate.node.vector, other.node.vector) < candidate.score);
+      (diverse ? selected : skipped).push(candidate);
+    });
+    return selected.concat(skipped.slice(0, count - selected.length));
+  }
+
+  private connect(neighbor: IndexNode, node: IndexNode, level: number) {
+    const ids = neighbor.neighbors[level];
+    ids.push(node.id);
+    this.changed[neighbor.id] = true;
+    const max = level === 0 ? M0 : M;
+    if (ids.length <= max) return;
+
+    const candidates = ids
+      .map(id => this.nodes.get(id))
+      .filter((other): other is IndexNode => !!other)
+      .map(other => ({ node: other, score: similarity(neighbor.vector, other.vector) }))
+      .sort(byScore);
+    neighbor.neighbors[level] = this.selectNeighbors(candidates, max).map(candidate => candidate.node.id);
+  }
+
+  private addToDocument(node: IndexNode) {
+    const ids = this.byDocument.get(node.documentId);
+    if (ids) ids.push(node.id);
+    else this.byDocument.set(node.documentId, [node.id]);
+  }
+
+  private removeFromDocument(node: IndexNode) {
+    const ids = (this.byDocument.get(node.documentId) ?? []).filter(id => id !== node.id);
+    if (ids.length > 0) this.byDocument.set(node.documentId, ids);
+    else this.byDocument.delete(node.documentId);
+  }
+}
+
+// Handle index requests one at a time, saving after every change. The index
+// is loaded from IndexedDB on the first request.
+export function createVectorIndexHandler(): (request: VectorIndexRequest) => Promise<unknown> {
+  const index = new HnswIndex();
+  let queue: Promise<unknown> = index.load();
+
+  const handle = async (request: VectorIndexRequest): Promise<unknown> => {
+    switch (request.type) {
+      case 'ids':
+        return index.ids();
+      case 'search':
+        return index.search(request.vector, request.limit, request.documentIds);
+      case 'add':
+        request.items.forEach(item => index.add(item));
+        break;
+      case 'delete':
+        request.ids.forEach(id => index.remove(id));
+        break;
+      case 'deleteDocument':
+        index.removeDocument(request.documentId);
+        break;
+      case 'clear':
+        return index.clear();
+    }
+    return index.save();
+  };
+
+  return request => {
+    const result = queue.then(() => handle(request));
+    queue = result.catch(() => undefined);
+    return result;
+  };
+}
@@ -0,0 +1,14 @@
+import { createVectorIndexHandler, VectorIndexRequest } from './vectorIndex';
+
+// Runs the local vector index off the main thread. Each reply carries the id
+// of its request.
+const handleRequest = createVectorIndexHandler();
+
+self.onmessage = async (event: MessageEvent<{ id: number; request: VectorIndexRequest }>) => {
+  const { id, request } = event.data;
+  try {
+    self.postMessage({ id, result: await handleRequest(request) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
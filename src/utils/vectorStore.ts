@@ -1,135 +1,536 @@
-import { DocumentChunk } from '../db';
+import { db, DocumentChunk } from '../db';
 import { EmbeddingsManager } from './embeddings';
+import { createVectorIndexHandler, VectorIndexItem, VectorIndexRequest } from './vectorIndex';
+
+export interface ScoredChunk {
+  chunkId: string;
+  score: number;
+}
 
 export interface VectorStore {
   name: string;
   addChunks(chunks: DocumentChunk[]): Promise<void>;
-  searchChunks(query: string, limit: number): Promise<DocumentChunk[]>;
+  // The closest chunks, only among the chunks of `documentIds` when given
+  searchChunks(query: string, limit: number, documentIds?: string[]): Promise<ScoredChunk[]>;
   deleteChunks(documentId: string): Promise<void>;
   clear(): Promise<void>;
 }
 
-// Local Vector Store (using IndexedDB)
+// The local index, shared by every LocalVectorStore. It runs in a worker
+// where possible and is brought in line with the stored chunks once.
+let vectorIndexWorker: Worker | null = null;
+let handleIndexRequest: ((request: VectorIndexRequest) => Promise<unknown>) | null = null;
+let indexSynced: Promise<void> | null = null;
+const pendingRequests = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+let lastRequestId = 0;
+
+function startVectorIndex() {
+  if (typeof Worker === 'undefined') {
+    handleIndexRequest = createVectorIndexHandler();
+    return;
+  }
+  vectorIndexWorker = new Worker(new URL('./vectorIndex.worker.ts', import.meta.url), { type: 'module' });
+  vectorIndexWorker.onmessage = event => {
+    const { id, result, error } = event.data;
+    const request = pendingRequests.get(id);
+    pendingRequests.delete(id);
+    if (error !== undefined) request?.reject(new Error(error));
+    else request?.resolve(result);
+  };
+  vectorIndexWorker.onerror = event => {
+    pendingRequests.forEach(request => request.reject(new Error(`Vector index worker failed: ${event.message}`)));
+    pendingRequests.clear();
+  };
+}
+
+function requestVectorIndex<T>(request: VectorIndexRequest): Promise<T> {
+  if (!vectorIndexWorker && !handleIndexRequest) startVectorIndex();
+  if (handleIndexRequest) return handleIndexRequest(request) as Promise<T>;
+  return new Promise<T>((resolve, reject) => {
+    const id = ++lastRequestId;
+    pendingRequests.set(id, { resolve: resolve as (result: unknown) => void, reject });
+    vectorIndexWorker!.postMessage({ id, request });
+  });
+}
+
+function toIndexItems(chunks: DocumentChunk[]): VectorIndexItem[] {
+  return chunks
+    .filter(chunk => chunk.embeddings?.length)
+    .map(chunk => ({ id: chunk.id, documentId: chunk.documentId, vector: chunk.embeddings! }));
+}
+
+// Index the chunks embedded before the index existed or restored from a
+// backup, and drop the ones deleted behind its back
+async function syncVectorIndex(): Promise<void> {
+  const indexedIds = await requestVectorIndex<string[]>({ type: 'ids' });
+  const chunkIds = (await db.documentChunks.toCollection().primaryKeys()) as string[];
+  const indexed: Record<string, boolean> = {};
+  const stored: Record<string, boolean> = {};
+  indexedIds.forEach(id => (indexed[id] = true));
+  chunkIds.forEach(id => (stored[id] = true));
+
+  const deleted = indexedIds.filter(id => !stored[id]);
+  if (deleted.length > 0) {
+    await requestVectorIndex({ type: 'delete', ids: deleted });
+  }
+  const missing = chunkIds.filter(id => !indexed[id]);
+  const batchSize = 200;
+  for (let i = 0; i < missing.length; i += batchSize) {
+    const chunks = await db.documentChunks.bulkGet(missing.slice(i, i + batchSize));
+    const items = toIndexItems(chunks.filter((chunk): chunk is DocumentChunk => !!chunk));
+    if (items.length > 0) await requestVectorIndex({ type: 'add', items });
+  }
+}
+
+function getVectorIndex(): Promise<void> {
+  if (!indexSynced) {
+    indexSynced = syncVectorIndex().catch(error => {
+      indexSynced = null;
+      throw error;
+    });
+  }
+  return indexSynced;
+}
+
+// Local Vector Store: an HNSW index in IndexedDB, searched in a Web Worker so
+// large knowledge bases do not block the UI
 export class LocalVectorStore implements VectorStore {
   name = 'local';
 
+  constructor(private embeddingsManager: EmbeddingsManager) {}
+
   async addChunks(chunks: DocumentChunk[]): Promise<void> {
-    // Chunks are already stored in IndexedDB via the RAG system
-    // This is just a wrapper for compatibility
-    console.log(`Added ${chunks.length} chunks to local vector store`);
+    await getVectorIndex();
+    const items = toIndexItems(chunks);
+    if (items.length > 0) await requestVectorIndex({ type: 'add', items });
   }
 
-  async searchChunks(query: string, limit: number): Promise<DocumentChunk[]> {
-    // This will be handled by the RAG system
-    return [];
+  async searchChunks(query: string, limit: number, documentIds?: string[]): Promise<ScoredChunk[]> {
+    const vector = await this.embeddingsManager.getEmbeddings(query);
+    await getVectorIndex();
+    return requestVectorIndex<ScoredChunk[]>({ type: 'search', vector, limit, documentIds });
   }
 
   async deleteChunks(documentId: string): Promise<void> {
-    // This will be handled by the RAG system
-    console.log(`Deleted chunks for document ${documentId} from local vector store`);
+    await getVectorIndex();
+    await requestVectorIndex({ type: 'deleteDocument', documentId });
   }
 
   async clear(): Promise<void> {
-    // This will be handled by the RAG system
-    console.log('Cleared local vector store');
+    await requestVectorIndex({ type: 'clear' });
   }
 }
 
-// Pinecone Vector Store
+const BATCH_SIZE = 100;
+
+// A JSON request to a remote store. Resolves to null for a 404 when
+// `allowNotFound` is set, a missing collection for most callers.
+async function requestStore(
+  storeName: string,
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: unknown },
+  allowNotFound: boolean = false
+): Promise<any> {
+  const response = await fetch(url, {
+    method: init.method,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (response.status === 404 && allowNotFound) return null;
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${storeName} API error: ${response.status} ${detail || response.statusText}`.trim());
+  }
+
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+}
+
+function trimUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+// Pinecone Vector Store. Vector ids start with the document id, so the
+// vectors of a document can be listed by prefix and deleted.
 export class PineconeVectorStore implements VectorStore {
   name = 'pinecone';
-  private apiKey: string;
-  private environment: string;
-  private indexName: string;
-  private namespace: string;
-
-  constructor(apiKey: string, environment: string, indexName: string, namespace: string = 'default') {
-    this.apiKey = apiKey;
-    this.environment = environment;
-    this.indexName = indexName;
-    this.namespace = namespace;
-  }
-
-  private async makeRequest(endpoint: string, method: string, body?: any): Promise<any> {
-    const url = `https://${this.indexName}-${this.environment}.svc.${this.environment}.pinecone.io${endpoint}`;
-    
-    const response = await fetch(url, {
-      method,
-      headers: {
-        'Api-Key': this.apiKey,
-        'Content-Type': 'application/json',
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+  private baseUrl: string;
 
-    if (!response.ok) {
-      throw new Error(`Pinecone API error: ${response.statusText}`);
-    }
+  constructor(
+    private embeddingsManager: EmbeddingsManager,
+    private apiKey: string,
+    host: string,
+    private namespace: string = 'default'
+  ) {
+    this.baseUrl = /^https?:\/\//.test(host) ? trimUrl(host) : `https://${trimUrl(host)}`;
+  }
 
-    return response.json();
+  private makeRequest(endpoint: string, method: string, body?: unknown): Promise<any> {
+    return requestStore('Pinecone', `${this.baseUrl}${endpoint}`, {
+      method,
+      headers: { 'Api-Key': this.apiKey, 'X-Pinecone-API-Version': '2024-07' },
+      body,
+    });
   }
 
   async addChunks(chunks: DocumentChunk[]): Promise<void> {
-    if (chunks.length === 0) return;
-
-    const vectors = chunks.map(chunk => ({
-      id: chunk.id,
-      values: chunk.embeddings || [],
-      metadata: {
-        content: chunk.content,
-        documentId: chunk.documentId,
-        chunkIndex: chunk.chunkIndex,
-        createdAt: chunk.createdAt.toISOString(),
-      },
-    }));
+    const vectors = chunks
+      .filter(chunk => chunk.embeddings?.length)
+      .map(chunk => ({
+        id: `${chunk.documentId}#${chunk.id}`,
+        values: chunk.embeddings!,
+        metadata: {
+          documentId: chunk.documentId,
+          // Metadata values cannot be null
+          ...(chunk.collectionId ? { collectionId: chunk.collectionId } : {}),
+          chunkIndex: chunk.chunkIndex,
+          createdAt: new Date(chunk.createdAt).toISOString(),
+        },
+      }));
 
     // Pinecone has a limit of 100 vectors per request
-    const batchSize = 100;
-    for (let i = 0; i < vectors.length; i += batchSize) {
-      const batch = vectors.slice(i, i + batchSize);
-      
+    for (let i = 0; i < vectors.length; i += BATCH_SIZE) {
       await this.makeRequest('/vectors/upsert', 'POST', {
-        vectors: batch,
+        vectors: vectors.slice(i, i + BATCH_SIZE),
         namespace: this.namespace,
       });
     }
-
-    console.log(`Added ${chunks.length} chunks to Pinecone`);
   }
 
-  async searchChunks(query: string, limit: number): Promise<DocumentChunk[]> {
-    // Get embeddings for the query
-    const { createEmbeddingsManager } = await import('./embeddings');
-    const embeddingsManager = await createEmbeddingsManager('openai', this.apiKey);
-    const queryEmbedding = await embeddingsManager.getEmbeddings(query);
-
+  async searchChunks(query: string, limit: number, documentIds?: string[]): Promise<ScoredChunk[]> {
+    const vector = await this.embeddingsManager.getEmbeddings(query);
     const response = await this.makeRequest('/query', 'POST', {
-      vector: queryEmbedding,
+      vector,
       topK: limit,
-      includeMetadata: true,
+      filter: documentIds ? { documentId: { $in: documentIds } } : undefined,
+      includeMetadata: false,
       namespace: this.namespace,
     });
 
-    return response.matches.map((match: any) => ({
-      id: match.id,
-      documentId: match.metadata.documentId,
-      content: match.metadata.content,
-      chunkIndex: match.metadata.chunkIndex,
-      embeddings: match.values,
-      createdAt: new Date(match.metadata.createdAt),
+    return (response.matches ?? []).map((match: any) => ({
+      // Vectors added before ids had the document prefix use the chunk id
+      chunkId: match.id.slice(match.id.indexOf('#') + 1),
+      score: match.score,
     }));
   }
 
+  // Serverless indexes list vector ids by prefix, pod-based indexes delete
+  // by a metadata filter instead
+  async deleteChunks(documentId: string): Promise<void> {
+    let ids: string[];
+    try {
+      ids = await this.listIds(`${documentId}#`);
+    } catch (error) {
+      await this.makeRequest('/vectors/delete', 'POST', {
+        filter: { documentId: { $eq: documentId } },
+        namespace: this.namespace,
+      });
+      return;
+    }
+
+    // Up to 1000 ids per request
+    for (let i = 0; i < ids.length; i += 1000) {
+      await this.makeRequest('/vectors/delete', 'POST', { ids: ids.slice(i, i + 1000), namespace: this.namespace });
+    }
+  }
+
+  private async listIds(prefix: string): Promise<string[]> {
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+    do {
+      const params = new URLSearchParams({ prefix, namespace: this.namespace });
+      if (paginationToken) params.set('paginationToken', paginationToken);
+      const page = await this.makeRequest(`/vectors/list?${params.toString()}`, 'GET');
+      (page.vectors ?? []).forEach((vector: { id: string }) => ids.push(vector.id));
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+    return ids;
+  }
+
+  // Deletes every vector in the namespace
+  async clear(): Promise<void> {
+    await this.makeRequest('/vectors/delete', 'POST', { deleteAll: true, namespace: this.namespace });
+  }
+}
+
+// Qdrant Vector Store. The collection is created with the dimensions of the
+// first chunks added, and a keyword index on documentId for filtering.
+export class QdrantVectorStore implements VectorStore {
+  name = 'qdrant';
+  private baseUrl: string;
+  private collectionReady: Promise<void> | null = null;
+
+  constructor(
+    private embeddingsManager: EmbeddingsManager,
+    url: string,
+    private collection: string = 'chatpad_chunks',
+    private apiKey?: string
+  ) {
+    this.baseUrl = `${trimUrl(url)}/collections/${encodeURIComponent(collection)}`;
+  }
+
+  private request(path: string, method: string, body?: unknown, allowNotFound?: boolean) {
+    const headers: Record<string, string> = this.apiKey ? { 'api-key': this.apiKey } : {};
+    return requestStore('Qdrant', `${this.baseUrl}${path}`, { method, headers, body }, allowNotFound);
+  }
+
+  private ensureCollection(dimensions: number): Promise<void> {
+    if (!this.collectionReady) {
+      this.collectionReady = (async () => {
+        if (await this.request('', 'GET', undefined, true)) return;
+        await this.request('', 'PUT', { vectors: { size: dimensions, distance: 'Cosine' } });
+        await this.request('/index?wait=true', 'PUT', { field_name: 'documentId', field_schema: 'keyword' });
+      })().catch(error => {
+        this.collectionReady = null;
+        throw error;
+      });
+    }
+    return this.collectionReady;
+  }
+
+  async addChunks(chunks: DocumentChunk[]): Promise<void> {
+    const points = chunks
+      .filter(chunk => chunk.embeddings?.length)
+      .map(chunk => ({
+        id: chunk.id,
+        vector: chunk.embeddings!,
+        payload: { documentId: chunk.documentId, collectionId: chunk.collectionId ?? null },
+      }));
+    if (points.length === 0) return;
+
+    await this.ensureCollection(points[0].vector.length);
+    for (let i = 0; i < points.length; i += BATCH_SIZE) {
+      await this.request('/points?wait=true', 'PUT', { points: points.slice(i, i + BATCH_SIZE) });
+    }
+  }
+
+  async searchChunks(query: string, limit: number, documentIds?: string[]): Promise<ScoredChunk[]> {
+    const vector = await this.embeddingsManager.getEmbeddings(query);
+    const response = await this.request(
+      '/points/search',
+      'POST',
+      {
+        vector,
+        limit,
+        filter: documentIds ? { must: [{ key: 'documentId', match: { any: documentIds } }] } : undefined,
+        with_payload: false,
+      },
+      true
+    );
+    // No collection yet, nothing was added
+    if (!response) return [];
+    return response.result.map((point: any) => ({ chunkId: String(point.id), score: point.score }));
+  }
+
+  async deleteChunks(documentId: string): Promise<void> {
+    await this.request(
+      '/points/delete?wait=true',
+      'POST',
+      { filter: { must: [{ key: 'documentId', match: { value: documentId } }] } },
+      true
+    );
+  }
+
+  // Drops the collection, the next chunks added create it again
+  async clear(): Promise<void> {
+    await this.request('', 'DELETE', undefined, true);
+    this.collectionReady = null;
+  }
+}
+
+// Chroma Vector Store, through the v2 API. Chroma fixes the dimensions of a
+// collection when the first embeddings are added to it.
+export class ChromaVectorStore implements VectorStore {
+  name = 'chroma';
+  private baseUrl: string;
+  private collectionId: string | null = null;
+
+  constructor(
+    private embeddingsManager: EmbeddingsManager,
+    url: string,
+    private collection: string = 'chatpad_chunks',
+    private apiKey?: string,
+    tenant: string = 'default_tenant',
+    database: string = 'default_database'
+  ) {
+    this.baseUrl = `${trimUrl(url)}/api/v2/tenants/${encodeURIComponent(tenant)}/databases/${encodeURIComponent(
+      database
+    )}/collections`;
+  }
+
+  private request(path: string, method: string, body?: unknown, allowNotFound?: boolean) {
+    const headers: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    return requestStore('Chroma', `${this.baseUrl}${path}`, { method, headers, body }, allowNotFound);
+  }
+
+  // The id of the collection, created when `create` is set and it is missing
+  private async getCollectionId(create: boolean): Promise<string | null> {
+    if (!this.collectionId) {
+      const collection = create
+        ? await this.request('', 'POST', {
+            name: this.collection,
+            get_or_create: true,
+            metadata: { 'hnsw:space': 'cosine' },
+          })
+        : await this.request(`/${encodeURIComponent(this.collection)}`, 'GET', undefined, true);
+      this.collectionId = collection?.id ?? null;
+    }
+    return this.collectionId;
+  }
+
+  async addChunks(chunks: DocumentChunk[]): Promise<void> {
+    const records = chunks.filter(chunk => chunk.embeddings?.length);
+    if (records.length === 0) return;
+
+    const collectionId = await this.getCollectionId(true);
+    for (let i = 0; i < records.length; i += BATCH_SIZE) {
+      const batch = records.slice(i, i + BATCH_SIZE);
+      await this.request(`/${collectionId}/upsert`, 'POST', {
+        ids: batch.map(chunk => chunk.id),
+        embeddings: batch.map(chunk => chunk.embeddings),
+        metadatas: batch.map(chunk => ({
+          documentId: chunk.documentId,
+          ...(chunk.collectionId ? { collectionId: chunk.collectionId } : {}),
+        })),
+      });
+    }
+  }
+
+  async searchChunks(query: string, limit: number, documentIds?: string[]): Promise<ScoredChunk[]> {
+    const collectionId = await this.getCollectionId(false);
+    if (!collectionId) return [];
+
+    const vector = await this.embeddingsManager.getEmbeddings(query);
+    const response = await this.request(`/${collectionId}/query`, 'POST', {
+      query_embeddings: [vector],
+      n_results: limit,
+      where: documentIds ? { documentId: { $in: documentIds } } : undefined,
+      include: ['distances'],
+    });
+    const ids: string[] = response.ids[0] ?? [];
+    const distances: number[] = response.distances?.[0] ?? [];
+    // Cosine distance back to similarity
+    return ids.map((id, index) => ({ chunkId: id, score: 1 - (distances[index] ?? 1) }));
+  }
+
+  async deleteChunks(documentId: string): Promise<void> {
+    const collectionId = await this.getCollectionId(false);
+    if (!collectionId) return;
+    await this.request(`/${collectionId}/delete`, 'POST', { where: { documentId } });
+  }
+
+  // Drops the collection, the next chunks added create it again
+  async clear(): Promise<void> {
+    await this.request(`/${encodeURIComponent(this.collection)}`, 'DELETE', undefined, true);
+    this.collectionId = null;
+  }
+}
+
+// Weaviate Vector Store. The class is created without a vectorizer, Weaviate
+// takes its dimensions from the first vectors added.
+export class WeaviateVectorStore implements VectorStore {
+  name = 'weaviate';
+  private baseUrl: string;
+  private className: string;
+  private classReady: Promise<void> | null = null;
+
+  constructor(
+    private embeddingsManager: EmbeddingsManager,
+    url: string,
+    className: string = 'ChatpadChunk',
+    private apiKey?: string
+  ) {
+    this.baseUrl = `${trimUrl(url)}/v1`;
+    // Weaviate class names start with a capital letter
+    this.className = className.charAt(0).toUpperCase() + className.slice(1);
+  }
+
+  private request(path: string, method: string, body?: unknown, allowNotFound?: boolean) {
+    const headers: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    return requestStore('Weaviate', `${this.baseUrl}${path}`, { method, headers, body }, allowNotFound);
+  }
+
+  private ensureClass(): Promise<void> {
+    if (!this.classReady) {
+      this.classReady = (async () => {
+        if (await this.request(`/schema/${this.className}`, 'GET', undefined, true)) return;
+        await this.request('/schema', 'POST', {
+          class: this.className,
+          vectorizer: 'none',
+          vectorIndexConfig: { distance: 'cosine' },
+          properties: [
+            { name: 'documentId', dataType: ['text'], tokenization: 'field' },
+            { name: 'collectionId', dataType: ['text'], tokenization: 'field' },
+          ],
+        });
+      })().catch(error => {
+        this.classReady = null;
+        throw error;
+      });
+    }
+    return this.classReady;
+  }
+
+  async addChunks(chunks: DocumentChunk[]): Promise<void> {
+    const objects = chunks
+      .filter(chunk => chunk.embeddings?.length)
+      .map(chunk => ({
+        class: this.className,
+        id: chunk.id,
+        vector: chunk.embeddings!,
+        properties: { documentId: chunk.documentId, collectionId: chunk.collectionId ?? '' },
+      }));
+    if (objects.length === 0) return;
+
+    await this.ensureClass();
+    for (let i = 0; i < objects.length; i += BATCH_SIZE) {
+      const results = await this.request('/batch/objects', 'POST', { objects: objects.slice(i, i + BATCH_SIZE) });
+      // The batch succeeds as a whole, failures are reported per object
+      const failed = (results ?? []).find((result: any) => result.result?.errors);
+      if (failed) {
+        throw new Error(`Weaviate API error: ${failed.result.errors.error?.[0]?.message ?? 'batch import failed'}`);
+      }
+    }
+  }
+
+  async searchChunks(query: string, limit: number, documentIds?: string[]): Promise<ScoredChunk[]> {
+    const vector = await this.embeddingsManager.getEmbeddings(query);
+    const where = documentIds
+      ? `, where: { path: ["documentId"], operator: ContainsAny, valueText: ${JSON.stringify(documentIds)} }`
+      : '';
+    const response = await this.request('/graphql', 'POST', {
+      query: `{ Get { ${this.className}(nearVector: { vector: ${JSON.stringify(vector)} }, limit: ${limit}${where}) { _additional { id distance } } } }`,
+    });
+
+    if (response.errors?.length) {
+      // No class yet, nothing was added
+      if (/Cannot query field/.test(response.errors[0].message)) return [];
+      throw new Error(`Weaviate API error: ${response.errors[0].message}`);
+    }
+    const objects: any[] = response.data?.Get?.[this.className] ?? [];
+    // Cosine distance back to similarity
+    return objects.map(object => ({ chunkId: object._additional.id, score: 1 - object._additional.distance }));
+  }
+
   async deleteChunks(documentId: string): Promise<void> {
-    // Pinecone doesn't support deleting by metadata, so we need to store IDs
-    // For now, we'll just log this - in a real implementation, you'd track chunk IDs
-    console.log(`Would delete chunks for document ${documentId} from Pinecone`);
+    if (!(await this.request(`/schema/${this.className}`, 'GET', undefined, true))) return;
+    await this.request(
+      '/batch/objects',
+      'DELETE',
+      {
+        match: {
+          class: this.className,
+          where: { path: ['documentId'], operator: 'Equal', valueText: documentId },
+        },
+      }
+    );
   }
 
+  // Drops the class, the next chunks added create it again
   async clear(): Promise<void> {
-    // Pinecone doesn't support clearing all vectors easily
-    // In a real implementation, you'd need to track all vector IDs
-    console.log('Cannot clear Pinecone index - use Pinecone console to delete vectors');
+    await this.request(`/schema/${this.className}`, 'DELETE', undefined, true);
+    this.classReady = null;
   }
 }
 
@@ -145,8 +546,8 @@ export class VectorStoreManager {
     return this.vectorStore.addChunks(chunks);
   }
 
-  async searchChunks(query: string, limit: number): Promise<DocumentChunk[]> {
-    return this.vectorStore.searchChunks(query, limit);
+  async searchChunks(query: string, limit: number, documentIds?: string[]): Promise<ScoredChunk[]> {
+    return this.vectorStore.searchChunks(query, limit, documentIds);
   }
 
   async deleteChunks(documentId: string): Promise<void> {
@@ -162,33 +563,79 @@ export class VectorStoreManager {
   }
 }
 
+export type VectorStoreType = 'local' | 'pinecone' | 'qdrant' | 'chroma' | 'weaviate';
+
+// Connection details of a remote store
+export interface VectorStoreOptions {
+  apiKey?: string;
+  host?: string; // Pinecone index host, shown in the Pinecone console
+  environment?: string; // Pinecone, with indexName for pod-based indexes without a host
+  indexName?: string; // Pinecone
+  namespace?: string; // Pinecone
+  url?: string; // Qdrant, Chroma and Weaviate
+  collection?: string; // Qdrant and Chroma collection, Weaviate class; created when missing
+  tenant?: string; // Chroma
+  database?: string; // Chroma
+}
+
 // Factory function to create vector store manager
 export async function createVectorStoreManager(
-  storeType: 'local' | 'pinecone',
-  config?: {
-    apiKey?: string;
-    environment?: string;
-    indexName?: string;
-    namespace?: string;
-  }
+  storeType: VectorStoreType,
+  embeddingsManager: EmbeddingsManager,
+  config?: VectorStoreOptions
 ): Promise<VectorStoreManager> {
   let vectorStore: VectorStore;
 
   switch (storeType) {
     case 'pinecone':
-      if (!config?.apiKey || !config?.environment || !config?.indexName) {
-        throw new Error('Pinecone configuration required: apiKey, environment, indexName');
+      if (!config?.apiKey || (!config.host && (!config.environment || !config.indexName))) {
+        throw new Error('Pinecone configuration required: apiKey and host, or environment and indexName');
       }
       vectorStore = new PineconeVectorStore(
+        embeddingsManager,
         config.apiKey,
-        config.environment,
-        config.indexName,
-        config.namespace
+        config.host || `${config.indexName}-${config.environment}.svc.${config.environment}.pinecone.io`,
+        config.namespace || undefined
+      );
+      break;
+    case 'qdrant':
+      if (!config?.url) {
+        throw new Error('Qdrant configuration required: url');
+      }
+      vectorStore = new QdrantVectorStore(
+        embeddingsManager,
+        config.url,
+        config.collection || undefined,
+        config.apiKey || undefined
+      );
+      break;
+    case 'chroma':
+      if (!config?.url) {
+        throw new Error('Chroma configuration required: url');
+      }
+      vectorStore = new ChromaVectorStore(
+        embeddingsManager,
+        config.url,
+        config.collection || undefined,
+        config.apiKey || undefined,
+        config.tenant || undefined,
+        config.database || undefined
+      );
+      break;
+    case 'weaviate':
+      if (!config?.url) {
+        throw new Error('Weaviate configuration required: url');
+      }
+      vectorStore = new WeaviateVectorStore(
+        embeddingsManager,
+        config.url,
+        config.collection || undefined,
+        config.apiKey || undefined
       );
       break;
     case 'local':
     default:
-      vectorStore = new LocalVectorStore();
+      vectorStore = new LocalVectorStore(embeddingsManager);
       break;
   }
 
@@ -0,0 +1,138 @@
+import { db, WorkflowRequestSettings } from '../db';
+import { queryJsonPath } from './jsonPath';
+
+export const DEFAULT_REQUEST_SETTINGS: WorkflowRequestSettings = {
+  allowedHosts: [],
+  secrets: {},
+  maxResponseBytes: 1024 * 1024,
+};
+
+export const REQUEST_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+// A request with its placeholders filled in
+export interface WorkflowHttpMessage {
+  method: typeof REQUEST_METHODS[number];
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export class WorkflowRequestError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'WorkflowRequestError';
+    Object.setPrototypeOf(this, WorkflowRequestError.prototype);
+  }
+}
+
+export async function getRequestSettings(): Promise<WorkflowRequestSettings> {
+  const settings = await db.settings.get('general');
+  return { ...DEFAULT_REQUEST_SETTINGS, ...settings?.workflowRequests };
+}
+
+// Entries are host names, with a port to allow that port only, or
+// *.example.com for every subdomain of example.com
+export function isHostAllowed(url: URL, allowedHosts: string[]): boolean {
+  return allowedHosts.some(entry => {
+    const allowed = entry.trim().toLowerCase();
+    if (!allowed) return false;
+    const host = /:\d+$/.test(allowed) ? url.host : url.hostname;
+    if (allowed.slice(0, 2) === '*.') {
+      return host.length > allowed.length - 1 && host.slice(1 - allowed.length) === allowed.slice(1);
+    }
+    return host === allowed;
+  });
+}
+
+// The body as text, failing as soon as it grows past `maxBytes`
+async function readText(response: Response, maxBytes: number): Promise<string> {
+  const tooLarge = () =>
+    new WorkflowRequestError(`The response is larger than the limit of ${Math.round(maxBytes / 1024)} KB`);
+  if (Number(response.headers.get('Content-Length')) > maxBytes) {
+    throw tooLarge();
+  }
+  if (!response.body) {
+    const text = await response.text();
+    if (new Blob([text]).size > maxBytes) throw tooLarge();
+    return text;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      reader.cancel();
+      throw tooLarge();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+// The values `extract` matches in a JSON body: a single string as it is,
+// anything else as JSON
+function extractValue(text: string, extract: string): string {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new WorkflowRequestError(`The response is not JSON, so ${extract} cannot be applied to it`);
+  }
+  const matches = queryJsonPath(json, extract);
+  if (matches.length === 0) {
+    throw new WorkflowRequestError(`${extract} matched nothing in the response`);
+  }
+  const value = matches.length === 1 ? matches[0] : matches;
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+// Send a request to an allowed host and return its body, or the part of it
+// `extract` picks out. Redirects are not followed, they could lead to a host
+// that is not allowed. Error messages leave out the path and query, which may
+// contain secrets.
+export async function sendWorkflowRequest(
+  message: WorkflowHttpMessage,
+  settings: WorkflowRequestSettings,
+  extract?: string,
+  signal?: AbortSignal
+): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(message.url);
+  } catch (error) {
+    throw new WorkflowRequestError('The URL is not valid');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new WorkflowRequestError(`Only http and https URLs can be requested, not ${url.protocol}`);
+  }
+  if (!isHostAllowed(url, settings.allowedHosts)) {
+    throw new WorkflowRequestError(
+      `${url.host} is not an allowed host. Add it under Settings → Advanced → Workflow Requests.`
+    );
+  }
+
+  const response = await fetch(url.href, {
+    method: message.method,
+    headers: message.headers,
+    body: message.method === 'GET' || !message.body ? undefined : message.body,
+    redirect: 'manual',
+    signal,
+  });
+  if (response.type === 'opaqueredirect' || (response.status >= 300 && response.status < 400)) {
+    throw new WorkflowRequestError(`${url.host} redirected the request, redirects are not followed`);
+  }
+  if (!response.ok) {
+    throw new WorkflowRequestError(
+      `${message.method} ${url.host} failed: ${response.status} ${response.statusText}`.trim(),
+      response.status
+    );
+  }
+
+  const text = await readText(response, settings.maxResponseBytes);
+  return extract ? extractValue(text, extract) : text;
+}
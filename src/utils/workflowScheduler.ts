@@ -0,0 +1,234 @@
+import { nanoid } from 'nanoid';
+import { db } from '../db';
+import {
+  getStepDependencies,
+  getTemplateVariableDefinitions,
+  getWorkflowTemplate,
+  validateVariableValues,
+  WorkflowManager,
+  WorkflowRun,
+  WorkflowValidationError,
+} from './agentWorkflow';
+import { getNextRun } from './cron';
+import { processDocument } from './rag';
+
+// Runs a workflow template with fixed variables on a cron schedule
+export interface WorkflowSchedule {
+  id: string;
+  name: string;
+  templateId: string;
+  variables: Record<string, string>;
+  cron: string;
+  // Runs missed while the app was closed: run once to catch up, or skip them
+  catchUp: 'once' | 'skip';
+  // Where the output of a completed run is saved, besides the run history
+  saveAs: 'none' | 'chat' | 'document';
+  collectionId?: string; // documents only
+  enabled: boolean;
+  workflowId?: string; // created on the first run, every run is kept in its history
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  lastRunId?: string;
+  lastError?: string; // when a run could not start
+  createdAt: Date;
+}
+
+export type WorkflowScheduleInput = Pick<
+  WorkflowSchedule,
+  'name' | 'templateId' | 'variables' | 'cron' | 'catchUp' | 'saveAs' | 'collectionId'
+>;
+
+const CHECK_INTERVAL = 60 * 1000;
+// A run due longer ago than this was missed rather than just not checked yet
+const MISSED_AFTER = 5 * 60 * 1000;
+
+// Fires due schedules while the app is open. The schedules are stored in the
+// database, so any instance can edit them; only a started one runs them.
+export class WorkflowScheduler {
+  private workflowManager = new WorkflowManager();
+  private timer?: ReturnType<typeof setInterval>;
+
+  start() {
+    if (this.timer) return;
+    this.checkSchedules();
+    this.timer = setInterval(() => this.checkSchedules(), CHECK_INTERVAL);
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async saveSchedule(input: WorkflowScheduleInput, scheduleId?: string): Promise<WorkflowSchedule> {
+    const template = await getWorkflowTemplate(input.templateId);
+    if (!template) {
+      throw new Error(`Workflow template ${input.templateId} not found`);
+    }
+    const issues = validateVariableValues(getTemplateVariableDefinitions(template), input.variables);
+    if (issues.length > 0) {
+      throw new WorkflowValidationError(issues);
+    }
+
+    const existing = scheduleId ? await db.workflowSchedules.get(scheduleId) : undefined;
+    const schedule: WorkflowSchedule = {
+      ...input,
+      id: existing?.id ?? crypto.randomUUID(),
+      enabled: existing?.enabled ?? true,
+      // Throws for invalid expressions. The template or variables may have
+      // changed, so the next run starts a new workflow.
+      nextRunAt: getNextRun(input.cron, new Date()),
+      lastRunAt: existing?.lastRunAt,
+      lastRunId: existing?.lastRunId,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    await db.workflowSchedules.put(schedule);
+    return schedule;
+  }
+
+  // The runs of a disabled schedule are skipped, not caught up on later
+  async setEnabled(scheduleId: string, enabled: boolean): Promise<void> {
+    const schedule = await db.workflowSchedules.get(scheduleId);
+    if (!schedule) return;
+    await db.workflowSchedules.update(scheduleId, {
+      enabled,
+      nextRunAt: enabled ? getNextRun(schedule.cron, new Date()) : schedule.nextRunAt,
+    });
+  }
+
+  // The schedule's workflow and its run history are kept
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    await db.workflowSchedules.delete(scheduleId);
+  }
+
+  async runNow(scheduleId: string): Promise<WorkflowRun | undefined> {
+    const schedule = await db.workflowSchedules.get(scheduleId);
+    if (!schedule) {
+      throw new Error(`Workflow schedule ${scheduleId} not found`);
+    }
+    await db.workflowSchedules.update(scheduleId, { lastRunAt: new Date() });
+    return this.runSchedule(schedule);
+  }
+
+  // Called without waiting, a failed check is logged and tried again on the
+  // next tick
+  private checkSchedules() {
+    this.runDueSchedules().catch(error => console.error('Checking workflow schedules failed:', error));
+  }
+
+  private async runDueSchedules() {
+    const now = new Date();
+    const due = await db.workflowSchedules.where('nextRunAt').belowOrEqual(now).toArray();
+    for (const schedule of due.filter(s => s.enabled)) {
+      const missed = now.getTime() - new Date(schedule.nextRunAt).getTime() > MISSED_AFTER;
+      if (!(await this.claim(schedule.id, now))) continue;
+      if (missed && schedule.catchUp === 'skip') continue;
+      // Not awaited, so a long run does not hold up the other schedules
+      this.runSchedule(schedule);
+    }
+  }
+
+  // Move a due schedule on to its next run. Only one open tab gets to run it.
+  private claim(scheduleId: string, now: Date): Promise<boolean> {
+    return db.transaction('rw', db.workflowSchedules, async () => {
+      const schedule = await db.workflowSchedules.get(scheduleId);
+      if (!schedule?.enabled || new Date(schedule.nextRunAt) > now) return false;
+      await db.workflowSchedules.update(scheduleId, { nextRunAt: getNextRun(schedule.cron, now), lastRunAt: now });
+      return true;
+    });
+  }
+
+  private async runSchedule(schedule: WorkflowSchedule): Promise<WorkflowRun | undefined> {
+    try {
+      let workflow = schedule.workflowId ? await db.workflows.get(schedule.workflowId) : undefined;
+      if (!workflow) {
+        workflow = await this.workflowManager.createWorkflowFromTemplate(
+          schedule.templateId,
+          schedule.name,
+          `Runs on the schedule ${schedule.cron}`,
+          schedule.variables
+        );
+        await db.workflowSchedules.update(schedule.id, { workflowId: workflow.id });
+      }
+      if (this.workflowManager.isRunning(workflow.id)) {
+        throw new Error('The previous run has not finished yet');
+      }
+      // A new run would replace it as the workflow's last run, leaving its
+      // approval unanswerable
+      const lastRun = workflow.lastRunId ? await db.workflowRuns.get(workflow.lastRunId) : undefined;
+      if (lastRun?.status === 'awaiting_approval') {
+        throw new Error('The previous run is waiting for an approval');
+      }
+
+      const run = await this.workflowManager.executeWorkflow(workflow.id, workflow.variables);
+      await db.workflowSchedules.update(schedule.id, { lastRunId: run.id, lastError: undefined });
+      // Runs waiting for an approval are finished, and saved, by hand
+      if (run.status === 'completed') {
+        await saveRunOutput(schedule, run);
+      }
+      return run;
+    } catch (error) {
+      console.error(`Scheduled workflow ${schedule.name} failed:`, error);
+      await db.workflowSchedules.update(schedule.id, {
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+}
+
+// Completed steps no other step used: the result of the run
+function getFinalSteps(run: WorkflowRun) {
+  const used: Record<string, boolean> = {};
+  run.steps.forEach(step => getStepDependencies(step, run.steps).forEach(id => (used[id] = true)));
+  return run.steps.filter(step => step.status === 'completed' && step.type !== 'condition' && !used[step.id]);
+}
+
+async function saveRunOutput(schedule: WorkflowSchedule, run: WorkflowRun) {
+  const steps = getFinalSteps(run);
+  const title = `${schedule.name} · ${new Date(run.startedAt).toLocaleDateString()}`;
+  if (schedule.saveAs === 'none' || steps.length === 0) return;
+
+  if (schedule.saveAs === 'document') {
+    const document = {
+      id: crypto.randomUUID(),
+      title,
+      content: steps
+        .map(step => (steps.length > 1 ? `## ${step.metadata?.description ?? step.id}\n\n${step.output}` : step.output!))
+        .join('\n\n'),
+      type: 'text' as const,
+      source: `Workflow: ${run.workflowName}`,
+      collectionId: schedule.collectionId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    await db.userDocuments.add(document);
+    await processDocument(document);
+    return;
+  }
+
+  // The chat continues with the agent of the last step
+  const agent = await db.agents.where('slug').equals(steps[steps.length - 1].agentId).first();
+  const chatId = nanoid();
+  let parentId: string | null = null;
+  await db.transaction('rw', db.chats, db.messages, async () => {
+    await db.chats.add({
+      id: chatId,
+      description: title,
+      totalTokens: run.totalTokens,
+      createdAt: new Date(),
+      pinned: false,
+      agentId: agent?.id,
+    });
+    for (const step of steps) {
+      for (const [role, content] of [
+        ['user', step.resolvedInput ?? step.input],
+        ['assistant', step.output!],
+      ] as const) {
+        const id = nanoid();
+        await db.messages.add({ id, chatId, parentId, role, content, createdAt: new Date() });
+        parentId = id;
+      }
+    }
+    await db.chats.update(chatId, { activeLeafId: parentId ?? undefined });
+  });
+}
@@ -0,0 +1,93 @@
+import { parse, stringify } from 'yaml';
+import {
+  validateTemplate,
+  WORKFLOW_TEMPLATES,
+  WorkflowTemplate,
+  WorkflowTemplateStep,
+  WorkflowValidationError,
+  WorkflowVariable,
+} from './agentWorkflow';
+import { slugify } from './slug';
+
+export type TemplateFileFormat = 'json' | 'yaml';
+
+const VARIABLE_TYPES: WorkflowVariable['type'][] = ['string', 'text', 'number', 'boolean', 'select'];
+
+export function getTemplateFileName(template: WorkflowTemplate, format: TemplateFileFormat): string {
+  return `${slugify(template.name) || 'workflow'}.${format === 'json' ? 'json' : 'yaml'}`;
+}
+
+// The template as it is written to a file; when it was saved stays local
+export function serializeTemplate(template: WorkflowTemplate, format: TemplateFileFormat): string {
+  const { createdAt, ...content } = template;
+  return format === 'json' ? JSON.stringify(content, null, 2) : stringify(content);
+}
+
+function toStrings(values: any): Record<string, string> | undefined {
+  if (!values || typeof values !== 'object') return undefined;
+  const result: Record<string, string> = {};
+  Object.keys(values).forEach(key => {
+    result[key] = String(values[key] ?? '');
+  });
+  return result;
+}
+
+// Read a template from a JSON or YAML file. JSON is valid YAML, so one parser
+// handles both.
+export function parseTemplate(text: string): WorkflowTemplate {
+  let content: any;
+  try {
+    content = parse(text);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON or YAML: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!content || typeof content !== 'object' || !Array.isArray(content.steps)) {
+    throw new Error('The file does not contain a workflow template');
+  }
+
+  const steps: WorkflowTemplateStep[] = content.steps.map((step: any, index: number) => {
+    if (!step || typeof step.inputTemplate !== 'string') {
+      throw new Error(`Step ${index + 1} needs an inputTemplate`);
+    }
+    // Steps without an agent may leave out agentId, validation catches the others
+    return {
+      ...step,
+      agentId: String(step.agentId ?? ''),
+      description: String(step.description ?? ''),
+      ...(step.document && { document: { ...step.document, title: String(step.document.title ?? '') } }),
+      ...(step.http && { http: { ...step.http, url: String(step.http.url ?? ''), headers: toStrings(step.http.headers) } }),
+    };
+  });
+
+  // YAML reads unquoted values such as 3 or true as numbers and booleans
+  const variables: WorkflowVariable[] | undefined = Array.isArray(content.variables)
+    ? content.variables.map((variable: any) => {
+        if (!variable || typeof variable.name !== 'string' || VARIABLE_TYPES.indexOf(variable.type) === -1) {
+          throw new Error(`Variables need a name and one of the types ${VARIABLE_TYPES.join(', ')}`);
+        }
+        return {
+          ...variable,
+          defaultValue: variable.defaultValue == null ? undefined : String(variable.defaultValue),
+          options: Array.isArray(variable.options) ? variable.options.map(String) : undefined,
+        };
+      })
+    : undefined;
+
+  const id = typeof content.id === 'string' && content.id ? content.id : crypto.randomUUID();
+  const template: WorkflowTemplate = {
+    // An edited copy of a built-in template is imported as a new template
+    id: WORKFLOW_TEMPLATES.some(t => t.id === id) ? crypto.randomUUID() : id,
+    name: String(content.name ?? ''),
+    description: String(content.description ?? ''),
+    steps,
+  };
+  if (variables) {
+    template.variables = variables;
+  }
+
+  const issues = validateTemplate(template);
+  if (issues.length > 0) {
+    throw new WorkflowValidationError(issues);
+  }
+  return template;
+}